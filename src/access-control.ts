@@ -0,0 +1,145 @@
+/**
+ * Named API keys and roles for the HTTP and SSE transports.
+ * MCP_API_KEYS_FILE points to a JSON file mapping each key to a role; a role
+ * narrows the tools (same options as ToolPolicy) and the organization IDs a
+ * session may touch. The session's identity is fixed when it initializes.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { readFileSync } from 'fs';
+import { InstanceScopes } from './org-scope.js';
+import { ToolPolicy } from './tool-policy.js';
+import type { ToolPolicyOptions } from './tool-policy.js';
+
+export interface RoleDefinition extends ToolPolicyOptions {
+  /**
+   * Organization IDs the role may touch, or IDs by instance name such as
+   * `{ "us": [5], "eu": [12] }`. Omit for every organization.
+   */
+  organizations?: number[] | Record<string, number[]>;
+}
+
+export interface ApiKeyDefinition {
+  /** Identity recorded for sessions opened with this key. */
+  name: string;
+  role: string;
+  /** The key itself, or its hex SHA-256 digest in `sha256`. */
+  key?: string;
+  sha256?: string;
+}
+
+export interface ApiKeysFile {
+  roles: Record<string, RoleDefinition>;
+  keys: ApiKeyDefinition[];
+}
+
+export interface AccessIdentity {
+  name: string;
+  role: string;
+  policy: ToolPolicy;
+  /** Undefined when the identity is not limited to specific organizations. */
+  organizations?: InstanceScopes;
+}
+
+/** Identity of clients that authenticate with the shared MCP_AUTH_TOKEN. */
+export const SHARED_TOKEN_IDENTITY: AccessIdentity = {
+  name: 'shared-token',
+  role: 'full-access',
+  policy: new ToolPolicy()
+};
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+export class ApiKeyStore {
+  private readonly entries: { digest: Buffer; identity: AccessIdentity }[];
+
+  constructor(config: ApiKeysFile, source = 'API keys file') {
+    if (!config || typeof config !== 'object' || !config.roles || !Array.isArray(config.keys)) {
+      throw new Error(`${source}: expected an object with "roles" and "keys"`);
+    }
+
+    const identities = new Map<string, Omit<AccessIdentity, 'name'>>();
+    for (const [role, definition] of Object.entries(config.roles)) {
+      const { organizations, ...policy } = definition ?? {};
+      identities.set(role, {
+        role,
+        policy: new ToolPolicy(policy),
+        ...(organizations !== undefined
+          ? { organizations: InstanceScopes.fromDefinition(organizations, `${source}: role "${role}" organizations`) }
+          : {})
+      });
+    }
+
+    const names = new Set<string>();
+    this.entries = config.keys.map((entry, index) => {
+      const label = entry?.name ? `key "${entry.name}"` : `key #${index + 1}`;
+      if (!entry?.name) throw new Error(`${source}: ${label} has no name`);
+      if (names.has(entry.name)) throw new Error(`${source}: duplicate key name "${entry.name}"`);
+      names.add(entry.name);
+
+      const identity = identities.get(entry.role);
+      if (!identity) throw new Error(`${source}: ${label} uses unknown role "${entry.role}"`);
+
+      let keyDigest: Buffer;
+      if (entry.sha256 !== undefined) {
+        if (!/^[0-9a-f]{64}$/i.test(entry.sha256)) throw new Error(`${source}: ${label} sha256 must be 64 hex characters`);
+        keyDigest = Buffer.from(entry.sha256, 'hex');
+      } else if (entry.key?.trim()) {
+        keyDigest = digest(entry.key.trim());
+      } else {
+        throw new Error(`${source}: ${label} needs "key" or "sha256"`);
+      }
+      return { digest: keyDigest, identity: { name: entry.name, ...identity } };
+    });
+  }
+
+  /**
+   * Load MCP_API_KEYS_FILE. Returns undefined when the variable is unset.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ApiKeyStore | undefined {
+    const path = env.MCP_API_KEYS_FILE?.trim();
+    if (!path) return undefined;
+    let config: ApiKeysFile;
+    try {
+      config = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read API keys file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return new ApiKeyStore(config, path);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /** The distinct role policies, for startup warnings about unknown tool names. */
+  policies(): ToolPolicy[] {
+    return [...new Set(this.entries.map((entry) => entry.identity.policy))];
+  }
+
+  /**
+   * Check every role's organizations against the configured instances.
+   * Throws on an unknown instance, or IDs without an instance while
+   * several are configured.
+   */
+  validateScopes(instances: readonly string[]): void {
+    for (const { identity } of this.entries) {
+      identity.organizations?.validate(instances, `API key role "${identity.role}" organizations`);
+    }
+  }
+
+  /**
+   * The identity for a presented key. Every entry is compared so the time
+   * taken does not reveal which key matched.
+   */
+  authenticate(token: string): AccessIdentity | undefined {
+    const presented = digest(token);
+    let match: AccessIdentity | undefined;
+    for (const entry of this.entries) {
+      if (timingSafeEqual(presented, entry.digest)) match ??= entry.identity;
+    }
+    return match;
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Append-only JSONL audit log of every mutating NinjaOne request.
+ * NinjaOneAPI records one entry per non-GET request of a tool that is not
+ * read-only, after it finishes, with the tool call and session it ran under
+ * (see context.ts). The file rotates by size: `audit.jsonl` becomes
+ * `audit.jsonl.1`, and so on.
+ */
+
+import { appendFile, readFile, rename, rm, stat } from 'fs/promises';
+
+export interface AuditEntry {
+  time: string;
+  /** MCP session ID; absent on STDIO. */
+  sessionId?: string;
+  /** Instance profile the request went to; absent with a single instance. */
+  instance?: string;
+  /** API key name and role of an HTTP session. */
+  identity?: string;
+  role?: string;
+  tool?: string;
+  /** Tool arguments with secrets redacted and long values truncated. */
+  arguments?: Record<string, unknown>;
+  method: string;
+  endpoint: string;
+  /** The record acted on, e.g. "device 12". */
+  target?: string;
+  /** NinjaOne HTTP status; absent for timeouts and network errors. */
+  status?: number;
+  outcome: 'success' | 'error';
+  error?: string;
+  durationMs: number;
+}
+
+export interface AuditQuery {
+  since?: string;
+  until?: string;
+  tool?: string;
+  identity?: string;
+  sessionId?: string;
+  instance?: string;
+  /** Substring of the target, e.g. "device 12". */
+  target?: string;
+  outcome?: 'success' | 'error';
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  path: string;
+  /** Rotate before the file would grow past this size. */
+  maxBytes: number;
+  /** Rotated files kept besides the current one. */
+  maxFiles: number;
+}
+
+const REDACTED_ARGUMENT = /password|secret|token|credential|apikey|api_key/i;
+const MAX_ARGUMENT_LENGTH = 500;
+
+/**
+ * Redact secrets and truncate long values so entries stay small and safe to share.
+ */
+export function sanitizeArguments(value: unknown, key = ''): unknown {
+  if (key && REDACTED_ARGUMENT.test(key)) return '[redacted]';
+  if (typeof value === 'string') {
+    return value.length > MAX_ARGUMENT_LENGTH ? `${value.slice(0, MAX_ARGUMENT_LENGTH)}... (${value.length} chars)` : value;
+  }
+  if (Array.isArray(value)) return value.map((item) => sanitizeArguments(item));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([entryKey, entry]) => [entryKey, sanitizeArguments(entry, entryKey)]));
+  }
+  return value;
+}
+
+const TARGET_PATTERN = /\/(device|organization|locations|contact|end-user|alert|ticket|role)\/([^/?]*\d[^/?]*)/g;
+
+/**
+ * The most specific record an endpoint acts on, e.g. "location 3" for
+ * /v2/organization/1/locations/3. Bulk device approvals name their devices.
+ */
+export function auditTarget(endpoint: string, body?: unknown): string | undefined {
+  const matches = [...endpoint.matchAll(TARGET_PATTERN)];
+  const last = matches[matches.length - 1];
+  if (last) return `${last[1] === 'locations' ? 'location' : last[1]} ${decodeURIComponent(last[2] ?? '')}`;
+  const devices = (body as { devices?: unknown } | undefined)?.devices;
+  if (Array.isArray(devices)) return `devices ${devices.join(', ')}`;
+  return undefined;
+}
+
+export class AuditLog {
+  private static readonly DEFAULT_LIMIT = 50;
+  private static readonly MAX_LIMIT = 1000;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: AuditLogOptions) {}
+
+  /**
+   * Read NINJA_AUDIT_LOG (file path), NINJA_AUDIT_LOG_MAX_BYTES (default
+   * 10 MB) and NINJA_AUDIT_LOG_MAX_FILES (default 5). Returns undefined when
+   * no path is set.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): AuditLog | undefined {
+    const path = env.NINJA_AUDIT_LOG?.trim();
+    if (!path) return undefined;
+    const read = (name: string, fallback: number, min: number): number => {
+      const parsed = parseInt(env[name] || '', 10);
+      return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+    };
+    return new AuditLog({
+      path,
+      maxBytes: read('NINJA_AUDIT_LOG_MAX_BYTES', 10 * 1024 * 1024, 1024),
+      maxFiles: read('NINJA_AUDIT_LOG_MAX_FILES', 5, 1)
+    });
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  /**
+   * Append an entry. Writes are serialized; a failed write is logged and
+   * never fails the request being audited.
+   */
+  record(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writes = this.writes
+      .then(() => this.append(line))
+      .catch((error) => {
+        console.error(`Failed to write audit log ${this.options.path}:`, error instanceof Error ? error.message : String(error));
+      });
+    return this.writes;
+  }
+
+  /**
+   * Entries matching the query, newest first, across the current and rotated files.
+   */
+  async search(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.writes;
+    const limit = Math.min(Math.max(1, query.limit ?? AuditLog.DEFAULT_LIMIT), AuditLog.MAX_LIMIT);
+    const since = query.since ? Date.parse(query.since) : undefined;
+    const until = query.until ? Date.parse(query.until) : undefined;
+    const matches: AuditEntry[] = [];
+
+    for (let index = 0; index <= this.options.maxFiles && matches.length < limit; index++) {
+      const lines = await this.readLines(this.fileName(index));
+      for (let i = lines.length - 1; i >= 0 && matches.length < limit; i--) {
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(lines[i]!);
+        } catch {
+          continue;
+        }
+        const time = Date.parse(entry.time);
+        if (since !== undefined && time < since) continue;
+        if (until !== undefined && time > until) continue;
+        if (query.tool && entry.tool !== query.tool) continue;
+        if (query.identity && entry.identity !== query.identity) continue;
+        if (query.sessionId && entry.sessionId !== query.sessionId) continue;
+        if (query.instance && entry.instance !== query.instance) continue;
+        if (query.outcome && entry.outcome !== query.outcome) continue;
+        if (query.target && !entry.target?.includes(query.target)) continue;
+        matches.push(entry);
+      }
+    }
+    return matches;
+  }
+
+  private fileName(index: number): string {
+    return index === 0 ? this.options.path : `${this.options.path}.${index}`;
+  }
+
+  private async append(line: string) {
+    const size = await stat(this.options.path).then((info) => info.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > this.options.maxBytes) {
+      await this.rotate();
+    }
+    await appendFile(this.options.path, line, { mode: 0o600 });
+  }
+
+  private async rotate() {
+    const { maxFiles } = this.options;
+    await rm(this.fileName(maxFiles), { force: true });
+    for (let index = maxFiles - 1; index >= 0; index--) {
+      await rename(this.fileName(index), this.fileName(index + 1)).catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    }
+  }
+
+  private async readLines(file: string): Promise<string[]> {
+    try {
+      return (await readFile(file, 'utf8')).split('\n').filter(Boolean);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Record/replay cassettes of NinjaOne HTTP traffic.
+ * In record mode NinjaOneAPI appends every exchange, including OAuth token
+ * requests and retried attempts, to a JSONL cassette. Secrets, personal
+ * data and search terms are redacted before anything is written. Replay mode answers
+ * requests from a cassette without touching the network, so traffic
+ * captured from a real tenant can be replayed as a repeatable test.
+ */
+
+import { createHash } from 'crypto';
+import { appendFile, readFile, writeFile } from 'fs/promises';
+import { instanceFilePath } from './instances.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteInteraction {
+  method: string;
+  /** Path and query string, without the base URL; search terms replaced by a hash. */
+  path: string;
+  /** JSON, form or multipart request body as an object, redacted. */
+  requestBody?: unknown;
+  status: number;
+  statusText: string;
+  /** Only the headers the client reads: content-type and retry-after. */
+  headers: Record<string, string>;
+  /** Parsed JSON when the response was JSON, raw text otherwise; redacted. */
+  body?: unknown;
+  recordedAt: string;
+}
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  path: string;
+  /** Field names or `parent.field` paths, lowercased, whose values are personal data. */
+  redactFields: ReadonlySet<string>;
+}
+
+/** Credentials, wherever they appear: OAuth forms, token responses, script parameters. */
+const SECRET_FIELD = /password|secret|token|credential|apikey|api_key|client_id/i;
+
+/**
+ * Personal data NinjaOne returns for end users, contacts, technicians and
+ * devices, device search terms echoed back, and free text of tickets and
+ * comments that may quote any of it.
+ */
+export const DEFAULT_REDACT_FIELDS: readonly string[] = [
+  'email', 'phone', 'mobile', 'firstName', 'lastName', 'fullName', 'userName', 'username',
+  'lastLoggedInUser', 'address', 'address1', 'address2', 'ipAddresses', 'publicIP', 'macAddresses',
+  'systemName', 'displayName', 'dnsName', 'netbiosName', 'system.name', 'query', 'matchAttrValue',
+  'subject', 'body', 'htmlBody'
+];
+
+/** Query parameters holding search terms and filters, which can name people and devices. */
+const PERSONAL_QUERY_PARAMETERS = new Set(['q', 'df', 'email', 'user', 'search', 'name']);
+
+const REDACTED = '[redacted]';
+
+/** Hex digits of a query value's SHA-256 kept in its redacted form. */
+const QUERY_HASH_LENGTH = 12;
+
+/**
+ * Job polling endpoints, asked again until a job finishes: their last
+ * recorded response repeats once the recorded ones run out.
+ */
+const REPEATABLE_PATHS = /^\/v2\/device\/\d+\/(jobs|activities)$/;
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+/** Status codes whose responses cannot carry a body. */
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/** Raised in replay mode for a request the cassette has no response for. */
+export class CassetteMissError extends Error {
+  constructor(readonly method: string, readonly path: string, cassettePath: string) {
+    super(`No recorded response for ${method} ${path} in cassette ${cassettePath}`);
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Replace every string, number and boolean under a personal-data field, and
+ * whole values under a secret field. A field is a key, or `parent.key` for a
+ * key only under that parent (array items belong to the array's key). Arrays
+ * and objects keep their shape so replayed responses still parse the same way.
+ */
+export function redact(value: unknown, fields: ReadonlySet<string>, key = '', personal = false, parent = ''): unknown {
+  if (key && SECRET_FIELD.test(key)) return REDACTED;
+  const name = key.toLowerCase();
+  const isPersonal = personal || fields.has(name) || (parent !== '' && fields.has(`${parent}.${name}`));
+  const owner = name || parent;
+  if (Array.isArray(value)) return value.map((item) => redact(item, fields, '', isPersonal, owner));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([entryKey, entry]) => [entryKey, redact(entry, fields, entryKey, isPersonal, owner)])
+    );
+  }
+  return isPersonal && value !== null && value !== undefined ? REDACTED : value;
+}
+
+function parseText(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** The request body as something JSON can hold: forms become objects. */
+function describeBody(body: RequestInit['body']): unknown {
+  if (body === undefined || body === null) return undefined;
+  if (typeof body === 'string') {
+    const parsed = parseText(body);
+    if (typeof parsed !== 'string') return parsed;
+    return Object.fromEntries(new URLSearchParams(body));
+  }
+  if (body instanceof URLSearchParams) return Object.fromEntries(body);
+  if (body instanceof FormData) {
+    const fields: Record<string, unknown> = {};
+    body.forEach((value, name) => {
+      fields[name] = typeof value === 'string' ? parseText(value) : `[file ${value.name}]`;
+    });
+    return fields;
+  }
+  return '[binary]';
+}
+
+/**
+ * Path and query string of a request. Values of personal and secret query
+ * parameters become `[redacted:<hash prefix>]`, so requests that differ only
+ * in a search term still replay their own responses. Recording and replay
+ * both key on it.
+ */
+function pathOf(url: string, fields: ReadonlySet<string>): string {
+  const parsed = new URL(url);
+  const query = [...parsed.searchParams].map(([name, value]) => {
+    const personal = PERSONAL_QUERY_PARAMETERS.has(name) || fields.has(name.toLowerCase()) || SECRET_FIELD.test(name);
+    const hash = personal && createHash('sha256').update(value).digest('hex').slice(0, QUERY_HASH_LENGTH);
+    return `${encodeURIComponent(name)}=${hash ? `[redacted:${hash}]` : encodeURIComponent(value)}`;
+  });
+  return query.length > 0 ? `${parsed.pathname}?${query.join('&')}` : parsed.pathname;
+}
+
+export class Cassette {
+  private writes: Promise<void> = Promise.resolve();
+  private started = false;
+  private replayQueues: Promise<Map<string, CassetteInteraction[]>> | undefined;
+
+  constructor(private readonly options: CassetteOptions) {}
+
+  /**
+   * Read NINJA_CASSETTE (`record` or `replay`; unset or `off` disables it),
+   * NINJA_CASSETTE_PATH (required when enabled) and NINJA_CASSETTE_REDACT,
+   * extra comma-separated field names to redact besides DEFAULT_REDACT_FIELDS.
+   * With several instances each gets its own file: `session.jsonl` becomes
+   * `session.eu.jsonl` for instance "eu".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env, instance?: string): Cassette | undefined {
+    const mode = (env.NINJA_CASSETTE ?? '').trim().toLowerCase();
+    if (!mode || mode === 'off') return undefined;
+    if (mode !== 'record' && mode !== 'replay') {
+      throw new Error(`NINJA_CASSETTE must be record, replay or off, got "${env.NINJA_CASSETTE}"`);
+    }
+    const path = env.NINJA_CASSETTE_PATH?.trim();
+    if (!path) throw new Error(`NINJA_CASSETTE=${mode} requires NINJA_CASSETTE_PATH`);
+    const extra = (env.NINJA_CASSETTE_REDACT ?? '').split(',').map((field) => field.trim()).filter(Boolean);
+    return new Cassette({
+      mode,
+      path: instanceFilePath(path, instance),
+      redactFields: new Set([...DEFAULT_REDACT_FIELDS, ...extra].map((field) => field.toLowerCase()))
+    });
+  }
+
+  get mode(): CassetteMode {
+    return this.options.mode;
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  describe(): string {
+    return `${this.options.mode} ${this.options.path}`;
+  }
+
+  /**
+   * Send a request through the cassette: recorded after `send` in record
+   * mode, answered from the cassette in replay mode.
+   */
+  async fetch(url: string, init: RequestInit, send: () => Promise<Response>): Promise<Response> {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const path = pathOf(url, this.options.redactFields);
+    if (this.options.mode === 'replay') return this.replay(method, path);
+
+    const response = await send();
+    const text = await response.clone().text();
+    const requestBody = describeBody(init.body);
+    const body = parseText(text);
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers.get(name);
+      if (value !== null) headers[name] = value;
+    }
+    await this.record({
+      method,
+      path,
+      ...(requestBody !== undefined ? { requestBody: redact(requestBody, this.options.redactFields) } : {}),
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      ...(body !== undefined ? { body: redact(body, this.options.redactFields) } : {}),
+      recordedAt: new Date().toISOString()
+    });
+    return response;
+  }
+
+  /**
+   * Append an interaction; the first one of the process truncates the file.
+   * Writes are serialized and a failed write is logged, never thrown.
+   */
+  private record(interaction: CassetteInteraction): Promise<void> {
+    const line = `${JSON.stringify(interaction)}\n`;
+    const first = !this.started;
+    this.started = true;
+    this.writes = this.writes
+      .then(() => (first ? writeFile : appendFile)(this.options.path, line, { mode: 0o600 }))
+      .catch((error) => {
+        console.error(`Failed to write cassette ${this.options.path}:`, error instanceof Error ? error.message : String(error));
+      });
+    return this.writes;
+  }
+
+  /**
+   * Responses for one method and path replay in recorded order. Once they
+   * run out, job polling endpoints repeat the last one for extra polls of a
+   * finished job; any other request is a miss.
+   */
+  private async replay(method: string, path: string): Promise<Response> {
+    const queues = await (this.replayQueues ??= this.load());
+    const queue = queues.get(`${method} ${path}`);
+    const repeatable = method === 'GET' && REPEATABLE_PATHS.test(path.split('?')[0] ?? path);
+    const interaction = queue && (queue.length > 1 || !repeatable ? queue.shift() : queue[0]);
+    if (!interaction) throw new CassetteMissError(method, path, this.options.path);
+
+    const body = interaction.body === undefined || NULL_BODY_STATUSES.has(interaction.status)
+      ? null
+      : typeof interaction.body === 'string' ? interaction.body : JSON.stringify(interaction.body);
+    return new Response(body, {
+      status: interaction.status,
+      statusText: interaction.statusText,
+      headers: interaction.headers
+    });
+  }
+
+  private async load(): Promise<Map<string, CassetteInteraction[]>> {
+    const queues = new Map<string, CassetteInteraction[]>();
+    const lines = (await readFile(this.options.path, 'utf8')).split('\n').filter(Boolean);
+    lines.forEach((line, index) => {
+      let interaction: CassetteInteraction;
+      try {
+        interaction = JSON.parse(line);
+      } catch {
+        throw new Error(`Cassette ${this.options.path} line ${index + 1} is not valid JSON`);
+      }
+      const key = `${interaction.method} ${interaction.path}`;
+      const queue = queues.get(key);
+      if (queue) queue.push(interaction);
+      else queues.set(key, [interaction]);
+    });
+    return queues;
+  }
+}
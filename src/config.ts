@@ -0,0 +1,466 @@
+/**
+ * Structured configuration file.
+ * A YAML or JSON file (`--config` or NINJA_CONFIG) groups the settings that
+ * are otherwise NINJA_*, MCP_* and friends into sections, with named
+ * profiles layered over the base settings. String values may reference
+ * environment variables as `${NAME}` or `${NAME:-default}`, and every secret
+ * can be read from a file instead (`clientSecretFile`, e.g. a Docker
+ * secret). The file only fills in environment variables that are not set,
+ * so the environment keeps overriding it and every module keeps reading
+ * its own variables.
+ */
+
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { dump, load } from 'js-yaml';
+import { parseInstancesFile } from './instances.js';
+import type { InstancesFile } from './instances.js';
+
+type SettingType = 'string' | 'number' | 'boolean' | 'list' | 'map';
+
+interface SettingDefinition {
+  /** The environment variable this setting stands for. */
+  env: string;
+  type: SettingType;
+  values?: readonly string[];
+  /** Redacted by --print-config; may be read from a file with `<name>File`. */
+  secret?: boolean;
+}
+
+const setting = (env: string, type: SettingType = 'string', extra: Partial<SettingDefinition> = {}): SettingDefinition =>
+  ({ env, type, ...extra });
+
+/** Every file setting by section, and the environment variable it sets. */
+export const CONFIG_SETTINGS: Record<string, Record<string, SettingDefinition>> = {
+  server: {
+    mode: setting('MCP_MODE', 'string', { values: ['stdio', 'http', 'sse'] }),
+    httpPort: setting('HTTP_PORT', 'number'),
+    ssePort: setting('SSE_PORT', 'number'),
+    authToken: setting('MCP_AUTH_TOKEN', 'string', { secret: true }),
+    apiKeysFile: setting('MCP_API_KEYS_FILE'),
+    corsOrigin: setting('CORS_ORIGIN')
+  },
+  ninja: {
+    clientId: setting('NINJA_CLIENT_ID', 'string', { secret: true }),
+    clientSecret: setting('NINJA_CLIENT_SECRET', 'string', { secret: true }),
+    baseUrl: setting('NINJA_BASE_URL'),
+    region: setting('NINJA_REGION', 'string', { values: ['us', 'us2', 'eu', 'ca', 'oc'] }),
+    baseUrls: setting('NINJA_BASE_URLS', 'list'),
+    allowLocalBaseUrl: setting('NINJA_ALLOW_LOCAL_BASE_URL', 'boolean'),
+    requestTimeoutMs: setting('NINJA_REQUEST_TIMEOUT_MS', 'number'),
+    instancesFile: setting('NINJA_INSTANCES_FILE'),
+    tokenCache: setting('NINJA_TOKEN_CACHE'),
+    tokenCacheKey: setting('NINJA_TOKEN_CACHE_KEY', 'string', { secret: true })
+  },
+  retry: {
+    maxAttempts: setting('NINJA_RETRY_MAX_ATTEMPTS', 'number'),
+    baseDelayMs: setting('NINJA_RETRY_BASE_DELAY_MS', 'number'),
+    maxDelayMs: setting('NINJA_RETRY_MAX_DELAY_MS', 'number')
+  },
+  limits: {
+    maxConcurrentRequests: setting('NINJA_MAX_CONCURRENT_REQUESTS', 'number'),
+    requestsPerMinute: setting('NINJA_REQUESTS_PER_MINUTE', 'number'),
+    requestBurst: setting('NINJA_REQUEST_BURST', 'number')
+  },
+  cache: {
+    enabled: setting('NINJA_CACHE', 'boolean'),
+    ttl: setting('NINJA_CACHE_TTL', 'map'),
+    maxEntries: setting('NINJA_CACHE_MAX_ENTRIES', 'number')
+  },
+  deviceIndex: {
+    enabled: setting('NINJA_DEVICE_INDEX', 'boolean'),
+    refreshSeconds: setting('NINJA_DEVICE_INDEX_REFRESH_SECONDS', 'number'),
+    file: setting('NINJA_DEVICE_INDEX_FILE')
+  },
+  audit: {
+    log: setting('NINJA_AUDIT_LOG'),
+    maxBytes: setting('NINJA_AUDIT_LOG_MAX_BYTES', 'number'),
+    maxFiles: setting('NINJA_AUDIT_LOG_MAX_FILES', 'number')
+  },
+  tools: {
+    readOnly: setting('NINJA_READ_ONLY', 'boolean'),
+    allow: setting('NINJA_TOOLS_ALLOW', 'list'),
+    deny: setting('NINJA_TOOLS_DENY', 'list'),
+    confirmDestructive: setting('NINJA_CONFIRM_DESTRUCTIVE', 'string', { values: ['off', 'token', 'elicit'] }),
+    organizationScope: setting('NINJA_ORGANIZATION_SCOPE', 'list')
+  },
+  cassette: {
+    mode: setting('NINJA_CASSETTE', 'string', { values: ['off', 'record', 'replay'] }),
+    path: setting('NINJA_CASSETTE_PATH'),
+    redact: setting('NINJA_CASSETTE_REDACT', 'list')
+  }
+};
+
+/** Top-level keys besides the sections. */
+const TOP_LEVEL_KEYS = new Set(['profile', 'profiles', 'defaultInstance', 'instances']);
+
+/** Secret environment variables that can also be read from `<NAME>_FILE`. */
+const SECRET_ENV = Object.values(CONFIG_SETTINGS)
+  .flatMap((section) => Object.values(section))
+  .filter((definition) => definition.secret)
+  .map((definition) => definition.env);
+
+const REDACTED = '[redacted]';
+
+export interface CommandLineOptions {
+  configPath?: string;
+  profile?: string;
+  printConfig: boolean;
+}
+
+export interface LoadedConfig {
+  path: string;
+  profile?: string;
+  /** Environment variables set by the file, by name. */
+  env: Record<string, string>;
+  /** Inline instance profiles, used in place of NINJA_INSTANCES_FILE. */
+  instances?: InstancesFile;
+}
+
+/** Every problem found in a config file, reported together at startup. */
+export class ConfigError extends Error {
+  constructor(readonly source: string, readonly problems: string[]) {
+    super(`Invalid configuration in ${source}:\n${problems.map((problem) => `- ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * `--config <path>`, `--profile <name>` and `--print-config`. Unknown
+ * options are an error so a typo does not silently start the defaults.
+ */
+export function parseCommandLine(argv: string[] = process.argv.slice(2)): CommandLineOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      config: { type: 'string' },
+      profile: { type: 'string' },
+      'print-config': { type: 'boolean' }
+    },
+    strict: true,
+    allowPositionals: false
+  });
+  return {
+    ...(values.config ? { configPath: values.config } : {}),
+    ...(values.profile ? { profile: values.profile } : {}),
+    printConfig: values['print-config'] === true
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Replace `${NAME}` and `${NAME:-default}` in every string; `$${` is a
+ * literal `${`. Unset variables without a default are reported as problems.
+ */
+function interpolate(value: unknown, env: NodeJS.ProcessEnv, path: string, problems: string[]): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$\$\{|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (match, name: string | undefined, fallback: string | undefined) => {
+      if (!name) return '${';
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        problems.push(`${path}: references \${${name}}, which is not set`);
+        return '';
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) return value.map((item, index) => interpolate(item, env, `${path}[${index}]`, problems));
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, interpolate(entry, env, path ? `${path}.${key}` : key, problems)])
+    );
+  }
+  return value;
+}
+
+/** Profile values win; nested objects merge, anything else is replaced. */
+function merge(base: Record<string, unknown>, overlay: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    const current = result[key];
+    result[key] = isObject(current) && isObject(value) ? merge(current, value) : value;
+  }
+  return result;
+}
+
+function readSecretFile(file: unknown, path: string, problems: string[]): string | undefined {
+  if (typeof file !== 'string' || !file.trim()) {
+    problems.push(`${path}: expected a file path`);
+    return undefined;
+  }
+  try {
+    return readFileSync(file.trim(), 'utf8').trim();
+  } catch (error) {
+    problems.push(`${path}: cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    return undefined;
+  }
+}
+
+/** The environment variable value of one setting, or undefined after recording a problem. */
+function toEnvValue(value: unknown, definition: SettingDefinition, path: string, problems: string[]): string | undefined {
+  const scalar = (item: unknown) => typeof item === 'string' || typeof item === 'number';
+  switch (definition.type) {
+    case 'number':
+      if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return String(value);
+      problems.push(`${path}: expected a whole number, got ${JSON.stringify(value)}`);
+      return undefined;
+    case 'boolean':
+      if (typeof value === 'boolean') return String(value);
+      problems.push(`${path}: expected true or false, got ${JSON.stringify(value)}`);
+      return undefined;
+    case 'list':
+      if (Array.isArray(value) && value.every(scalar)) return value.join(',');
+      if (typeof value === 'string') return value;
+      problems.push(`${path}: expected a list, got ${JSON.stringify(value)}`);
+      return undefined;
+    case 'map':
+      if (isObject(value) && Object.values(value).every(scalar)) {
+        return Object.entries(value).map(([key, entry]) => `${key}=${entry}`).join(',');
+      }
+      problems.push(`${path}: expected a mapping of names to values, got ${JSON.stringify(value)}`);
+      return undefined;
+    case 'string': {
+      const text = typeof value === 'number' ? String(value) : value;
+      if (typeof text !== 'string' || !text.trim()) {
+        problems.push(`${path}: expected a non-empty string, got ${JSON.stringify(value)}`);
+        return undefined;
+      }
+      const normalized = definition.values ? text.trim().toLowerCase() : text.trim();
+      if (definition.values && !definition.values.includes(normalized)) {
+        problems.push(`${path}: must be one of ${definition.values.join(', ')}, got "${text}"`);
+        return undefined;
+      }
+      return normalized;
+    }
+  }
+}
+
+/** An environment value shown as the setting's type, for --print-config. */
+function fromEnvValue(value: string, definition: SettingDefinition): unknown {
+  const items = () => value.split(',').map((item) => item.trim()).filter(Boolean);
+  switch (definition.type) {
+    case 'number':
+      return Number.isFinite(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return ['true', 'false'].includes(value.trim().toLowerCase()) ? value.trim().toLowerCase() === 'true' : value;
+    case 'list':
+      return items();
+    case 'map':
+      return Object.fromEntries(items().map((item) => {
+        const [key = '', entry = ''] = item.split('=');
+        return [key.trim(), Number.isFinite(Number(entry)) && entry.trim() ? Number(entry) : entry.trim()];
+      }));
+    case 'string':
+      return value;
+  }
+}
+
+/**
+ * Resolve `clientSecretFile`-style keys of inline instances and check the
+ * instances the same way as an instances file.
+ */
+function resolveInstances(raw: unknown, defaultInstance: unknown, problems: string[]): InstancesFile | undefined {
+  if (!isObject(raw)) {
+    problems.push('instances: expected a mapping of instance names to profiles');
+    return undefined;
+  }
+  const instances: InstancesFile['instances'] = {};
+  for (const [name, profile] of Object.entries(raw)) {
+    if (!isObject(profile)) {
+      problems.push(`instances.${name}: expected a mapping`);
+      continue;
+    }
+    const resolved: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(profile)) {
+      if (key === 'clientIdFile' || key === 'clientSecretFile') {
+        const field = key.slice(0, -'File'.length);
+        if (profile[field] !== undefined) problems.push(`instances.${name}: set either ${field} or ${key}, not both`);
+        resolved[field] = readSecretFile(value, `instances.${name}.${key}`, problems);
+      } else if (['clientId', 'clientSecret', 'baseUrl', 'region', 'description'].includes(key)) {
+        resolved[key] = value;
+      } else {
+        problems.push(`instances.${name}.${key}: unknown setting`);
+      }
+    }
+    instances[name] = resolved as InstancesFile['instances'][string];
+  }
+  const file: InstancesFile = {
+    ...(typeof defaultInstance === 'string' ? { default: defaultInstance } : {}),
+    instances
+  };
+  if (defaultInstance !== undefined && typeof defaultInstance !== 'string') {
+    problems.push('defaultInstance: expected an instance name');
+  }
+  try {
+    parseInstancesFile(file, 'instances');
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+  }
+  return file;
+}
+
+/**
+ * Parse a config document: pick the profile, interpolate, read secret
+ * files and map every setting to its environment variable.
+ */
+export function parseConfig(
+  document: unknown,
+  source: string,
+  options: { profile?: string } = {},
+  env: NodeJS.ProcessEnv = process.env
+): LoadedConfig {
+  const problems: string[] = [];
+  if (!isObject(document)) throw new ConfigError(source, ['expected a mapping of settings at the top level']);
+
+  const { profiles, profile: fileProfile, ...base } = document;
+  const profile = options.profile ?? env.NINJA_PROFILE?.trim() ?? (typeof fileProfile === 'string' ? fileProfile : undefined);
+  let settings = base;
+  if (profiles !== undefined && !isObject(profiles)) {
+    problems.push('profiles: expected a mapping of profile names to settings');
+  }
+  if (profile) {
+    const overlay = isObject(profiles) ? profiles[profile] : undefined;
+    if (!isObject(overlay)) {
+      const known = isObject(profiles) ? Object.keys(profiles) : [];
+      throw new ConfigError(source, [`profile "${profile}" is not defined${known.length > 0 ? ` (profiles: ${known.join(', ')})` : ''}`]);
+    }
+    settings = merge(base, overlay);
+  }
+  settings = interpolate(settings, env, '', problems) as Record<string, unknown>;
+
+  const result: Record<string, string> = {};
+  let instances: InstancesFile | undefined;
+  for (const [sectionName, section] of Object.entries(settings)) {
+    if (sectionName === 'instances') {
+      instances = resolveInstances(section, settings.defaultInstance, problems);
+      continue;
+    }
+    if (TOP_LEVEL_KEYS.has(sectionName)) continue;
+    const definitions = CONFIG_SETTINGS[sectionName];
+    if (!definitions) {
+      problems.push(`${sectionName}: unknown section (expected ${[...Object.keys(CONFIG_SETTINGS), ...TOP_LEVEL_KEYS].join(', ')})`);
+      continue;
+    }
+    if (!isObject(section)) {
+      problems.push(`${sectionName}: expected a mapping of settings`);
+      continue;
+    }
+    for (const [key, value] of Object.entries(section)) {
+      const path = `${sectionName}.${key}`;
+      if (value === null || value === undefined) continue;
+      const fileOf = key.endsWith('File') ? definitions[key.slice(0, -'File'.length)] : undefined;
+      if (fileOf?.secret) {
+        if (section[key.slice(0, -'File'.length)] !== undefined) {
+          problems.push(`${sectionName}: set either ${key.slice(0, -'File'.length)} or ${key}, not both`);
+        }
+        const secret = readSecretFile(value, path, problems);
+        if (secret !== undefined) result[fileOf.env] = secret;
+        continue;
+      }
+      const definition = definitions[key];
+      if (!definition) {
+        problems.push(`${path}: unknown setting (expected ${Object.keys(definitions).join(', ')})`);
+        continue;
+      }
+      const envValue = toEnvValue(value, definition, path, problems);
+      if (envValue !== undefined) result[definition.env] = envValue;
+    }
+  }
+  if (settings.defaultInstance !== undefined && settings.instances === undefined) {
+    problems.push('defaultInstance: needs an instances section');
+  }
+
+  if (problems.length > 0) throw new ConfigError(source, problems);
+  return {
+    path: source,
+    ...(profile ? { profile } : {}),
+    env: result,
+    ...(instances ? { instances } : {})
+  };
+}
+
+/**
+ * Load the file named by `--config` or NINJA_CONFIG. Returns undefined when
+ * neither is set.
+ */
+export function loadConfig(options: CommandLineOptions, env: NodeJS.ProcessEnv = process.env): LoadedConfig | undefined {
+  const path = options.configPath ?? env.NINJA_CONFIG?.trim();
+  if (!path) {
+    if (options.profile) throw new ConfigError('command line', ['--profile needs a config file (--config or NINJA_CONFIG)']);
+    return undefined;
+  }
+  let document: unknown;
+  try {
+    // JSON is valid YAML, so one parser reads both.
+    document = load(readFileSync(path, 'utf8'), { filename: path });
+  } catch (error) {
+    throw new ConfigError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+  return parseConfig(document, path, options.profile ? { profile: options.profile } : {}, env);
+}
+
+/**
+ * Read `<NAME>_FILE` for secret variables that are not set directly, e.g.
+ * NINJA_CLIENT_SECRET_FILE=/run/secrets/ninja_client_secret.
+ */
+export function readSecretFiles(env: NodeJS.ProcessEnv = process.env): void {
+  const problems: string[] = [];
+  for (const name of SECRET_ENV) {
+    const file = env[`${name}_FILE`];
+    if (env[name] !== undefined || !file) continue;
+    const secret = readSecretFile(file, `${name}_FILE`, problems);
+    if (secret !== undefined) env[name] = secret;
+  }
+  if (problems.length > 0) throw new ConfigError('environment', problems);
+}
+
+/**
+ * Set the file's variables that the environment does not set already.
+ * Returns the names the environment overrides.
+ */
+export function applyConfig(config: LoadedConfig, env: NodeJS.ProcessEnv = process.env): string[] {
+  const overridden: string[] = [];
+  for (const [name, value] of Object.entries(config.env)) {
+    if (env[name] !== undefined) overridden.push(name);
+    else env[name] = value;
+  }
+  return overridden;
+}
+
+/**
+ * The effective settings as YAML, by section, with secrets redacted. Shows
+ * environment values whether or not they came from the config file.
+ */
+export function formatEffectiveConfig(config: LoadedConfig | undefined, env: NodeJS.ProcessEnv = process.env): string {
+  const sections: Record<string, Record<string, unknown>> = {};
+  const fromEnvironment: string[] = [];
+  for (const [sectionName, definitions] of Object.entries(CONFIG_SETTINGS)) {
+    for (const [key, definition] of Object.entries(definitions)) {
+      const value = env[definition.env];
+      if (value === undefined || value === '') continue;
+      (sections[sectionName] ??= {})[key] = definition.secret ? REDACTED : fromEnvValue(value, definition);
+      if (config?.env[definition.env] !== value) fromEnvironment.push(definition.env);
+    }
+  }
+  const instances = config?.instances && !env.NINJA_INSTANCES_FILE?.trim()
+    ? Object.fromEntries(Object.entries(config.instances.instances).map(([name, profile]) => [name, {
+      ...profile,
+      ...(profile.clientId ? { clientId: REDACTED } : {}),
+      ...(profile.clientSecret ? { clientSecret: REDACTED } : {})
+    }]))
+    : undefined;
+
+  const header = [
+    `# Config file: ${config?.path ?? '(none)'}`,
+    ...(config?.profile ? [`# Profile: ${config.profile}`] : []),
+    `# From the environment: ${fromEnvironment.length > 0 ? fromEnvironment.join(', ') : '(none)'}`
+  ];
+  const body = {
+    ...sections,
+    ...(instances ? { ...(config?.instances?.default ? { defaultInstance: config.instances.default } : {}), instances } : {})
+  };
+  return `${header.join('\n')}\n${dump(body, { lineWidth: 120, noRefs: true })}`;
+}
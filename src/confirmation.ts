@@ -0,0 +1,79 @@
+/**
+ * Two-phase confirmation for destructive tool calls.
+ * NINJA_CONFIRM_DESTRUCTIVE selects how a person approves the action before
+ * the mutating request is sent: `off` (default) runs it straight away,
+ * `token` answers the first call with a single-use token that must be sent
+ * back with identical arguments, and `elicit` asks through MCP elicitation,
+ * falling back to a token when the client does not support it.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+export const CONFIRMATION_MODES = ['off', 'token', 'elicit'] as const;
+export type ConfirmationMode = typeof CONFIRMATION_MODES[number];
+
+export function confirmationModeFromEnv(env: NodeJS.ProcessEnv = process.env): ConfirmationMode {
+  const raw = (env.NINJA_CONFIRM_DESTRUCTIVE ?? '').trim().toLowerCase();
+  if (!raw) return 'off';
+  if (!CONFIRMATION_MODES.includes(raw as ConfirmationMode)) {
+    throw new Error(`NINJA_CONFIRM_DESTRUCTIVE must be one of ${CONFIRMATION_MODES.join(', ')}, got "${raw}"`);
+  }
+  return raw as ConfirmationMode;
+}
+
+/** Arguments that steer the confirmation itself and do not change the action. */
+const CONTROL_ARGUMENTS = new Set(['dryRun', 'confirmationToken']);
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Digest of a tool call, so a token only confirms the exact call it was issued for.
+ */
+export function callFingerprint(name: string, args: Record<string, unknown>): string {
+  const action = Object.fromEntries(Object.entries(args).filter(([key]) => !CONTROL_ARGUMENTS.has(key)));
+  return createHash('sha256').update(`${name}\n${canonicalJson(action)}`).digest('hex');
+}
+
+/**
+ * Outstanding confirmation tokens of one session.
+ */
+export class ConfirmationTokens {
+  private static readonly TTL_MS = 5 * 60_000;
+  private readonly pending = new Map<string, { fingerprint: string; expiresAt: number }>();
+
+  issue(fingerprint: string): { token: string; expiresAt: string } {
+    this.purgeExpired();
+    const token = randomBytes(16).toString('hex');
+    const expiresAt = Date.now() + ConfirmationTokens.TTL_MS;
+    this.pending.set(token, { fingerprint, expiresAt });
+    return { token, expiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /**
+   * True when the token was issued for this call and has not expired.
+   * A matching token is used up.
+   */
+  consume(token: string, fingerprint: string): boolean {
+    this.purgeExpired();
+    const entry = this.pending.get(token);
+    if (!entry || entry.fingerprint !== fingerprint) return false;
+    this.pending.delete(token);
+    return true;
+  }
+
+  private purgeExpired() {
+    const now = Date.now();
+    for (const [token, entry] of this.pending) {
+      if (entry.expiresAt <= now) this.pending.delete(token);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Per-call context for tool execution.
+ * One NinjaOneAPI instance serves every session, so the cancellation signal
+ * and progress reporter of the MCP request being handled travel with the
+ * async call chain (AsyncLocalStorage) rather than through every API method.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { RequestCancelledError } from './errors.js';
+import type { AccessIdentity } from './access-control.js';
+
+export interface CallContext {
+  /** Aborted when the client cancels the tool call or the session closes. */
+  signal?: AbortSignal;
+  /** Present only when the client sent `_meta.progressToken`. */
+  reportProgress?: (progress: number, total?: number, message?: string) => Promise<void>;
+  /** API key identity of the HTTP session; absent on STDIO and with no key configured. */
+  identity?: AccessIdentity;
+  /** MCP session ID; absent on STDIO. */
+  sessionId?: string;
+  /** The tool call being handled, for the audit log. */
+  tool?: { name: string; arguments: Record<string, unknown> };
+  /** Set by the `noCache` tool argument: skip cached responses and refresh them. */
+  noCache?: boolean;
+  /** Instance profile named by the `instance` tool argument; the default instance when absent. */
+  instance?: string;
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+export function runWithCallContext<T>(context: CallContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+/**
+ * Run background work outside the current tool call, so it is neither
+ * cancelled with the call nor queued and reported as part of it.
+ */
+export function runOutsideCallContext<T>(fn: () => T): T {
+  return storage.exit(fn);
+}
+
+export function currentContext(): CallContext | undefined {
+  return storage.getStore();
+}
+
+export function currentSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+export function isCancelled(): boolean {
+  return currentSignal()?.aborted === true;
+}
+
+export function throwIfCancelled(): void {
+  if (isCancelled()) throw new RequestCancelledError();
+}
+
+/**
+ * Send a progress notification for the current call, if the client asked for
+ * them. Progress is best-effort: a failed notification never fails the tool.
+ */
+export async function reportProgress(progress: number, total?: number, message?: string): Promise<void> {
+  const report = storage.getStore()?.reportProgress;
+  if (!report) return;
+  try {
+    await report(progress, total, message);
+  } catch (error) {
+    console.error('Failed to send progress notification:', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Wait for `ms`, cut short with RequestCancelledError if the current call is cancelled.
+ */
+export function delay(ms: number): Promise<void> {
+  const signal = currentSignal();
+  if (signal?.aborted) return Promise.reject(new RequestCancelledError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,401 @@
+/**
+ * In-memory device index for name searches and attribute lookups.
+ * The index is built from /v2/devices-detailed (names, IP and MAC
+ * addresses), the computer-systems query (serial numbers) and the
+ * logged-on-users query (user names), then rebuilt in the background so a
+ * search never pages the whole fleet. NINJA_DEVICE_INDEX_FILE keeps a copy
+ * on disk so a restarted server can answer before its first rebuild.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import type { NinjaOneAPI } from './ninja-api.js';
+import type { OrganizationScope } from './org-scope.js';
+import { collectPages } from './pagination.js';
+import { runOutsideCallContext } from './context.js';
+import { instanceFilePath } from './instances.js';
+import type { QueryRecord } from './types/models.js';
+
+export interface DeviceIndexEntry {
+  id: number;
+  systemName: string | null;
+  displayName: string | null;
+  dnsName: string | null;
+  netbiosName: string | null;
+  organizationId: number | null;
+  locationId: number | null;
+  nodeClass: string | null;
+  offline: boolean | null;
+  lastContact: number | null;
+  ipAddresses: string[];
+  macAddresses: string[];
+  serialNumbers: string[];
+  users: string[];
+}
+
+export interface DeviceSearchCriteria {
+  /** Any attribute: names, IP and MAC addresses, serial numbers and users. */
+  query?: string;
+  /** System, display, DNS or NetBIOS name; matched fuzzily. */
+  name?: string;
+  ip?: string;
+  mac?: string;
+  serial?: string;
+  user?: string;
+  organizationId?: number;
+}
+
+export interface DeviceMatch {
+  device: DeviceIndexEntry;
+  /** 0-100; the mean over every criterion given. */
+  score: number;
+  /** Attribute that matched each criterion, e.g. `{ ip: "ipAddresses" }`. */
+  matchedOn: Record<string, string>;
+}
+
+export interface DeviceIndexStatus {
+  ready: boolean;
+  building: boolean;
+  devices: number;
+  builtAt: string | null;
+  lastError: string | null;
+}
+
+export interface DeviceIndexOptions {
+  refreshSeconds: number;
+  path?: string;
+}
+
+interface Snapshot {
+  version: 1;
+  baseUrl: string | null;
+  builtAt: number;
+  devices: DeviceIndexEntry[];
+}
+
+const SNAPSHOT_VERSION = 1;
+const NAME_ATTRIBUTES = ['systemName', 'displayName', 'dnsName', 'netbiosName'] as const;
+
+function normalizeMac(value: string): string {
+  return value.toLowerCase().replace(/[^0-9a-f]/g, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+/**
+ * Fuzzy score of a text value: exact 100, prefix 90, word prefix 85,
+ * substring 80, then typo-tolerant similarity against the whole value or
+ * one of its words, then characters in order.
+ */
+function textScore(query: string, value: string | null | undefined): number {
+  if (!value) return 0;
+  const q = query.trim().toLowerCase();
+  const v = value.toLowerCase();
+  if (!q) return 0;
+  if (v === q) return 100;
+  if (v.startsWith(q)) return 90;
+  const words = v.split(/[^a-z0-9]+/).filter(Boolean);
+  if (words.some((word) => word.startsWith(q))) return 85;
+  if (v.includes(q)) return 80;
+  if (q.length < 3) return 0;
+
+  const similarity = Math.max(
+    ...[v, ...words].map((candidate) => 1 - levenshtein(q, candidate) / Math.max(q.length, candidate.length))
+  );
+  if (similarity >= 0.7) return Math.round(75 * similarity);
+
+  let position = 0;
+  for (const char of v) {
+    if (char === q[position]) position++;
+    if (position === q.length) return 40;
+  }
+  return 0;
+}
+
+/** Exact 100; a query ending in "." or ":" is a prefix, e.g. "10.0.4." for a subnet (80). */
+function addressScore(query: string, values: string[]): number {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  if (values.some((value) => value.toLowerCase() === q)) return 100;
+  const prefix = q.endsWith('.') || q.endsWith(':');
+  return prefix && values.some((value) => value.toLowerCase().startsWith(q)) ? 80 : 0;
+}
+
+function macScore(query: string, values: string[]): number {
+  const q = normalizeMac(query);
+  if (q.length < 4) return 0;
+  if (values.includes(q)) return 100;
+  return values.some((value) => value.startsWith(q)) ? 80 : 0;
+}
+
+function serialScore(query: string, values: string[]): number {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  if (values.some((value) => value.toLowerCase() === q)) return 100;
+  return values.some((value) => value.toLowerCase().includes(q)) ? 70 : 0;
+}
+
+/** Users match as written, or by the account part of DOMAIN\user or user@domain. */
+function userScore(query: string, values: string[]): number {
+  let best = 0;
+  for (const value of values) {
+    const account = value.split('\\').pop()!.split('@')[0]!;
+    best = Math.max(best, textScore(query, value), textScore(query, account) - (account === value ? 0 : 5));
+  }
+  return best;
+}
+
+type Scorer = (query: string, device: DeviceIndexEntry) => { score: number; attribute: string };
+
+function bestOf(candidates: [string, number][]): { score: number; attribute: string } {
+  return candidates.reduce(
+    (best, [attribute, score]) => (score > best.score ? { score, attribute } : best),
+    { score: 0, attribute: '' }
+  );
+}
+
+const nameScorer: Scorer = (query, device) =>
+  bestOf(NAME_ATTRIBUTES.map((attribute) => [attribute, textScore(query, device[attribute])]));
+
+const SCORERS: Record<Exclude<keyof DeviceSearchCriteria, 'organizationId'>, Scorer> = {
+  name: nameScorer,
+  ip: (query, device) => ({ score: addressScore(query, device.ipAddresses), attribute: 'ipAddresses' }),
+  mac: (query, device) => ({ score: macScore(query, device.macAddresses), attribute: 'macAddresses' }),
+  serial: (query, device) => ({ score: serialScore(query, device.serialNumbers), attribute: 'serialNumbers' }),
+  user: (query, device) => ({ score: userScore(query, device.users), attribute: 'users' }),
+  query: (query, device) => {
+    const name = nameScorer(query, device);
+    return bestOf([
+      [name.attribute, name.score],
+      ['ipAddresses', addressScore(query, device.ipAddresses) === 100 ? 100 : 0],
+      ['macAddresses', macScore(query, device.macAddresses) === 100 ? 100 : 0],
+      ['serialNumbers', serialScore(query, device.serialNumbers) === 100 ? 100 : 0],
+      ['users', userScore(query, device.users) * 0.9]
+    ]);
+  }
+};
+
+export class DeviceIndex {
+  private devices: DeviceIndexEntry[] = [];
+  private builtAt: number | null = null;
+  private baseUrl: string | null = null;
+  private building: Promise<void> | undefined;
+  private lastError: string | null = null;
+  private timer: NodeJS.Timeout | undefined;
+
+  /**
+   * `scope` is the deployment organization scope; devices outside it are
+   * never fetched. Session scopes are applied to search results by the caller.
+   */
+  constructor(
+    private readonly api: NinjaOneAPI,
+    private readonly options: DeviceIndexOptions,
+    private readonly scope?: OrganizationScope
+  ) {}
+
+  /**
+   * Read NINJA_DEVICE_INDEX (`off` disables the index),
+   * NINJA_DEVICE_INDEX_REFRESH_SECONDS (default 900, minimum 60) and
+   * NINJA_DEVICE_INDEX_FILE, which gets the instance name inserted when
+   * several instances are configured. Returns undefined when disabled.
+   */
+  static fromEnv(
+    api: NinjaOneAPI,
+    scope?: OrganizationScope,
+    env: NodeJS.ProcessEnv = process.env,
+    instance?: string
+  ): DeviceIndex | undefined {
+    const enabled = (env.NINJA_DEVICE_INDEX ?? '').trim().toLowerCase();
+    if (['off', 'false', '0', 'no'].includes(enabled)) return undefined;
+    const refreshSeconds = parseInt(env.NINJA_DEVICE_INDEX_REFRESH_SECONDS || '', 10);
+    const path = env.NINJA_DEVICE_INDEX_FILE?.trim();
+    return new DeviceIndex(api, {
+      refreshSeconds: Number.isFinite(refreshSeconds) && refreshSeconds >= 60 ? refreshSeconds : 900,
+      ...(path ? { path: instanceFilePath(path, instance) } : {})
+    }, scope);
+  }
+
+  /**
+   * Load the snapshot file, if any. The first build starts with the first
+   * search, so an idle server makes no requests.
+   */
+  async load(): Promise<void> {
+    const path = this.options.path;
+    if (!path) return;
+    try {
+      const snapshot: Snapshot = JSON.parse(await readFile(path, 'utf8'));
+      if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.devices)) return;
+      this.devices = snapshot.devices;
+      this.builtAt = snapshot.builtAt;
+      this.baseUrl = snapshot.baseUrl;
+      console.error(`Loaded device index of ${this.devices.length} devices from ${path}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Ignoring device index file ${path}:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  /** True when the index holds devices of the region the API client talks to. */
+  get ready(): boolean {
+    return this.builtAt !== null && this.baseUrl === this.api.getBaseUrl();
+  }
+
+  get size(): number {
+    return this.devices.length;
+  }
+
+  status(): DeviceIndexStatus {
+    return {
+      ready: this.ready,
+      building: this.building !== undefined,
+      devices: this.devices.length,
+      builtAt: this.builtAt !== null ? new Date(this.builtAt).toISOString() : null,
+      lastError: this.lastError
+    };
+  }
+
+  /**
+   * Rebuild now, or join the rebuild already running. Failures keep the
+   * previous index and are reported by status().
+   */
+  refresh(): Promise<void> {
+    this.building ??= runOutsideCallContext(() => this.rebuild()).finally(() => {
+      this.building = undefined;
+    });
+    return this.building;
+  }
+
+  /**
+   * Start a rebuild when the index is missing, stale or from another
+   * region, and keep it fresh from then on. Does not wait for the rebuild.
+   */
+  ensureFresh(): void {
+    const stale = this.builtAt === null || Date.now() - this.builtAt > this.options.refreshSeconds * 1000;
+    if (!this.ready || stale) void this.refresh();
+    this.timer ??= setInterval(() => void this.refresh(), this.options.refreshSeconds * 1000).unref();
+  }
+
+  /**
+   * Devices matching every given criterion, best first. `include` narrows
+   * the candidates, e.g. to a session's organization scope.
+   */
+  search(criteria: DeviceSearchCriteria, include: (device: DeviceIndexEntry) => boolean = () => true): DeviceMatch[] {
+    const active = (Object.keys(SCORERS) as (keyof typeof SCORERS)[])
+      .filter((key) => typeof criteria[key] === 'string' && criteria[key]!.trim() !== '');
+    const matches: DeviceMatch[] = [];
+
+    for (const device of this.devices) {
+      if (criteria.organizationId !== undefined && device.organizationId !== criteria.organizationId) continue;
+      if (!include(device)) continue;
+      const matchedOn: Record<string, string> = {};
+      let total = 0;
+      let matched = true;
+      for (const key of active) {
+        const { score, attribute } = SCORERS[key](criteria[key]!, device);
+        if (score <= 0) {
+          matched = false;
+          break;
+        }
+        total += score;
+        matchedOn[key] = attribute;
+      }
+      if (matched) {
+        matches.push({ device, score: active.length > 0 ? Math.round(total / active.length) : 100, matchedOn });
+      }
+    }
+
+    return matches.sort((a, b) =>
+      b.score - a.score
+      || Number(a.device.offline === true) - Number(b.device.offline === true)
+      || (a.device.systemName ?? '').localeCompare(b.device.systemName ?? '')
+    );
+  }
+
+  private async rebuild(): Promise<void> {
+    const started = Date.now();
+    const baseUrl = this.api.getBaseUrl();
+    try {
+      const df = this.scope?.restrictFilter();
+      const { results } = await collectPages(this.api.iterateDevicesDetailed(df));
+      const serials = await this.collectByDevice('/v2/queries/computer-systems', df, (record) =>
+        [record.serialNumber, record.biosSerialNumber]);
+      const users = await this.collectByDevice('/v2/queries/logged-on-users', df, (record) => [record.userName]);
+
+      this.devices = results
+        .filter((device) => device.id !== undefined)
+        .map((device) => ({
+          id: device.id!,
+          systemName: device.systemName ?? null,
+          displayName: device.displayName ?? null,
+          dnsName: device.dnsName ?? null,
+          netbiosName: device.netbiosName ?? null,
+          organizationId: device.organizationId ?? null,
+          locationId: device.locationId ?? null,
+          nodeClass: device.nodeClass ?? null,
+          offline: device.offline ?? null,
+          lastContact: device.lastContact ?? null,
+          ipAddresses: [...new Set([...(device.ipAddresses ?? []), ...(device.publicIP ? [device.publicIP] : [])])],
+          macAddresses: [...new Set((device.macAddresses ?? []).map(normalizeMac).filter(Boolean))],
+          serialNumbers: serials.get(device.id!) ?? [],
+          users: users.get(device.id!) ?? []
+        }));
+      this.builtAt = Date.now();
+      this.baseUrl = baseUrl;
+      this.lastError = null;
+      console.error(`Device index rebuilt: ${this.devices.length} devices in ${Date.now() - started}ms`);
+      await this.save();
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      console.error('Device index rebuild failed:', this.lastError);
+    }
+  }
+
+  /**
+   * Values of a query report grouped by device. A report the API client may
+   * not read leaves those lookups empty rather than failing the rebuild.
+   */
+  private async collectByDevice<P extends '/v2/queries/computer-systems' | '/v2/queries/logged-on-users'>(
+    path: P,
+    df: string | undefined,
+    valuesOf: (record: QueryRecord<P>) => (string | undefined)[]
+  ): Promise<Map<number, string[]>> {
+    const byDevice = new Map<number, string[]>();
+    try {
+      const { results } = await collectPages(this.api.iterateQuery(path, df));
+      for (const record of results) {
+        const deviceId = (record as { deviceId?: number }).deviceId;
+        if (deviceId === undefined) continue;
+        const values = valuesOf(record).filter((value): value is string => !!value?.trim());
+        byDevice.set(deviceId, [...new Set([...(byDevice.get(deviceId) ?? []), ...values])]);
+      }
+    } catch (error) {
+      console.error(`Device index: ${path} unavailable:`, error instanceof Error ? error.message : String(error));
+    }
+    return byDevice;
+  }
+
+  private async save(): Promise<void> {
+    const path = this.options.path;
+    if (!path || this.builtAt === null) return;
+    const snapshot: Snapshot = { version: SNAPSHOT_VERSION, baseUrl: this.baseUrl, builtAt: this.builtAt, devices: this.devices };
+    try {
+      await writeFile(path, JSON.stringify(snapshot), { mode: 0o600 });
+    } catch (error) {
+      console.error(`Failed to write device index file ${path}:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
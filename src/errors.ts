@@ -0,0 +1,197 @@
+/**
+ * NinjaOne API error taxonomy.
+ * Every failed request surfaces as a subclass of NinjaOneError carrying the
+ * HTTP status, endpoint and NinjaOne's error body, so callers can branch on
+ * the class instead of string-matching error messages. toMcpError maps them
+ * onto the McpError codes that tool and resource handlers return.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/** Longest NinjaOne error text passed through to the MCP client. */
+const MAX_UPSTREAM_MESSAGE_LENGTH = 500;
+
+export interface NinjaOneErrorDetails {
+  method: string;
+  endpoint: string;
+  attempts: number;
+  status?: number;
+  statusText?: string;
+  /** Parsed NinjaOne error body (JSON when possible, raw text otherwise). */
+  body?: unknown;
+}
+
+export class NinjaOneError extends Error {
+  readonly method: string;
+  readonly endpoint: string;
+  readonly attempts: number;
+  readonly status: number | undefined;
+  readonly statusText: string | undefined;
+  readonly body: unknown;
+
+  constructor(message: string, details: NinjaOneErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.method = details.method;
+    this.endpoint = details.endpoint;
+    this.attempts = details.attempts;
+    this.status = details.status;
+    this.statusText = details.statusText;
+    this.body = details.body;
+  }
+
+  /** Short, log-safe description of the final failure (no response body). */
+  get summary(): string {
+    if (this.status === undefined) return this.message;
+    return `${this.status} ${this.statusText ?? ''}`.trim();
+  }
+
+  /**
+   * The human-readable message NinjaOne returned, if any.
+   * NinjaOne typically responds with { resultCode, errorMessage, incidentId }.
+   */
+  get upstreamMessage(): string | undefined {
+    const body = this.body;
+    if (typeof body === 'string') return body.trim() || undefined;
+    if (body && typeof body === 'object') {
+      const record = body as Record<string, unknown>;
+      for (const key of ['errorMessage', 'message', 'error', 'resultCode']) {
+        const value = record[key];
+        if (typeof value === 'string' && value.trim()) return value.trim();
+      }
+    }
+    return undefined;
+  }
+}
+
+/** 401/403: credentials rejected or the API client lacks the required scope. */
+export class NinjaOneAuthError extends NinjaOneError {}
+
+/** 404: the referenced device, organization, alert, etc. does not exist. */
+export class NinjaOneNotFoundError extends NinjaOneError {}
+
+/** 400/409/422: NinjaOne rejected the request parameters or body. */
+export class NinjaOneValidationError extends NinjaOneError {}
+
+/** 429: NinjaOne throttled the request and retries were exhausted. */
+export class NinjaOneRateLimitError extends NinjaOneError {
+  readonly retryAfterMs: number | undefined;
+
+  constructor(message: string, details: NinjaOneErrorDetails & { retryAfterMs?: number }) {
+    super(message, details);
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+/** 5xx, network failures and any other unexpected upstream response. */
+export class NinjaOneUpstreamError extends NinjaOneError {}
+
+/** The request did not complete within the client timeout. */
+export class NinjaOneTimeoutError extends NinjaOneError {}
+
+/**
+ * The MCP client cancelled the tool call. Not a NinjaOne failure, so it sits
+ * outside the NinjaOneError hierarchy and is never retried.
+ */
+export class RequestCancelledError extends Error {
+  constructor(message = 'Request cancelled by the client') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Parse a NinjaOne error response body, preferring JSON.
+ */
+export function parseErrorBody(text: string): unknown {
+  if (!text || text.trim().length === 0) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Build the matching NinjaOneError subclass for a non-2xx response.
+ */
+export function errorFromResponse(
+  details: NinjaOneErrorDetails & { status: number; retryAfterMs?: number },
+  rawBody: string
+): NinjaOneError {
+  const message = `API request failed: ${details.status} ${details.statusText ?? ''} - ${rawBody}`;
+  const full = { ...details, body: parseErrorBody(rawBody) };
+  switch (details.status) {
+    case 401:
+    case 403:
+      return new NinjaOneAuthError(message, full);
+    case 404:
+      return new NinjaOneNotFoundError(message, full);
+    case 400:
+    case 409:
+    case 422:
+      return new NinjaOneValidationError(message, full);
+    case 429:
+      return new NinjaOneRateLimitError(message, full);
+    default:
+      return new NinjaOneUpstreamError(message, full);
+  }
+}
+
+/**
+ * Translate a NinjaOne failure into an McpError the agent can act on.
+ * Messages describe what went wrong and what to try next; raw response
+ * bodies stay in the server logs except for NinjaOne's own validation text.
+ */
+export function toMcpError(error: NinjaOneError): McpError {
+  const data: Record<string, unknown> = {
+    type: error.name,
+    status: error.status ?? null,
+    endpoint: `${error.method} ${error.endpoint}`,
+    attempts: error.attempts
+  };
+  const upstream = error.upstreamMessage?.slice(0, MAX_UPSTREAM_MESSAGE_LENGTH);
+
+  if (error instanceof NinjaOneNotFoundError) {
+    return new McpError(
+      ErrorCode.InvalidParams,
+      `Not found: ${error.method} ${error.endpoint} returned 404. Check that the ID or UID is correct.`,
+      data
+    );
+  }
+  if (error instanceof NinjaOneValidationError) {
+    if (upstream) data.upstreamMessage = upstream;
+    return new McpError(
+      ErrorCode.InvalidParams,
+      `NinjaOne rejected the request (${error.summary})${upstream ? `: ${upstream}` : ''}. Adjust the arguments and try again.`,
+      data
+    );
+  }
+  if (error instanceof NinjaOneAuthError) {
+    const message = error.status === 403
+      ? 'NinjaOne denied access (403). The API client lacks the scope or role permission for this operation.'
+      : 'NinjaOne authentication failed. Check the server\'s NINJA_CLIENT_ID/NINJA_CLIENT_SECRET configuration.';
+    return new McpError(ErrorCode.InternalError, message, data);
+  }
+  if (error instanceof NinjaOneRateLimitError) {
+    if (error.retryAfterMs !== undefined) data.retryAfterMs = error.retryAfterMs;
+    const wait = error.retryAfterMs !== undefined ? ` Retry after ${Math.ceil(error.retryAfterMs / 1000)}s.` : ' Retry later.';
+    return new McpError(
+      ErrorCode.InternalError,
+      `NinjaOne rate limit reached after ${error.attempts} attempt(s).${wait}`,
+      data
+    );
+  }
+  if (error instanceof NinjaOneTimeoutError) {
+    return new McpError(
+      ErrorCode.RequestTimeout,
+      `NinjaOne did not respond in time after ${error.attempts} attempt(s). The service may be degraded; retry later or narrow the request.`,
+      data
+    );
+  }
+  return new McpError(
+    ErrorCode.InternalError,
+    `NinjaOne API unavailable (${error.summary}) after ${error.attempts} attempt(s). This is an upstream outage, not a problem with the arguments.`,
+    data
+  );
+}
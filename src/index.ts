@@ -8,8 +8,37 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { CallToolRequestSchema, ErrorCode, ListToolsRequestSchema, McpError } from '@modelcontextprotocol/sdk/types.js';
 import { NinjaOneAPI } from './ninja-api.js';
 import type { MaintenanceUnit, MaintenanceWindowSelection } from './ninja-api.js';
+import type { Alert, Device, DeviceDetails, DeviceJob, DeviceSearchMatch, NewTicket, QueryPath, TicketAttributeValue, UpdateTicket } from './types/models.js';
+import { collectPages } from './pagination.js';
+import { waitForDeviceJobs, waitForRunningJobs } from './jobs.js';
+import { ResourceHandler } from './resources.js';
+import { PromptHandler } from './prompts.js';
+import { ToolPolicy } from './tool-policy.js';
+import { ApiKeyStore } from './access-control.js';
+import type { AccessIdentity } from './access-control.js';
+import { InstanceScopes, OrganizationScope } from './org-scope.js';
+import { ConfirmationTokens, callFingerprint, confirmationModeFromEnv } from './confirmation.js';
+import type { ConfirmationMode } from './confirmation.js';
+import { AuditLog } from './audit-log.js';
+import { ResponseCache } from './response-cache.js';
+import { RequestLimiter } from './request-limiter.js';
+import { Cassette } from './cassette.js';
+import { TokenStore } from './token-store.js';
+import { InstanceRegistry } from './instances.js';
+import type { InstanceProfile, InstancesFile, NinjaInstance } from './instances.js';
+import { applyConfig, formatEffectiveConfig, loadConfig, parseCommandLine, readSecretFiles } from './config.js';
+import type { LoadedConfig } from './config.js';
+import { DeviceIndex } from './device-index.js';
+import type { DeviceSearchCriteria } from './device-index.js';
+import { canFanOut, toStructuredContent, toolAnnotations, toolOutputSchema } from './tool-metadata.js';
+import { validateArguments } from './validation.js';
+import type { InputSchema } from './validation.js';
 import { createHttpServer, createSseServer } from './transport/http.js';
+import { NinjaOneError, RequestCancelledError, toMcpError } from './errors.js';
+import { currentContext, currentSignal, reportProgress, runWithCallContext } from './context.js';
+import type { CallContext } from './context.js';
 import { config } from 'dotenv';
+import { pathToFileURL } from 'url';
 
 config();
 
@@ -20,10 +49,221 @@ const MAINTENANCE_UNIT_SECONDS: Record<MaintenanceUnit, number> = {
   WEEKS: 7 * 24 * 60 * 60
 };
 
+interface Windows11Device {
+  id: number;
+  systemName: Device['systemName'];
+  displayName: Device['displayName'];
+  offline: Device['offline'];
+  osName: string;
+  buildNumber: NonNullable<DeviceDetails['os']>['buildNumber'];
+  releaseId: NonNullable<DeviceDetails['os']>['releaseId'];
+  manufacturer: NonNullable<DeviceDetails['system']>['manufacturer'];
+  model: NonNullable<DeviceDetails['system']>['model'];
+}
+
+/**
+ * Shared schema properties for tools that can follow the pagination cursor
+ * and return every page in a single call.
+ */
+const ALL_PAGES_PROPERTIES = {
+  all: { type: 'boolean', description: 'Follow the pagination cursor and return every page in one response' },
+  maxRecords: { type: 'number', description: 'Maximum records to return when paging (default: 10000, max: 100000). Implies all.' }
+};
+
+/**
+ * Shared schema property for tools whose NinjaONE responses are cached.
+ */
+const CACHE_PROPERTIES = {
+  noCache: { type: 'boolean', description: 'Bypass the response cache and fetch fresh data from NinjaONE' }
+};
+
+/**
+ * Shared schema properties for the device index searches.
+ */
+const DEVICE_SEARCH_PROPERTIES = {
+  source: {
+    type: 'string',
+    enum: ['auto', 'index', 'api'],
+    description: 'auto (default): the local device index, or NinjaONE device search while the index is being built; index: wait for the index; api: NinjaONE device search (name-style text only)'
+  },
+  rebuildIndex: { type: 'boolean', description: 'Rebuild the device index before searching' },
+  ...CACHE_PROPERTIES
+};
+
+/**
+ * Shared schema property for every tool: the NinjaONE instance to call.
+ */
+const INSTANCE_PROPERTIES = {
+  instance: { type: 'string', description: 'NinjaONE instance profile to call (see list_instances); defaults to the default instance' }
+};
+
+/**
+ * Shared schema property for read-only list tools that can query every instance in one call.
+ */
+const FAN_OUT_PROPERTIES = {
+  allInstances: { type: 'boolean', description: 'Run on every configured instance and merge the results; each record gains an `instance` field' }
+};
+
+/**
+ * Shared schema properties for action tools that start a device job and can
+ * block until it finishes.
+ */
+const WAIT_FOR_JOB_PROPERTIES = {
+  waitForJob: { type: 'boolean', description: 'Wait for the job this action starts to finish and return its final status and output' },
+  waitTimeoutSeconds: { type: 'number', description: 'Maximum seconds to wait when waitForJob is set (default: 120, max: 900)' }
+};
+
+/**
+ * Action tools that start a job on the target device (args.id).
+ */
+const JOB_ACTION_TOOLS = new Set([
+  'reboot_device',
+  'control_windows_service',
+  'configure_windows_service',
+  'run_device_script',
+  'scan_device_os_patches',
+  'apply_device_os_patches',
+  'scan_device_software_patches',
+  'apply_device_software_patches'
+]);
+
+/**
+ * Destructive tools, with the argument values that make a call destructive.
+ * These tools accept `dryRun`; destructive calls also go through the
+ * confirmation step when NINJA_CONFIRM_DESTRUCTIVE is set.
+ */
+const DESTRUCTIVE_TOOLS: Record<string, (args: any) => boolean> = {
+  reboot_device: (args) => args.mode === 'FORCED',
+  apply_device_os_patches: () => true,
+  apply_device_software_patches: () => true,
+  delete_end_user: () => true,
+  delete_contact: () => true,
+  approve_devices: (args) => args.mode === 'REJECT'
+};
+
+const DESTRUCTIVE_ACTION_PROPERTIES = {
+  dryRun: { type: 'boolean', description: 'Describe the target and what would happen without changing anything' },
+  confirmationToken: { type: 'string', description: 'Token from a previous call that required confirmation; send it with identical arguments once the user has approved' }
+};
+
+/**
+ * Tools whose `id` argument is a device ID. Under an organization scope the
+ * device is looked up and its organization checked before the call.
+ */
+const DEVICE_ID_TOOLS = new Set([
+  'get_device',
+  'get_device_warranty',
+  'get_device_dashboard_url',
+  'get_device_software',
+  'reboot_device',
+  'set_device_maintenance',
+  'get_device_alerts',
+  'get_device_activities',
+  'control_windows_service',
+  'configure_windows_service',
+  'get_device_scripting_options',
+  'run_device_script',
+  'get_device_jobs',
+  'wait_for_job',
+  'scan_device_os_patches',
+  'apply_device_os_patches',
+  'scan_device_software_patches',
+  'apply_device_software_patches',
+  'get_device_custom_fields',
+  'update_device_custom_fields',
+  'get_device_policy_overrides',
+  'reset_device_policy_overrides'
+]);
+
+/**
+ * Tools whose `id` argument is an organization ID rather than a device ID.
+ */
+const ORGANIZATION_ID_TOOLS = new Set([
+  'get_organization',
+  'get_organization_locations',
+  'get_organization_policies',
+  'update_organization',
+  'get_organization_custom_fields',
+  'update_organization_custom_fields'
+]);
+
+/**
+ * Tools that reach across organizations and cannot be narrowed to a scope.
+ * Sessions with an organization scope do not see them.
+ */
+const UNSCOPED_TOOLS = new Set([
+  'create_organization',
+  'get_activities',
+  'get_technicians',
+  'get_technician',
+  'add_role_members',
+  'remove_role_members',
+  'get_policies',
+  'get_groups',
+  'get_group_device_ids',
+  'get_scheduled_tasks',
+  'get_board_tickets',
+  'set_region',
+  'get_audit_log'
+]);
+
+/**
+ * /v2/queries/* endpoint behind each query tool, used when paging with `all`.
+ */
+const QUERY_TOOL_PATHS: Record<string, QueryPath> = {
+  query_antivirus_status: '/v2/queries/antivirus-status',
+  query_antivirus_threats: '/v2/queries/antivirus-threats',
+  query_computer_systems: '/v2/queries/computer-systems',
+  query_device_health: '/v2/queries/device-health',
+  query_operating_systems: '/v2/queries/operating-systems',
+  query_logged_on_users: '/v2/queries/logged-on-users',
+  query_processors: '/v2/queries/processors',
+  query_disks: '/v2/queries/disks',
+  query_volumes: '/v2/queries/volumes',
+  query_network_interfaces: '/v2/queries/network-interfaces',
+  query_raid_controllers: '/v2/queries/raid-controllers',
+  query_raid_drives: '/v2/queries/raid-drives',
+  query_software: '/v2/queries/software',
+  query_os_patches: '/v2/queries/os-patches',
+  query_software_patches: '/v2/queries/software-patches',
+  query_os_patch_installs: '/v2/queries/os-patch-installs',
+  query_software_patch_installs: '/v2/queries/software-patch-installs',
+  query_windows_services: '/v2/queries/windows-services',
+  query_custom_fields: '/v2/queries/custom-fields',
+  query_custom_fields_detailed: '/v2/queries/custom-fields-detailed',
+  query_scoped_custom_fields: '/v2/queries/scoped-custom-fields',
+  query_scoped_custom_fields_detailed: '/v2/queries/scoped-custom-fields-detailed',
+  query_policy_overrides: '/v2/queries/policy-overrides',
+  query_backup_usage: '/v2/queries/backup/usage'
+};
+
+/**
+ * Report-specific filters a query tool passes through to its endpoint, besides `df`.
+ */
+const QUERY_TOOL_FILTERS: Record<string, readonly string[]> = {
+  query_os_patch_installs: ['status', 'installedAfter', 'installedBefore']
+};
+
+const TICKET_TYPES = ['PROBLEM', 'QUESTION', 'INCIDENT', 'TASK', 'CHANGE_REQUEST', 'SERVICE_REQUEST', 'PROJECT', 'APPOINTMENT', 'MISCELLANEOUS'];
+const TICKET_PRIORITIES = ['NONE', 'LOW', 'MEDIUM', 'HIGH'];
+const TICKET_SEVERITIES = ['NONE', 'MINOR', 'MODERATE', 'MAJOR', 'CRITICAL'];
+const TICKET_ATTRIBUTES_SCHEMA = {
+  type: 'array',
+  description: 'Ticket attribute values (see get_ticket_forms for the fields a form requires)',
+  items: {
+    type: 'object',
+    properties: {
+      attributeId: { type: 'number', description: 'Attribute ID' },
+      value: { type: 'string', description: 'Attribute value' }
+    },
+    required: ['attributeId', 'value']
+  }
+};
+
 /**
  * Fixed tool definitions - removed complex filtering, kept all functionality
  */
-const TOOLS = [
+export const TOOLS = [
   // Device Management Tools
   {
     name: 'get_devices',
@@ -33,7 +273,9 @@ const TOOLS = [
       properties: {
         pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
         after: { type: 'number', description: 'Pagination cursor' },
-        df: { type: 'string', description: 'Simple device filter (e.g., "offline = true")' }
+        df: { type: 'string', description: 'Simple device filter (e.g., "offline = true")' },
+        ...ALL_PAGES_PROPERTIES,
+        ...CACHE_PROPERTIES
       }
     }
   },
@@ -45,7 +287,9 @@ const TOOLS = [
       properties: {
         pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
         after: { type: 'number', description: 'Pagination cursor' },
-        df: { type: 'string', description: 'Simple device filter (e.g., "offline = true")' }
+        df: { type: 'string', description: 'Simple device filter (e.g., "offline = true")' },
+        ...ALL_PAGES_PROPERTIES,
+        ...CACHE_PROPERTIES
       }
     }
   },
@@ -65,6 +309,11 @@ const TOOLS = [
     description: 'List supported NinjaONE regions and base URLs',
     inputSchema: { type: 'object', properties: {} }
   },
+  {
+    name: 'list_instances',
+    description: 'List the NinjaONE instances this server can call, their base URLs and which one is the default',
+    inputSchema: { type: 'object', properties: {} }
+  },
   {
     name: 'set_region',
     description: 'Set region or base URL for API requests',
@@ -94,7 +343,9 @@ const TOOLS = [
       type: 'object',
       properties: {
         id: { type: 'number', description: 'Device ID' },
-        mode: { type: 'string', enum: ['NORMAL', 'FORCED'], description: 'Reboot mode' }
+        mode: { type: 'string', enum: ['NORMAL', 'FORCED'], description: 'Reboot mode' },
+        ...WAIT_FOR_JOB_PROPERTIES,
+        ...DESTRUCTIVE_ACTION_PROPERTIES
       },
       required: ['id', 'mode']
     }
@@ -137,7 +388,9 @@ const TOOLS = [
       type: 'object',
       properties: {
         pageSize: { type: 'number', description: 'Number of results per page' },
-        after: { type: 'number', description: 'Pagination cursor' }
+        after: { type: 'number', description: 'Pagination cursor' },
+        ...ALL_PAGES_PROPERTIES,
+        ...CACHE_PROPERTIES
       }
     }
   },
@@ -211,23 +464,43 @@ const TOOLS = [
   },
   {
     name: 'search_devices_by_name',
-    description: 'Search devices by system name (client-side filtering)',
+    description: 'Search devices by system, display, DNS or NetBIOS name, tolerating typos; best matches first',
     inputSchema: {
       type: 'object',
       properties: {
-        name: { type: 'string', description: 'System name to search for' },
-        limit: { type: 'number', description: 'Maximum results to return (default: 10)' }
+        name: { type: 'string', description: 'Device name or part of it' },
+        limit: { type: 'number', description: 'Maximum results to return (default: 10)' },
+        ...DEVICE_SEARCH_PROPERTIES
       },
       required: ['name']
     }
   },
+  {
+    name: 'find_devices',
+    description: 'Find devices by name, IP address, MAC address, serial number, logged-on user and/or organization; best matches first. Every given criterion must match.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Match any attribute: names (fuzzy), exact IP, MAC or serial, or user' },
+        name: { type: 'string', description: 'Device name (fuzzy)' },
+        ip: { type: 'string', description: 'IP address, or a prefix such as "10.0.4."' },
+        mac: { type: 'string', description: 'MAC address in any notation, or its first bytes' },
+        serial: { type: 'string', description: 'Serial number or part of it' },
+        user: { type: 'string', description: 'Logged-on user, e.g. jdoe or CORP\\jdoe' },
+        organizationId: { type: 'number', description: 'Only devices of this organization' },
+        limit: { type: 'number', description: 'Maximum results to return (default: 10)' },
+        ...DEVICE_SEARCH_PROPERTIES
+      }
+    }
+  },
   {
     name: 'find_windows11_devices',
     description: 'Find all Windows 11 devices (client-side filtering)',
     inputSchema: {
       type: 'object',
       properties: {
-        limit: { type: 'number', description: 'Maximum results to return (default: 20)' }
+        limit: { type: 'number', description: 'Maximum results to return (default: 20)' },
+        ...CACHE_PROPERTIES
       }
     }
   },
@@ -241,7 +514,8 @@ const TOOLS = [
       properties: {
         id: { type: 'number', description: 'Device ID' },
         serviceId: { type: 'string', description: 'Service ID' },
-        action: { type: 'string', enum: ['START', 'STOP', 'RESTART'], description: 'Action to perform' }
+        action: { type: 'string', enum: ['START', 'STOP', 'RESTART'], description: 'Action to perform' },
+        ...WAIT_FOR_JOB_PROPERTIES
       },
       required: ['id', 'serviceId', 'action']
     }
@@ -254,11 +528,96 @@ const TOOLS = [
       properties: {
         id: { type: 'number', description: 'Device ID' },
         serviceId: { type: 'string', description: 'Service ID' },
-        startupType: { type: 'string', enum: ['AUTOMATIC', 'MANUAL', 'DISABLED'], description: 'Startup type' }
+        startupType: { type: 'string', enum: ['AUTOMATIC', 'MANUAL', 'DISABLED'], description: 'Startup type' },
+        ...WAIT_FOR_JOB_PROPERTIES
       },
       required: ['id', 'serviceId', 'startupType']
     }
   },
+  // Scripting
+  {
+    name: 'get_automation_scripts',
+    description: 'List the automation script library (IDs, languages, operating systems, parameters and script variables)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        lang: { type: 'string', description: 'Language for names and descriptions (e.g., en)' }
+      }
+    }
+  },
+  {
+    name: 'get_device_scripting_options',
+    description: 'List the scripts, built-in actions and run-as credentials available for a device',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'Device ID' },
+        lang: { type: 'string', description: 'Language for names and descriptions (e.g., en)' }
+      },
+      required: ['id']
+    }
+  },
+  {
+    name: 'run_device_script',
+    description: 'Run a library script (scriptId) or built-in action (actionUid) on a device. Returns the jobs the run started; follow them with get_device_jobs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'Device ID' },
+        scriptId: { type: 'number', description: 'Library script ID (see get_device_scripting_options)' },
+        actionUid: { type: 'string', description: 'Built-in action UID (see get_device_scripting_options)' },
+        parameters: { type: 'string', description: 'Script parameters, passed as a single command-line string' },
+        runAs: { type: 'string', description: 'Run-as credential role or ID (see get_device_scripting_options; e.g., system, loggedonuser)' },
+        ...WAIT_FOR_JOB_PROPERTIES
+      },
+      required: ['id']
+    }
+  },
+  // Jobs
+  {
+    name: 'get_device_jobs',
+    description: 'Get the currently running jobs on a device (scripts, actions, patching)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'Device ID' },
+        lang: { type: 'string', description: 'Language for messages (e.g., en)' },
+        tz: { type: 'string', description: 'Time zone for timestamps (e.g., America/New_York)' }
+      },
+      required: ['id']
+    }
+  },
+  {
+    name: 'get_jobs',
+    description: 'Get jobs currently running across all devices. Finished jobs drop out of this list; use get_device_activities for history.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobType: { type: 'string', description: 'Job type filter (e.g., PATCH_MANAGEMENT, ACTION, ACTIONSET)' },
+        df: { type: 'string', description: 'Device filter' },
+        lang: { type: 'string', description: 'Language for messages (e.g., en)' },
+        tz: { type: 'string', description: 'Time zone for timestamps (e.g., America/New_York)' }
+      }
+    }
+  },
+  {
+    name: 'get_scheduled_tasks',
+    description: 'List scheduled tasks',
+    inputSchema: { type: 'object', properties: {} }
+  },
+  {
+    name: 'wait_for_job',
+    description: 'Wait for a job on a device to finish and return its final status and output. Without jobUid, waits for the jobs running on the device when the call starts (NO_RUNNING_JOBS if there are none).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'Device ID' },
+        jobUid: { type: 'string', description: 'Job UID (from get_device_jobs or run_device_script)' },
+        timeoutSeconds: { type: 'number', description: 'Maximum seconds to wait (default: 120, max: 900)' }
+      },
+      required: ['id']
+    }
+  },
   // Device Patching
   {
     name: 'scan_device_os_patches',
@@ -266,21 +625,23 @@ const TOOLS = [
     inputSchema: {
       type: 'object',
       properties: {
-        id: { type: 'number', description: 'Device ID' }
+        id: { type: 'number', description: 'Device ID' },
+        ...WAIT_FOR_JOB_PROPERTIES
       },
       required: ['id']
     }
   },
   {
     name: 'apply_device_os_patches',
-    description: 'Apply OS patches on a device',
+    description: 'Apply approved OS patches on a device (submits a patch apply job; approvals are managed by NinjaONE policies)',
     inputSchema: {
       type: 'object',
       properties: {
         id: { type: 'number', description: 'Device ID' },
-        patches: { type: 'array', items: { type: 'object' }, description: 'List of OS patches to apply' }
+        ...WAIT_FOR_JOB_PROPERTIES,
+        ...DESTRUCTIVE_ACTION_PROPERTIES
       },
-      required: ['id', 'patches']
+      required: ['id']
     }
   },
   {
@@ -289,21 +650,23 @@ const TOOLS = [
     inputSchema: {
       type: 'object',
       properties: {
-        id: { type: 'number', description: 'Device ID' }
+        id: { type: 'number', description: 'Device ID' },
+        ...WAIT_FOR_JOB_PROPERTIES
       },
       required: ['id']
     }
   },
   {
     name: 'apply_device_software_patches',
-    description: 'Apply software patches on a device',
+    description: 'Apply approved software patches on a device (submits a patch apply job; approvals are managed by NinjaONE policies)',
     inputSchema: {
       type: 'object',
       properties: {
         id: { type: 'number', description: 'Device ID' },
-        patches: { type: 'array', items: { type: 'object' }, description: 'List of software patches to apply' }
+        ...WAIT_FOR_JOB_PROPERTIES,
+        ...DESTRUCTIVE_ACTION_PROPERTIES
       },
-      required: ['id', 'patches']
+      required: ['id']
     }
   },
 
@@ -313,7 +676,7 @@ const TOOLS = [
     description: 'Get organization details by ID',
     inputSchema: {
       type: 'object',
-      properties: { id: { type: 'number', description: 'Organization ID' } },
+      properties: { id: { type: 'number', description: 'Organization ID' }, ...CACHE_PROPERTIES },
       required: ['id']
     }
   },
@@ -322,7 +685,7 @@ const TOOLS = [
     description: 'Get locations for an organization',
     inputSchema: {
       type: 'object',
-      properties: { id: { type: 'number', description: 'Organization ID' } },
+      properties: { id: { type: 'number', description: 'Organization ID' }, ...CACHE_PROPERTIES },
       required: ['id']
     }
   },
@@ -331,7 +694,7 @@ const TOOLS = [
     description: 'Get policies for an organization',
     inputSchema: {
       type: 'object',
-      properties: { id: { type: 'number', description: 'Organization ID' } },
+      properties: { id: { type: 'number', description: 'Organization ID' }, ...CACHE_PROPERTIES },
       required: ['id']
     }
   },
@@ -492,7 +855,7 @@ const TOOLS = [
     description: 'Delete an end user by ID',
     inputSchema: {
       type: 'object',
-      properties: { id: { type: 'number', description: 'End user identifier' } },
+      properties: { id: { type: 'number', description: 'End user identifier' }, ...DESTRUCTIVE_ACTION_PROPERTIES },
       required: ['id']
     }
   },
@@ -563,14 +926,22 @@ const TOOLS = [
   {
     name: 'delete_contact',
     description: 'Delete a contact',
-    inputSchema: { type: 'object', properties: { id: { type: 'number' } }, required: ['id'] }
+    inputSchema: { type: 'object', properties: { id: { type: 'number' }, ...DESTRUCTIVE_ACTION_PROPERTIES }, required: ['id'] }
   },
 
   // Device approvals and policy
   {
     name: 'approve_devices',
-    description: 'Approve or deny multiple devices',
-    inputSchema: { type: 'object', properties: { mode: { type: 'string', description: 'e.g., APPROVE or DENY' }, deviceIds: { type: 'array', items: { type: 'number' } } }, required: ['mode', 'deviceIds'] }
+    description: 'Approve or reject multiple devices waiting for approval',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        mode: { type: 'string', enum: ['APPROVE', 'REJECT'], description: 'APPROVE or REJECT' },
+        deviceIds: { type: 'array', items: { type: 'number' } },
+        ...DESTRUCTIVE_ACTION_PROPERTIES
+      },
+      required: ['mode', 'deviceIds']
+    }
   },
   {
     name: 'get_device_policy_overrides',
@@ -591,7 +962,7 @@ const TOOLS = [
   {
     name: 'get_policies',
     description: 'List policies (optionally templates only)',
-    inputSchema: { type: 'object', properties: { templateOnly: { type: 'boolean' } } }
+    inputSchema: { type: 'object', properties: { templateOnly: { type: 'boolean' }, ...CACHE_PROPERTIES } }
   },
 
   // System Information Query Tools
@@ -603,7 +974,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -615,7 +987,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -627,7 +1000,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -639,7 +1013,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -651,7 +1026,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -663,7 +1039,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -677,7 +1054,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -689,7 +1067,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -701,7 +1080,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -713,7 +1093,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -725,7 +1106,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -737,7 +1119,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -751,7 +1134,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -763,7 +1147,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -775,7 +1160,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -786,8 +1172,12 @@ const TOOLS = [
       type: 'object',
       properties: {
         df: { type: 'string', description: 'Device filter' },
+        status: { type: 'string', enum: ['FAILED', 'INSTALLED'], description: 'Only installs with this outcome' },
+        installedAfter: { type: 'string', description: 'Only patches installed after this date (e.g. 2025-01-14)' },
+        installedBefore: { type: 'string', description: 'Only patches installed before this date (e.g. 2025-02-11)' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -799,7 +1189,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -811,7 +1202,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -825,7 +1217,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -837,7 +1230,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -849,7 +1243,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -861,7 +1256,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -873,7 +1269,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -887,7 +1284,8 @@ const TOOLS = [
       properties: {
         df: { type: 'string', description: 'Device filter' },
         cursor: { type: 'string', description: 'Pagination cursor' },
-        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' }
+        pageSize: { type: 'number', description: 'Number of results per page (default: 50)' },
+        ...ALL_PAGES_PROPERTIES
       }
     }
   },
@@ -896,7 +1294,7 @@ const TOOLS = [
   {
     name: 'get_groups',
     description: 'List all device groups (saved searches/filters)',
-    inputSchema: { type: 'object', properties: {} }
+    inputSchema: { type: 'object', properties: { ...CACHE_PROPERTIES } }
   },
   {
     name: 'get_group_device_ids',
@@ -904,7 +1302,8 @@ const TOOLS = [
     inputSchema: {
       type: 'object',
       properties: {
-        id: { type: 'number', description: 'Group ID' }
+        id: { type: 'number', description: 'Group ID' },
+        ...CACHE_PROPERTIES
       },
       required: ['id']
     }
@@ -960,20 +1359,225 @@ const TOOLS = [
       },
       required: ['id', 'fields']
     }
+  },
+
+  // Ticketing
+  {
+    name: 'create_ticket',
+    description: 'Create a ticket. Pass alertUid (from get_alerts) to link the alerting device and pre-fill subject and description. Required form fields are validated before submission.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ticketFormId: { type: 'number', description: 'Ticket form ID (see get_ticket_forms)' },
+        subject: { type: 'string', description: 'Ticket subject (max 200 characters). Defaults to the alert subject when alertUid is given' },
+        description: { type: 'string', description: 'Ticket description. Defaults to the alert details when alertUid is given' },
+        alertUid: { type: 'string', description: 'Alert UID to open the ticket from' },
+        organizationId: { type: 'number', description: 'Organization ID. Derived from the device when deviceId or alertUid is given' },
+        deviceId: { type: 'number', description: 'Device ID the ticket is about' },
+        locationId: { type: 'number', description: 'Location ID' },
+        status: { type: 'string', description: 'Status ID (see get_ticket_statuses; default: 1000, New)' },
+        type: { type: 'string', enum: TICKET_TYPES, description: 'Ticket type' },
+        priority: { type: 'string', enum: TICKET_PRIORITIES, description: 'Ticket priority' },
+        severity: { type: 'string', enum: TICKET_SEVERITIES, description: 'Ticket severity' },
+        requesterUid: { type: 'string', description: 'Requester user UID' },
+        assignedAppUserId: { type: 'number', description: 'Assigned technician ID' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Tags' },
+        attributes: TICKET_ATTRIBUTES_SCHEMA
+      },
+      required: ['ticketFormId']
+    }
+  },
+  {
+    name: 'get_ticket',
+    description: 'Get a ticket by ID',
+    inputSchema: {
+      type: 'object',
+      properties: { ticketId: { type: 'number', description: 'Ticket ID' } },
+      required: ['ticketId']
+    }
+  },
+  {
+    name: 'update_ticket',
+    description: 'Update a ticket (status, subject, assignment, priority, attributes). Fields not provided keep their current values.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ticketId: { type: 'number', description: 'Ticket ID' },
+        subject: { type: 'string', description: 'Ticket subject (max 200 characters)' },
+        status: { type: 'string', description: 'Status ID (see get_ticket_statuses)' },
+        type: { type: 'string', enum: TICKET_TYPES, description: 'Ticket type' },
+        priority: { type: 'string', enum: TICKET_PRIORITIES, description: 'Ticket priority' },
+        severity: { type: 'string', enum: TICKET_SEVERITIES, description: 'Ticket severity' },
+        assignedAppUserId: { type: 'number', description: 'Assigned technician ID' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Tags (replaces the current tags)' },
+        attributes: TICKET_ATTRIBUTES_SCHEMA
+      },
+      required: ['ticketId']
+    }
+  },
+  {
+    name: 'add_ticket_comment',
+    description: 'Add a comment to a ticket. Comments are internal notes unless public is true.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ticketId: { type: 'number', description: 'Ticket ID' },
+        body: { type: 'string', description: 'Comment text' },
+        htmlBody: { type: 'string', description: 'Comment HTML (optional alternative to body)' },
+        public: { type: 'boolean', description: 'Visible to the requester (default: false)' },
+        timeTracked: { type: 'number', description: 'Time spent in seconds' }
+      },
+      required: ['ticketId']
+    }
+  },
+  {
+    name: 'get_ticket_log_entries',
+    description: 'Get the log (comments, descriptions, changes) of a ticket',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ticketId: { type: 'number', description: 'Ticket ID' },
+        type: { type: 'string', enum: ['DESCRIPTION', 'COMMENT', 'CONDITION', 'SAVE', 'DELETE', 'PRODUCT'], description: 'Log entry type filter' },
+        createTime: { type: 'string', description: 'Return entries created after this time' },
+        anchorId: { type: 'number', description: 'Pagination anchor (last log entry ID seen)' },
+        pageSize: { type: 'number', description: 'Number of results per page (default: 500)' }
+      },
+      required: ['ticketId']
+    }
+  },
+  {
+    name: 'get_ticket_statuses',
+    description: 'List ticket statuses and their IDs',
+    inputSchema: { type: 'object', properties: { ...CACHE_PROPERTIES } }
+  },
+  {
+    name: 'get_ticket_forms',
+    description: 'List ticket forms, or get one form with its fields (and which are required) by ID',
+    inputSchema: {
+      type: 'object',
+      properties: { id: { type: 'number', description: 'Ticket form ID (optional)' }, ...CACHE_PROPERTIES }
+    }
+  },
+  {
+    name: 'get_ticket_attributes',
+    description: 'List ticket attributes (custom ticket fields) with their types and allowed values',
+    inputSchema: { type: 'object', properties: { ...CACHE_PROPERTIES } }
+  },
+  {
+    name: 'get_ticket_boards',
+    description: 'List ticket boards',
+    inputSchema: { type: 'object', properties: { ...CACHE_PROPERTIES } }
+  },
+  {
+    name: 'get_board_tickets',
+    description: 'List tickets on a board',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        boardId: { type: 'number', description: 'Board ID (see get_ticket_boards)' },
+        searchCriteria: { type: 'string', description: 'Free-text search' },
+        pageSize: { type: 'number', description: 'Number of results per page' },
+        lastCursorId: { type: 'number', description: 'Pagination cursor (last ticket ID from the previous page)' }
+      },
+      required: ['boardId']
+    }
+  },
+
+  // Audit
+  {
+    name: 'get_audit_log',
+    description: 'Search the audit log of mutating NinjaONE requests made by this server, newest first. Requires NINJA_AUDIT_LOG.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        since: { type: 'string', description: 'Only entries at or after this ISO timestamp' },
+        until: { type: 'string', description: 'Only entries at or before this ISO timestamp' },
+        tool: { type: 'string', description: 'Tool name, e.g. reboot_device' },
+        identity: { type: 'string', description: 'API key name of the HTTP session' },
+        sessionId: { type: 'string', description: 'MCP session ID' },
+        target: { type: 'string', description: 'Target record, e.g. "device 12"' },
+        outcome: { type: 'string', enum: ['success', 'error'] },
+        limit: { type: 'number', description: 'Maximum entries to return (default: 50, max: 1000)' }
+      }
+    }
+  },
+  // Cache
+  {
+    name: 'get_cache_stats',
+    description: 'Show response cache hits, misses, entries and TTLs per cached endpoint group',
+    inputSchema: { type: 'object', properties: {} }
   }
 ];
 
+/**
+ * Read-only list tools without required arguments. Arguments such as a
+ * device ID name a record in one instance, so only these take allInstances.
+ */
+const FAN_OUT_TOOLS = new Set(
+  TOOLS.filter((tool) => canFanOut(tool.name) && !('required' in tool.inputSchema)).map((tool) => tool.name)
+);
+
+/**
+ * TOOLS with the shared instance properties. list_instances covers every instance itself.
+ */
+const INSTANCE_AWARE_TOOLS = TOOLS.map((tool) => tool.name === 'list_instances' ? tool : {
+  ...tool,
+  inputSchema: {
+    ...tool.inputSchema,
+    properties: {
+      ...tool.inputSchema.properties,
+      ...INSTANCE_PROPERTIES,
+      ...(FAN_OUT_TOOLS.has(tool.name) ? FAN_OUT_PROPERTIES : {})
+    }
+  }
+});
+
+/**
+ * TOOLS as listed to clients, with annotations and output schemas.
+ */
+const TOOL_DEFINITIONS = INSTANCE_AWARE_TOOLS.map((tool) => ({
+  ...tool,
+  annotations: toolAnnotations(tool.name),
+  outputSchema: toolOutputSchema(tool.name)
+}));
+
+/**
+ * Tools with a `df` device filter; an organization scope is added to it.
+ */
+const DEVICE_FILTER_TOOLS = new Set(
+  TOOLS.filter((tool) => 'df' in tool.inputSchema.properties).map((tool) => tool.name)
+);
+
+const INPUT_SCHEMAS = new Map<string, InputSchema>(INSTANCE_AWARE_TOOLS.map((tool) => [tool.name, tool.inputSchema]));
+
+/**
+ * Deployment-wide settings shared by every session.
+ */
+export interface ServerSettings {
+  policy: ToolPolicy;
+  scopes?: InstanceScopes;
+  confirmation: ConfirmationMode;
+  auditLog?: AuditLog;
+}
+
 /**
  * Create a new MCP Server instance with all tool handlers registered.
- * Shared API client is passed in so all sessions reuse the same OAuth token cache.
+ * The shared instance registry is passed in so all sessions reuse the same
+ * API clients and OAuth token caches.
+ * HTTP sessions pass the identity of their API key, which narrows the policy
+ * and the organization scope.
  */
-function createMCPServer(api: NinjaOneAPI): Server {
+export function createMCPServer(instances: InstanceRegistry, settings: ServerSettings, identity?: AccessIdentity): Server {
   const server = new Server(
     { name: 'ninjaone-mcp-server', version: '1.3.0' },
-    { capabilities: { tools: {} } }
+    { capabilities: { tools: {}, resources: {}, prompts: {} } }
   );
-  const handler = new ToolHandler(api);
+  const sessionScopes = InstanceScopes.forSession(settings.scopes, identity?.organizations);
+  const handler = new ToolHandler(instances, settings, sessionScopes, identity);
   handler.register(server);
+  const policies = identity ? [settings.policy, identity.policy] : [settings.policy];
+  new ResourceHandler(instances, policies, sessionScopes, identity).register(server);
+  new PromptHandler().register(server);
   return server;
 }
 
@@ -985,24 +1589,193 @@ function createMCPServer(api: NinjaOneAPI): Server {
  */
 class ToolHandler {
   private static readonly MAX_PAGE_SIZE = 1000;
+  private static readonly DEFAULT_MAX_RECORDS = 10_000;
+  private static readonly MAX_RECORDS_LIMIT = 100_000;
+  /** Ticket status NinjaOne assigns to new tickets ("New"). */
+  private static readonly DEFAULT_TICKET_STATUS = '1000';
+  private static readonly JOB_CLOCK_SKEW_SECONDS = 30;
+  private static readonly JOB_POLL_INTERVAL_MS = 5_000;
+  private static readonly DEFAULT_JOB_WAIT_SECONDS = 120;
+  private static readonly MAX_JOB_WAIT_SECONDS = 900;
 
   private clampPageSize(requested?: number, fallback = 50): number {
     const size = requested ?? fallback;
     return Math.min(Math.max(1, size), ToolHandler.MAX_PAGE_SIZE);
   }
 
-  constructor(private api: NinjaOneAPI) {}
+  private server?: Server;
+  private readonly confirmations = new ConfirmationTokens();
+
+  constructor(
+    private instances: InstanceRegistry,
+    private settings: ServerSettings,
+    private scopes?: InstanceScopes,
+    private identity?: AccessIdentity
+  ) {}
+
+  /** The instance the current tool call selected with its `instance` argument. */
+  private get instance(): NinjaInstance {
+    return this.instances.get(currentContext()?.instance);
+  }
+
+  private get api(): NinjaOneAPI {
+    return this.instance.api;
+  }
+
+  /**
+   * The session's organization scope on the current instance; undefined
+   * when unrestricted. Throws when nothing on the instance is in scope.
+   */
+  private get scope(): OrganizationScope | undefined {
+    if (!this.scopes) return undefined;
+    const { name } = this.instance;
+    const scope = this.scopes.get(name);
+    if (!scope) {
+      throw new McpError(ErrorCode.InvalidRequest, `Instance ${name} is outside the organization scope of this session`);
+    }
+    return scope;
+  }
+
+  /**
+   * Deployment policy and, for HTTP sessions, the API key's role must both
+   * allow the tool. Scoped sessions also lose the tools that span organizations.
+   */
+  private isAllowed(name: string): boolean {
+    if (this.scopes && UNSCOPED_TOOLS.has(name)) return false;
+    return this.settings.policy.isAllowed(name) && (this.identity?.policy.isAllowed(name) ?? true);
+  }
+
+  /**
+   * Enforce the organization scope before a call: every organization, device,
+   * alert, contact, end user or ticket the arguments name must belong to an
+   * organization in scope, and device filters are narrowed to the scope.
+   * Returns the arguments to call the tool with. Calls to an instance with
+   * nothing in scope are rejected here.
+   */
+  private async applyOrganizationScope(name: string, args: any): Promise<any> {
+    if (name === 'list_instances') return args;
+    const scope = this.scope;
+    if (!scope) return args;
+
+    if (ORGANIZATION_ID_TOOLS.has(name)) {
+      scope.assertIncludes(args.id, `Organization ${args.id}`);
+    }
+    if (args.organizationId !== undefined) {
+      scope.assertIncludes(args.organizationId, `Organization ${args.organizationId}`);
+    } else if (name === 'create_end_user' || name === 'generate_organization_installer') {
+      throw new McpError(ErrorCode.InvalidParams, 'organizationId is required while an organization scope is active');
+    }
+
+    const deviceIds: number[] = DEVICE_ID_TOOLS.has(name)
+      ? [args.id]
+      : name === 'approve_devices' ? args.deviceIds ?? []
+      : args.deviceId !== undefined ? [args.deviceId] : [];
+    for (const id of deviceIds) {
+      const device = await this.api.getDevice(id);
+      scope.assertIncludes(device.organizationId, `Device ${id}`);
+    }
+
+    const alertUid: string | undefined = name === 'get_alert' || name === 'reset_alert' ? args.uid : args.alertUid;
+    if (alertUid) {
+      const alert = await this.api.getAlert(alertUid);
+      scope.assertIncludes(alert.device?.organizationId, `Alert ${alertUid}`);
+    }
+
+    switch (name) {
+      case 'get_contact':
+      case 'update_contact':
+      case 'delete_contact':
+        scope.assertIncludes((await this.api.getContact(args.id)).organizationId, `Contact ${args.id}`);
+        break;
+      case 'get_end_user':
+      case 'update_end_user':
+      case 'delete_end_user':
+        scope.assertIncludes((await this.api.getEndUser(args.id)).organizationId, `End user ${args.id}`);
+        break;
+      case 'get_ticket':
+      case 'update_ticket':
+      case 'add_ticket_comment':
+      case 'get_ticket_log_entries':
+        scope.assertIncludes((await this.api.getTicket(args.ticketId)).clientId, `Ticket ${args.ticketId}`);
+        break;
+    }
+
+    return DEVICE_FILTER_TOOLS.has(name) ? { ...args, df: scope.restrictFilter(args.df) } : args;
+  }
+
+  /**
+   * Drop records outside the organization scope from list tools whose
+   * endpoints cannot filter by organization.
+   */
+  private filterToScope(name: string, data: any) {
+    let organizationOf: ((item: any) => number | undefined) | undefined;
+    if (name === 'get_organizations') organizationOf = (organization) => organization.id;
+    if (name === 'get_contacts' || name === 'get_end_users') organizationOf = (record) => record.organizationId;
+    if (!organizationOf) return data;
+    const scope = this.scope;
+    if (!scope) return data;
+
+    if (Array.isArray(data)) return scope.filter(data, organizationOf);
+    // Paged with `all`: filter the collected records and keep the paging summary.
+    const results = scope.filter(data.results, organizationOf);
+    return { ...data, results, totalRecords: results.length };
+  }
+
+  private wantsAllPages(args: any): boolean {
+    return args.all === true || args.maxRecords !== undefined;
+  }
+
+  /**
+   * Drain a page iterator for tools called with `all` / `maxRecords`.
+   */
+  private collectAll<T>(pages: AsyncIterable<T[]>, maxRecords?: number) {
+    const requested = typeof maxRecords === 'number' && Number.isFinite(maxRecords)
+      ? maxRecords
+      : ToolHandler.DEFAULT_MAX_RECORDS;
+    return collectPages(
+      pages,
+      Math.min(Math.max(1, Math.floor(requested)), ToolHandler.MAX_RECORDS_LIMIT),
+      this.reportPageProgress('records')
+    );
+  }
+
+  /**
+   * Progress callback for collectPages: one notification per page fetched.
+   */
+  private reportPageProgress(noun: string) {
+    return (records: number, pages: number) =>
+      reportProgress(records, undefined, `Fetched ${records} ${noun} (${pages} page${pages === 1 ? '' : 's'})`);
+  }
 
   register(server: Server) {
+    this.server = server;
     server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: TOOLS
+      tools: TOOL_DEFINITIONS.filter((tool) => this.isAllowed(tool.name))
     }));
 
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const progressToken = request.params._meta?.progressToken;
+      const context: CallContext = {
+        signal: extra.signal,
+        tool: { name, arguments: args ?? {} },
+        ...(this.identity ? { identity: this.identity } : {}),
+        ...(extra.sessionId ? { sessionId: extra.sessionId } : {})
+      };
+      if (progressToken !== undefined) {
+        context.reportProgress = (progress, total, message) => extra.sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress,
+            ...(total !== undefined ? { total } : {}),
+            ...(message !== undefined ? { message } : {})
+          }
+        });
+      }
       try {
         console.error(`Executing tool: ${name}`);
-        return await this.routeToolCall(name, args || {});
+        return await runWithCallContext(context, () => this.routeToolCall(name, args || {}));
       } catch (error) {
         if (error instanceof McpError) throw error;
         console.error(`Tool ${name} failed:`, error instanceof Error ? error.message : String(error));
@@ -1014,8 +1787,48 @@ class ToolHandler {
     });
   }
 
+  /**
+   * The pretty-printed text keeps older clients working; structuredContent
+   * matches the tool's outputSchema.
+   */
+  private toToolResult(data: unknown) {
+    return {
+      content: [{ type: 'text' as const, text: JSON.stringify(data, null, 2) }],
+      structuredContent: toStructuredContent(data)
+    };
+  }
+
   private async routeToolCall(name: string, args: any) {
+    if (!this.isAllowed(name)) {
+      throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} is not available on this server`);
+    }
+    const schema = INPUT_SCHEMAS.get(name);
+    if (schema) {
+      args = validateArguments(name, schema, args);
+    }
+    const context = currentContext();
+    if (context && args.noCache === true) {
+      context.noCache = true;
+    }
+    if (args.allInstances === true && !FAN_OUT_TOOLS.has(name)) {
+      throw new McpError(ErrorCode.InvalidParams, `${name} does not support allInstances; call it once per instance instead`);
+    }
+    if (args.instance !== undefined) {
+      if (args.allInstances === true) {
+        throw new McpError(ErrorCode.InvalidParams, 'Use either instance or allInstances, not both');
+      }
+      this.instances.get(args.instance);
+      if (context) context.instance = args.instance;
+    }
     try {
+      if (args.allInstances === true) {
+        return this.toToolResult(await this.fanOut(name, args));
+      }
+      args = await this.applyOrganizationScope(name, args);
+      const held = await this.holdDestructiveCall(name, args);
+      if (held) {
+        return this.toToolResult(held);
+      }
       let data: any;
       switch (name) {
         // Organization CRUD
@@ -1064,14 +1877,17 @@ class ToolHandler {
           data = await this.callAPIMethod(name, args);
           break;
       }
-      return {
-        content: [{
-          type: 'text',
-          text: JSON.stringify(data, null, 2)
-        }]
-      };
+      return this.toToolResult(this.filterToScope(name, data));
     } catch (error) {
       if (error instanceof McpError) throw error;
+      if (error instanceof RequestCancelledError) {
+        console.error(`Tool ${name} cancelled by the client`);
+        throw new McpError(ErrorCode.InternalError, 'Tool call cancelled by the client');
+      }
+      if (error instanceof NinjaOneError) {
+        console.error(`API call failed for ${name} after ${error.attempts} attempt(s):`, error.message);
+        throw toMcpError(error);
+      }
       console.error(`API call failed for ${name}:`, error instanceof Error ? error.message : String(error));
       throw new McpError(
         ErrorCode.InternalError,
@@ -1080,12 +1896,84 @@ class ToolHandler {
     }
   }
 
-  private async callAPIMethod(name: string, args: any) {
+  /**
+   * Run a read-only list tool on every instance in the session's scope, in
+   * parallel. Records are tagged with their instance, and each instance's
+   * paging summary is reported in `instances`. An instance that fails is
+   * reported there rather than failing the call, unless every instance fails.
+   */
+  private async fanOut(name: string, args: any) {
+    const context = currentContext() ?? {};
+    const names = this.reachableInstances();
+    if (names.length === 0) {
+      throw new McpError(ErrorCode.InvalidRequest, 'No instance is within the organization scope of this session');
+    }
+    const outcomes = await Promise.allSettled(names.map((instance) =>
+      runWithCallContext({ ...context, instance }, async () =>
+        this.filterToScope(name, await this.callAPIMethod(name, await this.applyOrganizationScope(name, args))))
+    ));
+
+    const results: unknown[] = [];
+    const instances: Record<string, unknown>[] = [];
+    outcomes.forEach((outcome, index) => {
+      const instance = names[index]!;
+      if (outcome.status === 'rejected') {
+        const error = outcome.reason;
+        console.error(`${name} failed on instance ${instance}:`, error instanceof Error ? error.message : String(error));
+        const message = error instanceof NinjaOneError ? toMcpError(error).message
+          : error instanceof McpError ? error.message
+          : 'API call failed. Check server logs for details.';
+        instances.push({ instance, error: message });
+        return;
+      }
+      const data = outcome.value;
+      const records: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.results) ? data.results : [];
+      for (const record of records) {
+        results.push(record && typeof record === 'object' ? { instance, ...record } : { instance, value: record });
+      }
+      const paging = Array.isArray(data) ? {} : Object.fromEntries(
+        (['cursor', 'pages', 'totalRecords', 'truncated'] as const)
+          .filter((key) => data?.[key] !== undefined)
+          .map((key) => [key, data[key]])
+      );
+      instances.push({ instance, records: records.length, ...paging });
+    });
+
+    const failed = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected');
+    if (failed && instances.every((instance) => instance.error !== undefined)) throw failed.reason;
+    return { results, instances };
+  }
+
+  /** Instances with organizations in the session's scope; all of them when unrestricted. */
+  private reachableInstances(): string[] {
+    return this.instances.names.filter((instance) => !this.scopes || this.scopes.get(instance) !== undefined);
+  }
+
+  private async callAPIMethod(name: string, args: any): Promise<any> {
+    if (JOB_ACTION_TOOLS.has(name) && args?.waitForJob === true) {
+      return this.runAndWaitForJob(name, args);
+    }
+
+    const queryPath = QUERY_TOOL_PATHS[name];
+    if (queryPath && this.wantsAllPages(args)) {
+      const pageSize = this.clampPageSize(args.pageSize, ToolHandler.MAX_PAGE_SIZE);
+      const filters = Object.fromEntries((QUERY_TOOL_FILTERS[name] ?? []).map((filter) => [filter, args[filter]]));
+      return this.collectAll(this.api.iterateQuery(queryPath, args.df, pageSize, args.cursor, filters), args.maxRecords);
+    }
+
     switch (name) {
       // Device Management
       case 'get_devices':
+        if (this.wantsAllPages(args)) {
+          const pageSize = this.clampPageSize(args.pageSize, ToolHandler.MAX_PAGE_SIZE);
+          return this.collectAll(this.api.iterateDevices(args.df, pageSize, args.after), args.maxRecords);
+        }
         return this.api.getDevices(args.df, this.clampPageSize(args.pageSize), args.after);
       case 'get_devices_detailed':
+        if (this.wantsAllPages(args)) {
+          const pageSize = this.clampPageSize(args.pageSize, ToolHandler.MAX_PAGE_SIZE);
+          return this.collectAll(this.api.iterateDevicesDetailed(args.df, pageSize, args.after), args.maxRecords);
+        }
         return this.api.getDevicesDetailed(args.df, this.clampPageSize(args.pageSize), args.after);
       case 'get_device':
         return this.api.getDevice(args.id);
@@ -1096,13 +1984,6 @@ class ToolHandler {
       case 'reboot_device':
         return this.api.rebootDevice(args.id, args.mode);
       case 'set_device_maintenance': {
-        if (typeof args.id !== 'number') {
-          throw new McpError(ErrorCode.InvalidParams, 'Device ID must be a number');
-        }
-        if (args.mode !== 'ON' && args.mode !== 'OFF') {
-          throw new McpError(ErrorCode.InvalidParams, 'Maintenance mode must be ON or OFF');
-        }
-
         let durationSelection: MaintenanceWindowSelection | undefined;
         if (args.mode === 'ON') {
           if (args.duration === null || args.duration === undefined || typeof args.duration !== 'object') {
@@ -1143,6 +2024,10 @@ class ToolHandler {
         return this.api.setDeviceMaintenance(args.id, args.mode, durationSelection);
       }
       case 'get_organizations':
+        if (this.wantsAllPages(args)) {
+          const pageSize = this.clampPageSize(args.pageSize, ToolHandler.MAX_PAGE_SIZE);
+          return this.collectAll(this.api.iterateOrganizations(pageSize, args.after), args.maxRecords);
+        }
         return this.api.getOrganizations(args.pageSize, args.after);
       case 'get_organization':
         return this.api.getOrganization(args.id);
@@ -1164,14 +2049,36 @@ class ToolHandler {
         return this.api.getDeviceActivities(args.id, args.pageSize);
       case 'get_activities':
         return this.api.getActivities(args.class, args.before, args.after, args.type, args.status, args.user, args.seriesUid, args.pageSize);
-      case 'search_devices_by_name':
-        return this.searchDevicesByName(args.name, args.limit || 10);
+      case 'search_devices_by_name': {
+        const found = await this.findDevices({ name: args.name }, args.limit || 10, args.source, args.rebuildIndex === true);
+        return { searchTerm: args.name, ...found };
+      }
+      case 'find_devices':
+        return this.findDevices(this.pruneUndefined({
+          query: args.query,
+          name: args.name,
+          ip: args.ip,
+          mac: args.mac,
+          serial: args.serial,
+          user: args.user,
+          organizationId: args.organizationId
+        }), args.limit || 10, args.source, args.rebuildIndex === true);
       case 'find_windows11_devices':
         return this.findWindows11Devices(args.limit || 20);
 
       // Region utilities
       case 'list_regions':
         return this.api.listRegions();
+      case 'list_instances':
+        return {
+          defaultInstance: this.instances.default.name,
+          instances: this.instances.list().filter((instance) => this.reachableInstances().includes(instance.name)).map((instance) => ({
+            name: instance.name,
+            description: instance.description ?? null,
+            baseUrl: instance.api.getBaseUrl(),
+            default: this.instances.isDefault(instance.name)
+          }))
+        };
       case 'set_region': {
         const mode = (process.env.MCP_MODE || 'stdio').toLowerCase();
         if (mode !== 'stdio') {
@@ -1184,30 +2091,54 @@ class ToolHandler {
       }
 
       // Device Control
-      case 'control_windows_service': {
-        const validActions = ['START', 'STOP', 'RESTART'];
-        if (!validActions.includes(args.action)) {
-          throw new McpError(ErrorCode.InvalidParams, `action must be one of: ${validActions.join(', ')}`);
-        }
+      case 'control_windows_service':
         return this.api.controlWindowsService(args.id, args.serviceId, args.action);
-      }
-      case 'configure_windows_service': {
-        const validTypes = ['AUTOMATIC', 'MANUAL', 'DISABLED'];
-        if (!validTypes.includes(args.startupType)) {
-          throw new McpError(ErrorCode.InvalidParams, `startupType must be one of: ${validTypes.join(', ')}`);
-        }
+      case 'configure_windows_service':
         return this.api.configureWindowsService(args.id, args.serviceId, args.startupType);
+
+      // Scripting
+      case 'get_automation_scripts':
+        return this.api.getAutomationScripts(args.lang);
+      case 'get_device_scripting_options':
+        return this.api.getDeviceScriptingOptions(args.id, args.lang);
+      case 'run_device_script':
+        return this.runDeviceScript(args);
+
+      // Jobs
+      case 'get_device_jobs':
+        return this.api.getDeviceJobs(args.id, args.lang, args.tz);
+      case 'get_jobs':
+        return this.api.getJobs(args.jobType, args.df, args.lang, args.tz);
+      case 'get_scheduled_tasks':
+        return this.api.getScheduledTasks();
+      case 'wait_for_job': {
+        const timeoutMs = this.jobWaitTimeoutMs(args.timeoutSeconds);
+        if (args.jobUid) {
+          // A named job may already have finished, so its whole history counts.
+          return waitForDeviceJobs(this.api, args.id, {
+            uids: [args.jobUid],
+            startedAfter: 0,
+            timeoutMs,
+            pollIntervalMs: ToolHandler.JOB_POLL_INTERVAL_MS
+          });
+        }
+        // Without a UID, follow the jobs running now; their final activities come after the call starts.
+        return waitForRunningJobs(this.api, args.id, {
+          startedAfter: Date.now() / 1000 - ToolHandler.JOB_CLOCK_SKEW_SECONDS,
+          timeoutMs,
+          pollIntervalMs: ToolHandler.JOB_POLL_INTERVAL_MS
+        });
       }
 
       // Device Patching
       case 'scan_device_os_patches':
         return this.api.scanDeviceOSPatches(args.id);
       case 'apply_device_os_patches':
-        return this.api.applyDeviceOSPatches(args.id, args.patches);
+        return this.api.applyDeviceOSPatches(args.id);
       case 'scan_device_software_patches':
         return this.api.scanDeviceSoftwarePatches(args.id);
       case 'apply_device_software_patches':
-        return this.api.applyDeviceSoftwarePatches(args.id, args.patches);
+        return this.api.applyDeviceSoftwarePatches(args.id);
 
       // System Information Queries
       case 'query_antivirus_status':
@@ -1245,7 +2176,11 @@ class ToolHandler {
       case 'query_software_patches':
         return this.api.querySoftwarePatches(args.df, args.cursor, this.clampPageSize(args.pageSize));
       case 'query_os_patch_installs':
-        return this.api.queryOSPatchInstalls(args.df, args.cursor, this.clampPageSize(args.pageSize));
+        return this.api.queryOSPatchInstalls(args.df, args.cursor, this.clampPageSize(args.pageSize), this.pruneUndefined({
+          status: args.status,
+          installedAfter: args.installedAfter,
+          installedBefore: args.installedBefore
+        }));
       case 'query_software_patch_installs':
         return this.api.querySoftwarePatchInstalls(args.df, args.cursor, this.clampPageSize(args.pageSize));
       case 'query_windows_services':
@@ -1341,30 +2276,209 @@ class ToolHandler {
       case 'get_policies':
         return this.api.getPolicies(args.templateOnly);
 
+      // Ticketing
+      case 'create_ticket':
+        return this.createTicket(args);
+      case 'get_ticket':
+        return this.api.getTicket(args.ticketId);
+      case 'update_ticket':
+        return this.updateTicket(args);
+      case 'add_ticket_comment':
+        if (!args.body && !args.htmlBody) {
+          throw new McpError(ErrorCode.InvalidParams, 'Provide body or htmlBody for the comment');
+        }
+        return this.api.addTicketComment(args.ticketId, {
+          public: args.public === true,
+          body: args.body,
+          htmlBody: args.htmlBody,
+          timeTracked: args.timeTracked
+        });
+      case 'get_ticket_log_entries':
+        return this.api.getTicketLogEntries(args.ticketId, args.type, args.createTime, args.anchorId, args.pageSize);
+      case 'get_ticket_statuses':
+        return this.api.getTicketStatuses();
+      case 'get_ticket_forms':
+        return args.id !== undefined ? this.api.getTicketForm(args.id) : this.api.getTicketForms();
+      case 'get_ticket_attributes':
+        return this.api.getTicketAttributes();
+      case 'get_ticket_boards':
+        return this.api.getTicketBoards();
+      case 'get_board_tickets':
+        return this.api.getBoardTickets(args.boardId, {
+          searchCriteria: args.searchCriteria,
+          pageSize: args.pageSize,
+          lastCursorId: args.lastCursorId
+        });
+
+      // Audit
+      case 'get_audit_log': {
+        const auditLog = this.settings.auditLog;
+        if (!auditLog) {
+          throw new McpError(ErrorCode.InvalidRequest, 'Audit logging is disabled. Set NINJA_AUDIT_LOG to a file path to enable it.');
+        }
+        const entries = await auditLog.search(this.pruneUndefined({
+          since: args.since,
+          until: args.until,
+          tool: args.tool,
+          identity: args.identity,
+          sessionId: args.sessionId,
+          // Entries only name their instance when several are configured.
+          instance: this.instances.size > 1 ? args.instance : undefined,
+          target: args.target,
+          outcome: args.outcome,
+          limit: args.limit
+        }));
+        return { count: entries.length, entries };
+      }
+
+      // Cache
+      case 'get_cache_stats': {
+        const stats = this.api.cacheStats();
+        return stats ? { enabled: true, ...stats } : { enabled: false };
+      }
+
       default:
         throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
     }
   }
 
-  private async getAllDevices(df?: string): Promise<any[]> {
-    const PAGE_SIZE = 1000;
-    const MAX_DEVICES = 10_000;
-    const allDevices: any[] = [];
-    let after: number | undefined;
-
-    while (allDevices.length < MAX_DEVICES) {
-      const batch = await this.api.getDevices(df, PAGE_SIZE, after);
-      if (!Array.isArray(batch) || batch.length === 0) break;
-      allDevices.push(...batch);
-      if (allDevices.length >= MAX_DEVICES) {
-        allDevices.length = MAX_DEVICES;
-        break;
+  /**
+   * Dry runs and the confirmation step for DESTRUCTIVE_TOOLS. Returns the
+   * result to send instead of running the tool, or undefined to go ahead.
+   */
+  private async holdDestructiveCall(name: string, args: any): Promise<object | undefined> {
+    const isDestructive = DESTRUCTIVE_TOOLS[name];
+    if (!isDestructive) return undefined;
+    if (args.dryRun === true) {
+      return { dryRun: true, ...(await this.describeAction(name, args)) };
+    }
+    const mode = this.settings.confirmation;
+    if (mode === 'off' || !isDestructive(args)) return undefined;
+
+    const fingerprint = callFingerprint(name, args);
+    if (args.confirmationToken !== undefined) {
+      if (this.confirmations.consume(String(args.confirmationToken), fingerprint)) return undefined;
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'confirmationToken is invalid, expired or was issued for different arguments. Call the tool again without it to get a new token.'
+      );
+    }
+
+    const preview = await this.describeAction(name, args);
+    if (mode === 'elicit' && this.server?.getClientCapabilities()?.elicitation) {
+      const signal = currentSignal();
+      try {
+        const answer = await this.server.elicitInput({
+          message: `${preview.action}. ${preview.effect} Approve?`,
+          requestedSchema: {
+            type: 'object',
+            properties: { confirm: { type: 'boolean', title: 'Approve this action' } },
+            required: ['confirm']
+          }
+        }, signal ? { signal } : {});
+        if (answer.action === 'accept' && answer.content?.confirm === true) return undefined;
+        return { confirmed: false, response: answer.action, ...preview };
+      } catch (error) {
+        if (signal?.aborted) throw new RequestCancelledError();
+        console.error('Elicitation failed, falling back to a confirmation token:', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    const { token, expiresAt } = this.confirmations.issue(fingerprint);
+    return {
+      confirmationRequired: true,
+      confirmationToken: token,
+      expiresAt,
+      ...preview,
+      instructions: 'Nothing has been changed. Show this action to the user. Only after they approve it, call the tool again with identical arguments plus this confirmationToken.'
+    };
+  }
+
+  /**
+   * Resolve what a destructive tool would act on, for dry runs and confirmations.
+   */
+  private async describeAction(name: string, args: any): Promise<{ action: string; effect: string; targets: unknown[]; details?: unknown }> {
+    switch (name) {
+      case 'reboot_device': {
+        const device = this.summarizeDevice(await this.api.getDevice(args.id));
+        return {
+          action: `Reboot ${device.name} (${args.mode})`,
+          effect: args.mode === 'FORCED'
+            ? 'The device restarts immediately; logged-on users lose unsaved work.'
+            : 'The device restarts through a normal operating system shutdown.',
+          targets: [device]
+        };
+      }
+      case 'apply_device_os_patches':
+      case 'apply_device_software_patches': {
+        const device = this.summarizeDevice(await this.api.getDevice(args.id));
+        const df = `id = ${args.id}`;
+        const patches = name === 'apply_device_os_patches'
+          ? ((await this.api.queryOSPatches(df, undefined, ToolHandler.MAX_PAGE_SIZE)).results ?? []).map((patch) =>
+              this.pruneUndefined({ name: patch.name, kbNumber: patch.kbNumber, severity: patch.severity, status: patch.status }))
+          : ((await this.api.querySoftwarePatches(df, undefined, ToolHandler.MAX_PAGE_SIZE)).results ?? []).map((patch) =>
+              this.pruneUndefined({ name: patch.title, impact: patch.impact, status: patch.status }));
+        const kind = name === 'apply_device_os_patches' ? 'OS' : 'software';
+        const approved = patches.filter((patch) => patch.status === 'APPROVED').length;
+        return {
+          action: `Install approved ${kind} patches on ${device.name}`,
+          effect: `Starts a patch job that installs the ${approved} ${kind} patch(es) approved by policy. The device may restart if a patch requires it.`,
+          targets: [device],
+          details: { patches }
+        };
       }
-      if (batch.length < PAGE_SIZE) break;
-      after = batch[batch.length - 1].id;
+      case 'approve_devices': {
+        const ids: number[] = args.deviceIds ?? [];
+        const devices = await Promise.all(ids.map(async (id) => this.summarizeDevice(await this.api.getDevice(id))));
+        return {
+          action: `${args.mode === 'REJECT' ? 'Reject' : 'Approve'} ${devices.length} device(s)`,
+          effect: args.mode === 'REJECT'
+            ? 'Rejected devices are removed from the approval queue and their agents cannot check in.'
+            : 'Approved devices become managed and start receiving policies.',
+          targets: devices
+        };
+      }
+      case 'delete_end_user': {
+        const user = await this.api.getEndUser(args.id);
+        return {
+          action: `Delete end user ${[user.firstName, user.lastName].filter(Boolean).join(' ') || args.id}`,
+          effect: 'The end user loses portal access; this cannot be undone.',
+          targets: [this.pruneUndefined({ id: user.id, firstName: user.firstName, lastName: user.lastName, email: user.email, organizationId: user.organizationId })]
+        };
+      }
+      case 'delete_contact': {
+        const contact = await this.api.getContact(args.id);
+        return {
+          action: `Delete contact ${[contact.firstName, contact.lastName].filter(Boolean).join(' ') || args.id}`,
+          effect: 'The contact is removed from its organization; this cannot be undone.',
+          targets: [this.pruneUndefined({ id: contact.id, firstName: contact.firstName, lastName: contact.lastName, email: contact.email, organizationId: contact.organizationId })]
+        };
+      }
+      default:
+        throw new McpError(ErrorCode.InternalError, `No action description for ${name}`);
     }
+  }
 
-    return allDevices;
+  private summarizeDevice(device: DeviceDetails) {
+    return {
+      id: device.id,
+      name: device.displayName || device.systemName || `Device ${device.id}`,
+      organizationId: device.organizationId,
+      locationId: device.locationId,
+      nodeClass: device.nodeClass,
+      offline: device.offline,
+      lastContact: this.formatEpochSeconds(device.lastContact)
+    };
+  }
+
+  /**
+   * Every device in scope, up to DEFAULT_MAX_RECORDS; `truncated` tells
+   * callers the fleet was larger than that.
+   */
+  private getAllDevices(df?: string) {
+    const scope = this.scope;
+    const filter = scope ? scope.restrictFilter(df) : df;
+    return collectPages(this.api.iterateDevices(filter), ToolHandler.DEFAULT_MAX_RECORDS, this.reportPageProgress('devices'));
   }
 
   private formatEpochSeconds(epoch: number | null | undefined): string | null {
@@ -1402,31 +2516,351 @@ class ToolHandler {
     };
   }
 
-  private async searchDevicesByName(searchName: string, limit: number) {
-    const devices = await this.getAllDevices();
-    const filtered = devices
-      .filter((device: any) =>
-        device.systemName?.toLowerCase().includes(searchName.toLowerCase()) ||
-        device.displayName?.toLowerCase().includes(searchName.toLowerCase())
-      )
-      .slice(0, limit);
+  private jobWaitTimeoutMs(requestedSeconds?: number): number {
+    const seconds = requestedSeconds ?? ToolHandler.DEFAULT_JOB_WAIT_SECONDS;
+    return Math.min(Math.max(1, seconds), ToolHandler.MAX_JOB_WAIT_SECONDS) * 1000;
+  }
+
+  /**
+   * Run a job-starting action, then block until the job it started on the
+   * device finishes (or the wait times out) and return both.
+   */
+  private async runAndWaitForJob(name: string, args: any) {
+    const { waitForJob: _wait, waitTimeoutSeconds, ...actionArgs } = args;
+    // Job timestamps are epoch seconds; allow for clock skew between us and NinjaOne.
+    const startedAfter = Date.now() / 1000 - ToolHandler.JOB_CLOCK_SKEW_SECONDS;
+    // run_device_script reports the jobs it started; other actions are matched
+    // by the jobs that appear after them.
+    const existingUids = name === 'run_device_script' ? [] : await this.deviceJobUids(args.id);
+    const result = await this.callAPIMethod(name, actionArgs);
+
+    const startedUids: string[] = name === 'run_device_script'
+      ? (result.jobs as DeviceJob[]).flatMap((job) => job.uid ? [job.uid] : [])
+      : [];
+    const job = await waitForDeviceJobs(this.api, args.id, {
+      ...(startedUids.length > 0 ? { uids: startedUids } : { existingUids }),
+      startedAfter,
+      timeoutMs: this.jobWaitTimeoutMs(waitTimeoutSeconds),
+      pollIntervalMs: ToolHandler.JOB_POLL_INTERVAL_MS
+    });
+    return { result, job };
+  }
+
+  /**
+   * Run a script or built-in action after checking it (and the run-as
+   * credential) against the device's scripting options, then report the
+   * device jobs that appeared since the run was queued.
+   */
+  private async runDeviceScript(args: any) {
+    const hasScript = args.scriptId !== undefined;
+    const hasAction = args.actionUid !== undefined;
+    if (hasScript === hasAction) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide exactly one of scriptId or actionUid');
+    }
+
+    const options = await this.api.getDeviceScriptingOptions(args.id);
+    const script = (options.scripts ?? []).find((candidate) => hasScript
+      ? candidate.type === 'SCRIPT' && candidate.id === args.scriptId
+      : candidate.type === 'ACTION' && candidate.uid === args.actionUid);
+    if (!script) {
+      const what = hasScript ? `Script ${args.scriptId}` : `Action ${args.actionUid}`;
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${what} is not available for device ${args.id}. Use get_device_scripting_options to list what can run on it.`
+      );
+    }
+
+    if (args.runAs !== undefined) {
+      const roles = options.credentials?.roles ?? [];
+      const credentialIds = (options.credentials?.credentials ?? []).map((credential) => String(credential.id));
+      if (!roles.includes(args.runAs) && !credentialIds.includes(String(args.runAs))) {
+        const valid = [...roles, ...credentialIds].join(', ') || 'none';
+        throw new McpError(ErrorCode.InvalidParams, `runAs ${args.runAs} is not available for device ${args.id}; valid values: ${valid}`);
+      }
+    }
+
+    const existingUids = new Set(await this.deviceJobUids(args.id));
+    const result = await this.api.runDeviceScript(args.id, this.pruneUndefined({
+      type: script.type,
+      id: hasScript ? args.scriptId : undefined,
+      uid: hasAction ? args.actionUid : undefined,
+      parameters: args.parameters,
+      runAs: args.runAs
+    }));
+    const jobs = await this.api.getDeviceJobs(args.id);
 
     return {
-      searchTerm: searchName,
-      totalDevices: devices.length,
-      totalFound: filtered.length,
-      devices: filtered
+      deviceId: args.id,
+      script: { type: script.type, id: script.id, uid: script.uid, name: script.name, language: script.language },
+      result: result ?? null,
+      jobs: jobs.filter((job) => job.uid !== undefined && !existingUids.has(job.uid))
+    };
+  }
+
+  /** UIDs of the jobs listed on a device, to tell them apart from jobs an action starts. */
+  private async deviceJobUids(deviceId: number): Promise<string[]> {
+    return (await this.api.getDeviceJobs(deviceId)).flatMap((job) => job.uid ? [job.uid] : []);
+  }
+
+  /**
+   * Open a ticket, optionally from an alert. The alert supplies the device,
+   * organization, subject and description unless they are given explicitly.
+   */
+  private async createTicket(args: any) {
+    let clientId: number | undefined = args.organizationId;
+    let nodeId: number | undefined = args.deviceId;
+    let locationId: number | undefined = args.locationId;
+    let subject: string | undefined = args.subject;
+    let description: string | undefined = args.description;
+
+    if (args.alertUid) {
+      const alert = await this.api.getAlert(args.alertUid);
+      nodeId ??= alert.deviceId ?? alert.device?.id;
+      clientId ??= alert.device?.organizationId;
+      locationId ??= alert.device?.locationId;
+      subject ??= alert.subject || alert.message;
+      description ??= this.describeAlert(alert);
+    }
+    if (clientId === undefined && nodeId !== undefined) {
+      const device = await this.api.getDevice(nodeId);
+      clientId = device.organizationId;
+      locationId ??= device.locationId;
+    }
+    if (clientId === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, 'organizationId is required unless deviceId or alertUid identifies the device');
+    }
+    if (!subject) {
+      throw new McpError(ErrorCode.InvalidParams, 'subject is required unless alertUid is given');
+    }
+
+    const status: string = args.status ?? ToolHandler.DEFAULT_TICKET_STATUS;
+    const attributes = this.toTicketAttributes(args.attributes);
+    await this.validateTicketFields(args.ticketFormId, status, attributes);
+
+    return this.api.createTicket(this.pruneUndefined({
+      clientId,
+      ticketFormId: args.ticketFormId,
+      locationId,
+      nodeId,
+      subject: subject.slice(0, 200),
+      description: description ? { public: false, body: description } : undefined,
+      status,
+      type: args.type,
+      priority: args.priority ?? null,
+      severity: args.severity ?? null,
+      requesterUid: args.requesterUid,
+      assignedAppUserId: args.assignedAppUserId,
+      tags: args.tags,
+      attributes: attributes.length > 0 ? attributes : undefined
+    }) as NewTicket);
+  }
+
+  /**
+   * Change a ticket. The API only accepts a full replacement with the current
+   * version, so unchanged fields are carried over from the ticket as it stands.
+   */
+  private async updateTicket(args: any) {
+    const current = await this.api.getTicket(args.ticketId);
+    const formId = current.ticketFormId;
+
+    const attributes = new Map<number, TicketAttributeValue>();
+    for (const value of current.attributeValues ?? []) {
+      if (value.attributeId === undefined || value.value === undefined) continue;
+      attributes.set(value.attributeId, {
+        ...(value.id !== undefined ? { id: value.id } : {}),
+        attributeId: value.attributeId,
+        value: typeof value.value === 'string' ? value.value : JSON.stringify(value.value)
+      });
+    }
+    for (const value of this.toTicketAttributes(args.attributes)) {
+      const existing = attributes.get(value.attributeId);
+      attributes.set(value.attributeId, { ...existing, ...value });
+    }
+    const mergedAttributes = [...attributes.values()];
+
+    if (formId !== undefined && (args.status !== undefined || args.attributes !== undefined)) {
+      await this.validateTicketFields(formId, args.status, mergedAttributes);
+    }
+
+    return this.api.updateTicket(args.ticketId, this.pruneUndefined({
+      version: current.version,
+      clientId: current.clientId,
+      ticketFormId: formId,
+      locationId: current.locationId,
+      nodeId: current.nodeId,
+      subject: args.subject ?? current.subject,
+      status: args.status ?? (current.status?.statusId !== undefined ? String(current.status.statusId) : undefined),
+      type: args.type ?? current.type,
+      cc: current.ccList,
+      assignedAppUserId: args.assignedAppUserId ?? current.assignedAppUserId,
+      requesterUid: current.requesterUid,
+      severity: args.severity ?? current.severity ?? null,
+      priority: args.priority ?? current.priority ?? null,
+      tags: args.tags ?? current.tags,
+      attributes: mergedAttributes,
+      additionalAssignedTechnicianIds: current.additionalAssignedTechnicianIds,
+      followupTime: current.followupTime
+    }) as UpdateTicket);
+  }
+
+  /**
+   * Check a ticket against its form before submitting it, so the agent gets
+   * the valid statuses and the missing required fields in one error instead
+   * of NinjaOne's generic 400.
+   */
+  private async validateTicketFields(formId: number, status: string | undefined, attributes: TicketAttributeValue[]) {
+    const [form, statuses] = await Promise.all([
+      this.api.getTicketForm(formId),
+      this.api.getTicketStatuses()
+    ]);
+    const problems: string[] = [];
+
+    if (status !== undefined && !statuses.some((s) => String(s.statusId) === String(status))) {
+      const valid = statuses.map((s) => `${s.statusId} (${s.displayName ?? s.name})`).join(', ');
+      problems.push(`status ${status} does not exist; valid statuses: ${valid}`);
+    }
+
+    const fields = (form.fields ?? []).filter((field) => field.active !== false && !field.system);
+    const provided = new Set(attributes.map((a) => a.attributeId));
+    const missing = fields.filter((field) =>
+      field.content?.required && field.id !== undefined && !provided.has(field.id)
+    );
+    if (missing.length > 0) {
+      problems.push(`form ${formId} requires: ${missing.map((f) => `${f.name} (attributeId ${f.id})`).join(', ')}`);
+    }
+
+    const known = new Set((form.fields ?? []).map((field) => field.id));
+    const unknown = attributes.filter((a) => !known.has(a.attributeId));
+    if (unknown.length > 0) {
+      problems.push(`attributes not on form ${formId}: ${unknown.map((a) => a.attributeId).join(', ')}`);
+    }
+
+    if (problems.length > 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Ticket validation failed: ${problems.join('; ')}`);
+    }
+  }
+
+  private toTicketAttributes(raw: unknown): TicketAttributeValue[] {
+    if (raw === undefined || raw === null) return [];
+    if (!Array.isArray(raw)) {
+      throw new McpError(ErrorCode.InvalidParams, 'attributes must be an array of { attributeId, value }');
+    }
+    return raw.map((entry) => {
+      if (typeof entry?.attributeId !== 'number' || entry.value === undefined || entry.value === null) {
+        throw new McpError(ErrorCode.InvalidParams, 'Each attribute needs a numeric attributeId and a value');
+      }
+      return {
+        attributeId: entry.attributeId,
+        value: typeof entry.value === 'string' ? entry.value : JSON.stringify(entry.value)
+      };
+    });
+  }
+
+  private describeAlert(alert: Alert): string {
+    const device = alert.device;
+    const lines = [
+      alert.message ? `Alert: ${alert.message}` : undefined,
+      alert.sourceName || alert.sourceType ? `Source: ${[alert.sourceName, alert.sourceType].filter(Boolean).join(' / ')}` : undefined,
+      alert.conditionName ? `Condition: ${alert.conditionName}` : undefined,
+      device ? `Device: ${device.displayName || device.systemName || 'unknown'} (ID ${device.id ?? alert.deviceId})` : undefined,
+      alert.createTime ? `Raised: ${new Date(alert.createTime * 1000).toISOString()}` : undefined,
+      `Alert UID: ${alert.uid}`
+    ];
+    return lines.filter((line) => line !== undefined).join('\n');
+  }
+
+  private pruneUndefined<T extends Record<string, unknown>>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+  }
+
+  /**
+   * Search the device index, or NinjaONE's /v2/devices/search when there is
+   * no index or it is still being built. Attribute lookups (IP, MAC, serial,
+   * user) need the index and wait for its first build.
+   */
+  private async findDevices(
+    criteria: DeviceSearchCriteria,
+    limit: number,
+    source: 'auto' | 'index' | 'api' = 'auto',
+    rebuild = false
+  ) {
+    const text = criteria.query ?? criteria.name;
+    const lookups = (['ip', 'mac', 'serial', 'user'] as const).filter((key) => criteria[key] !== undefined);
+    if (text === undefined && lookups.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'Provide query, name, ip, mac, serial or user');
+    }
+
+    const index = this.instance.deviceIndex;
+    const useApi = source === 'api'
+      || (source === 'auto' && !rebuild && !index?.ready && text !== undefined && lookups.length === 0);
+    if (useApi) {
+      if (text === undefined || lookups.length > 0 || (criteria.query !== undefined && criteria.name !== undefined)) {
+        throw new McpError(ErrorCode.InvalidParams, 'NinjaONE device search takes a single query or name; use the device index for IP, MAC, serial and user lookups');
+      }
+      index?.ensureFresh();
+      return this.searchDevicesRemotely(text, criteria.organizationId, limit);
+    }
+
+    if (!index) {
+      throw new McpError(ErrorCode.InvalidRequest, 'The device index is disabled (NINJA_DEVICE_INDEX=off); IP, MAC, serial and user lookups need it');
+    }
+    if (rebuild || !index.ready) {
+      await index.refresh();
+      if (!index.ready) {
+        throw new McpError(ErrorCode.InternalError, `The device index could not be built: ${index.status().lastError ?? 'unknown error'}`);
+      }
+    }
+    index.ensureFresh();
+
+    const scope = this.scope;
+    const matches = index.search(criteria, scope ? (device) => scope.includes(device.organizationId) : undefined);
+    return {
+      source: 'index',
+      totalDevices: index.size,
+      totalFound: matches.length,
+      devices: matches.slice(0, limit).map(({ device, score, matchedOn }) => ({ ...device, score, matchedOn })),
+      index: index.status()
+    };
+  }
+
+  private async searchDevicesRemotely(text: string, organizationId: number | undefined, limit: number) {
+    const scope = this.scope;
+    const { devices = [] } = await this.api.searchDevices(text, organizationId !== undefined || scope ? undefined : limit);
+    const matches = devices.filter((device: DeviceSearchMatch) =>
+      (organizationId === undefined || device.organizationId === organizationId)
+      && (!scope || scope.includes(device.organizationId))
+    );
+    return {
+      source: 'api',
+      totalDevices: null,
+      totalFound: matches.length,
+      devices: matches.slice(0, limit).map(({ matchAttr, matchAttrValue, ...device }) => ({
+        ...device,
+        ...(matchAttr ? { matchedOn: { query: matchAttr } } : {}),
+        ...(matchAttrValue !== undefined ? { matchedValue: matchAttrValue } : {})
+      })),
+      ...(this.instance.deviceIndex ? { index: this.instance.deviceIndex.status() } : {})
     };
   }
 
   private async findWindows11Devices(limit: number) {
-    const devices = await this.getAllDevices();
-    const windowsDevices = devices.filter((device: any) => 
+    const { results: devices, truncated } = await this.getAllDevices();
+    const windowsDevices = devices.filter((device) =>
       device.nodeClass === 'WINDOWS_WORKSTATION' || device.nodeClass === 'WINDOWS_SERVER'
     );
 
-    const windows11Devices = [];
-    for (const device of windowsDevices.slice(0, 50)) {
+    const windows11Devices: Windows11Device[] = [];
+    const candidates = windowsDevices.slice(0, 50);
+    let checked = 0;
+    for (const device of candidates) {
+      checked++;
+      // Continue the progress count from the device listing so it keeps increasing.
+      await reportProgress(
+        devices.length + checked,
+        devices.length + candidates.length,
+        `Checking Windows device ${checked} of ${candidates.length}`
+      );
+      if (device.id === undefined) continue;
       try {
         const details = await this.api.getDevice(device.id);
         if (details.os?.name?.includes('Windows 11')) {
@@ -1445,6 +2879,7 @@ class ToolHandler {
           if (windows11Devices.length >= limit) break;
         }
       } catch (error) {
+        if (error instanceof RequestCancelledError) throw error;
         continue;
       }
     }
@@ -1452,7 +2887,8 @@ class ToolHandler {
     return {
       totalDevices: devices.length,
       totalFound: windows11Devices.length,
-      devices: windows11Devices
+      devices: windows11Devices,
+      ...(truncated ? { truncated } : {})
     };
   }
 
@@ -1460,31 +2896,130 @@ class ToolHandler {
 
 class NinjaOneMCPServer {
   private server: Server;
-  private api: NinjaOneAPI;
+  private instances: InstanceRegistry;
+  private settings: ServerSettings;
+  private apiKeys: ApiKeyStore | undefined;
 
-  constructor() {
+  constructor(inlineInstances?: InstancesFile) {
     try {
-      this.api = new NinjaOneAPI();
-      this.server = createMCPServer(this.api);
+      const auditLog = AuditLog.fromEnv();
+      const policy = ToolPolicy.fromEnv();
+      const scopes = InstanceScopes.fromEnv();
+      // Each instance gets its own cache, limits, cassette, token cache and
+      // device index; profile instances also get their own files for the last three.
+      this.instances = InstanceRegistry.fromEnv((name: string, profile?: InstanceProfile): NinjaInstance => {
+        const cache = ResponseCache.fromEnv();
+        const cassette = Cassette.fromEnv(process.env, profile?.name);
+        const tokenStore = TokenStore.fromEnv(process.env, profile?.name);
+        const api = new NinjaOneAPI({
+          ...(profile ? { connection: profile, instance: profile.name } : {}),
+          ...(auditLog ? { auditLog } : {}),
+          ...(cache ? { cache } : {}),
+          limiter: RequestLimiter.fromEnv(),
+          ...(cassette ? { cassette } : {}),
+          ...(tokenStore ? { tokenStore } : {})
+        });
+        // An instance without organizations in scope is never called, so it needs no index.
+        const scope = scopes?.get(name);
+        const deviceIndex = scopes && !scope ? undefined : DeviceIndex.fromEnv(api, scope, process.env, profile?.name);
+        return {
+          name,
+          ...(profile?.description ? { description: profile.description } : {}),
+          api,
+          ...(deviceIndex ? { deviceIndex } : {})
+        };
+      }, process.env, inlineInstances);
+      this.settings = {
+        policy,
+        ...(scopes ? { scopes } : {}),
+        confirmation: confirmationModeFromEnv(),
+        ...(auditLog ? { auditLog } : {})
+      };
+      const toolNames = TOOLS.map((tool) => tool.name);
+      const unknown = policy.unknownEntries(toolNames);
+      if (unknown.length > 0) {
+        console.error(`Ignoring unknown tool names or categories in NINJA_TOOLS_ALLOW/NINJA_TOOLS_DENY: ${unknown.join(', ')}`);
+      }
+      scopes?.validate(this.instances.names, 'NINJA_ORGANIZATION_SCOPE');
+      this.apiKeys = ApiKeyStore.fromEnv();
+      if (this.apiKeys) {
+        this.apiKeys.validateScopes(this.instances.names);
+        const unknownInRoles = [...new Set(this.apiKeys.policies().flatMap((role) => role.unknownEntries(toolNames)))];
+        if (unknownInRoles.length > 0) {
+          console.error(`Ignoring unknown tool names or categories in API key roles: ${unknownInRoles.join(', ')}`);
+        }
+        console.error(`Loaded ${this.apiKeys.size} API key(s) from ${process.env.MCP_API_KEYS_FILE}`);
+      }
+      if (process.env.NINJA_INSTANCES_FILE?.trim() || inlineInstances) {
+        console.error(`Instances: ${this.instances.describe()}`);
+      }
+      console.error(`Tool policy: ${policy.describe()}`);
+      if (scopes) {
+        console.error(`Organization scope: ${scopes.describe()}`);
+      }
+      if (auditLog) {
+        console.error(`Audit log: ${auditLog.path}`);
+      }
+      const cache = ResponseCache.fromEnv();
+      console.error(`Response cache${this.instances.size > 1 ? ' (per instance)' : ''}: ${cache ? cache.describe() : 'off'}`);
+      console.error(`Request limits${this.instances.size > 1 ? ' (per instance)' : ''}: ${RequestLimiter.fromEnv().describe()}`);
+      const tokenStore = TokenStore.fromEnv();
+      if (tokenStore) {
+        console.error(`OAuth token cache: ${tokenStore.path}${this.instances.size > 1 ? ' (one file per instance)' : ''}`);
+      }
+      const cassette = Cassette.fromEnv();
+      if (cassette) {
+        console.error(`HTTP cassette: ${cassette.describe()}${this.instances.size > 1 ? ' (one file per instance)' : ''}`);
+      }
+      if (this.settings.confirmation !== 'off') {
+        console.error(`Destructive actions require confirmation (${this.settings.confirmation})`);
+      }
+      this.server = createMCPServer(this.instances, this.settings);
     } catch (error) {
       console.error('Failed to initialize NinjaONE MCP Server:', error);
       throw error;
     }
   }
 
+  /**
+   * NinjaOne client load for /health/details: request queue depth and throttle
+   * waits, cache hit rates and the device index, keyed by instance when
+   * there are several.
+   */
+  private healthDetails(): Record<string, unknown> {
+    const details = (instance: NinjaInstance) => {
+      const requests = instance.api.requestStats();
+      const cache = instance.api.cacheStats();
+      return {
+        ...(requests ? { requests } : {}),
+        ...(cache ? { cache } : {}),
+        ...(instance.deviceIndex ? { deviceIndex: instance.deviceIndex.status() } : {})
+      };
+    };
+    if (this.instances.size === 1) return details(this.instances.default);
+    return { instances: Object.fromEntries(this.instances.list().map((instance) => [instance.name, details(instance)])) };
+  }
+
+  private async loadDeviceIndexes() {
+    await Promise.all(this.instances.list().map((instance) => instance.deviceIndex?.load()));
+  }
+
   async runStdio() {
+    await this.loadDeviceIndexes();
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     console.error('NinjaONE MCP server running on STDIO transport');
   }
 
   async runHttp(port = 3000) {
-    await createHttpServer(() => createMCPServer(this.api), port);
+    await this.loadDeviceIndexes();
+    await createHttpServer((identity) => createMCPServer(this.instances, this.settings, identity), port, this.apiKeys, () => this.healthDetails());
     console.error(`NinjaONE MCP server running on HTTP transport at port ${port}`);
   }
 
   async runSse(port = 3001) {
-    await createSseServer(() => createMCPServer(this.api), port);
+    await this.loadDeviceIndexes();
+    await createSseServer((identity) => createMCPServer(this.instances, this.settings, identity), port, this.apiKeys, () => this.healthDetails());
     console.error(`NinjaONE MCP server running on SSE transport at port ${port}`);
   }
 }
@@ -1493,6 +3028,28 @@ class NinjaOneMCPServer {
  * Main entry point with transport selection
  */
 async function main() {
+  let fileConfig: LoadedConfig | undefined;
+  try {
+    const options = parseCommandLine();
+    // Environment variables, including .env, override the config file.
+    readSecretFiles();
+    fileConfig = loadConfig(options);
+    if (fileConfig) {
+      const overridden = applyConfig(fileConfig);
+      if (!options.printConfig) {
+        console.error(`Config file: ${fileConfig.path}${fileConfig.profile ? ` (profile ${fileConfig.profile})` : ''}`);
+        if (overridden.length > 0) console.error(`Overridden by the environment: ${overridden.join(', ')}`);
+      }
+    }
+    if (options.printConfig) {
+      process.stdout.write(formatEffectiveConfig(fileConfig));
+      process.exit(0);
+    }
+  } catch (error) {
+    console.error(`FATAL: ${error instanceof Error ? error.message : String(error)}`);
+    process.exit(1);
+  }
+
   const VALID_MODES = ['stdio', 'http', 'sse'] as const;
   const rawMode = (process.env.MCP_MODE || 'stdio').toLowerCase();
   if (!VALID_MODES.includes(rawMode as typeof VALID_MODES[number])) {
@@ -1500,13 +3057,13 @@ async function main() {
     process.exit(1);
   }
   const mode = rawMode as typeof VALID_MODES[number];
-  const server = new NinjaOneMCPServer();
+  const server = new NinjaOneMCPServer(fileConfig?.instances);
 
   try {
     switch (mode) {
       case 'http': {
-        if (!process.env.MCP_AUTH_TOKEN?.trim()) {
-          console.error('FATAL: MCP_AUTH_TOKEN is required in HTTP mode. Set it to a strong random string.');
+        if (!process.env.MCP_AUTH_TOKEN?.trim() && !process.env.MCP_API_KEYS_FILE?.trim()) {
+          console.error('FATAL: MCP_AUTH_TOKEN or MCP_API_KEYS_FILE is required in HTTP mode. Set a strong random token or configure API keys.');
           process.exit(1);
         }
         const httpPort = parseInt(process.env.HTTP_PORT || '3000', 10);
@@ -1514,8 +3071,8 @@ async function main() {
         break;
       }
       case 'sse': {
-        if (!process.env.MCP_AUTH_TOKEN?.trim()) {
-          console.error('FATAL: MCP_AUTH_TOKEN is required in SSE mode. Set it to a strong random string.');
+        if (!process.env.MCP_AUTH_TOKEN?.trim() && !process.env.MCP_API_KEYS_FILE?.trim()) {
+          console.error('FATAL: MCP_AUTH_TOKEN or MCP_API_KEYS_FILE is required in SSE mode. Set a strong random token or configure API keys.');
           process.exit(1);
         }
         const ssePort = parseInt(process.env.SSE_PORT || '3001', 10);
@@ -1533,19 +3090,21 @@ async function main() {
   }
 }
 
-// Handle graceful shutdown
-process.on('SIGINT', () => {
-  console.error('Received SIGINT, shutting down gracefully...');
-  process.exit(0);
-});
-
-process.on('SIGTERM', () => {
-  console.error('Received SIGTERM, shutting down gracefully...');
-  process.exit(0);
-});
-
-// Start the server
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+// Start the server when run directly; the offline test suite imports createMCPServer instead.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  // Handle graceful shutdown
+  process.on('SIGINT', () => {
+    console.error('Received SIGINT, shutting down gracefully...');
+    process.exit(0);
+  });
+
+  process.on('SIGTERM', () => {
+    console.error('Received SIGTERM, shutting down gracefully...');
+    process.exit(0);
+  });
+
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Named NinjaOne instances served by one process.
+ * NINJA_INSTANCES_FILE points to a JSON file of instance profiles, each with
+ * its own credentials and region. Every profile gets its own NinjaOneAPI, so
+ * OAuth tokens, cached responses, request limits and the device index are
+ * never shared between tenants. Tools pick a profile with their `instance`
+ * argument; without the file the NINJA_* variables describe a single
+ * instance named "default". A config file (config.ts) may define the same
+ * profiles inline under `instances`.
+ */
+
+import { readFileSync } from 'fs';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { DeviceIndex } from './device-index.js';
+import type { NinjaOneAPI, NinjaOneConnection } from './ninja-api.js';
+
+export interface InstanceProfile extends NinjaOneConnection {
+  name: string;
+  description?: string;
+}
+
+export interface InstancesFile {
+  /** Profile used when a tool call names no instance; defaults to the first one. */
+  default?: string;
+  instances: Record<string, Omit<InstanceProfile, 'name'>>;
+}
+
+export interface NinjaInstance {
+  name: string;
+  description?: string;
+  api: NinjaOneAPI;
+  deviceIndex?: DeviceIndex;
+}
+
+/** Name of the single instance configured through environment variables. */
+export const DEFAULT_INSTANCE = 'default';
+
+/** Instance names appear in file names (device index, cassettes), so keep them simple. */
+const INSTANCE_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * A per-instance variant of a state file: `devices.json` becomes
+ * `devices.eu.json` for instance "eu". Without an instance the path is unchanged.
+ */
+export function instanceFilePath(path: string, instance?: string): string {
+  if (!instance) return path;
+  const extension = /\.[^./\\]+$/.exec(path)?.[0] ?? '';
+  return `${path.slice(0, path.length - extension.length)}.${instance}${extension}`;
+}
+
+/**
+ * Parse and check an instances file. Throws on the first problem found.
+ */
+export function parseInstancesFile(config: InstancesFile, source = 'instances file'): { profiles: InstanceProfile[]; defaultName: string } {
+  if (!config || typeof config !== 'object' || !config.instances || typeof config.instances !== 'object') {
+    throw new Error(`${source}: expected an object with "instances"`);
+  }
+  const profiles = Object.entries(config.instances).map(([name, definition]): InstanceProfile => {
+    if (!INSTANCE_NAME.test(name)) {
+      throw new Error(`${source}: instance name "${name}" may only contain letters, digits, "-" and "_"`);
+    }
+    const { clientId, clientSecret, baseUrl, region, description } = definition ?? {};
+    if (typeof clientId !== 'string' || !clientId.trim() || typeof clientSecret !== 'string' || !clientSecret.trim()) {
+      throw new Error(`${source}: instance "${name}" needs "clientId" and "clientSecret"`);
+    }
+    return {
+      name,
+      clientId: clientId.trim(),
+      clientSecret: clientSecret.trim(),
+      ...(baseUrl ? { baseUrl } : {}),
+      ...(region ? { region } : {}),
+      ...(description ? { description } : {})
+    };
+  });
+  if (profiles.length === 0) throw new Error(`${source}: no instances defined`);
+
+  const defaultName = config.default ?? profiles[0]!.name;
+  if (!profiles.some((profile) => profile.name === defaultName)) {
+    throw new Error(`${source}: default instance "${defaultName}" is not defined`);
+  }
+  return { profiles, defaultName };
+}
+
+export class InstanceRegistry {
+  private readonly instances = new Map<string, NinjaInstance>();
+
+  constructor(instances: NinjaInstance[], private readonly defaultName = instances[0]?.name ?? DEFAULT_INSTANCE) {
+    for (const instance of instances) this.instances.set(instance.name, instance);
+    if (!this.instances.has(defaultName)) {
+      throw new Error(`Default instance "${defaultName}" is not configured`);
+    }
+  }
+
+  /**
+   * Load NINJA_INSTANCES_FILE, or else the config file's inline instances,
+   * and build each profile with `create`. Without either, `create` builds
+   * the single "default" instance from the environment and receives no profile.
+   */
+  static fromEnv(
+    create: (name: string, profile?: InstanceProfile) => NinjaInstance,
+    env: NodeJS.ProcessEnv = process.env,
+    inline?: InstancesFile
+  ): InstanceRegistry {
+    const path = env.NINJA_INSTANCES_FILE?.trim();
+    if (!path && inline) {
+      const { profiles, defaultName } = parseInstancesFile(inline, 'config file instances');
+      return new InstanceRegistry(profiles.map((profile) => create(profile.name, profile)), defaultName);
+    }
+    if (!path) return new InstanceRegistry([create(DEFAULT_INSTANCE)]);
+    let config: InstancesFile;
+    try {
+      config = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Cannot read instances file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const { profiles, defaultName } = parseInstancesFile(config, path);
+    return new InstanceRegistry(profiles.map((profile) => create(profile.name, profile)), defaultName);
+  }
+
+  get size(): number {
+    return this.instances.size;
+  }
+
+  get names(): string[] {
+    return [...this.instances.keys()];
+  }
+
+  get default(): NinjaInstance {
+    return this.instances.get(this.defaultName)!;
+  }
+
+  isDefault(name: string): boolean {
+    return name === this.defaultName;
+  }
+
+  /** The named instance, or the default one when no name is given. */
+  get(name?: string): NinjaInstance {
+    if (name === undefined) return this.default;
+    const instance = this.instances.get(name);
+    if (!instance) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown instance "${name}". Configured instances: ${this.names.join(', ')}`);
+    }
+    return instance;
+  }
+
+  list(): NinjaInstance[] {
+    return [...this.instances.values()];
+  }
+
+  describe(): string {
+    return this.list()
+      .map((instance) => `${instance.name}${this.isDefault(instance.name) ? ' (default)' : ''}: ${instance.api.getBaseUrl() ?? 'auto-detect'}`)
+      .join(', ');
+  }
+}
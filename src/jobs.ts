@@ -0,0 +1,144 @@
+/**
+ * Job tracking for fire-and-forget device actions.
+ * NinjaOne only lists jobs while they run (/v2/device/{id}/jobs); once a job
+ * finishes it drops out of that list and its outcome is recorded as device
+ * activities sharing the job's series UID. waitForDeviceJobs polls the
+ * active list until the tracked jobs are gone, then reads those activities.
+ * Only jobs known by UID are followed: either given up front, or new in
+ * the list compared with a snapshot taken before the action.
+ */
+
+import { delay, reportProgress } from './context.js';
+import type { NinjaOneAPI } from './ninja-api.js';
+import type { DeviceActivity, DeviceJob, JobStatus } from './types/models.js';
+
+/** Job states that mean the job is still queued or running. */
+const ACTIVE_JOB_STATUSES: ReadonlySet<JobStatus> = new Set<JobStatus>([
+  'START_REQUESTED',
+  'STARTED',
+  'IN_PROCESS',
+  'CANCEL_REQUESTED',
+  'WAITING_FOR_USER_RESPONSE',
+  'TRIGGERED'
+]);
+
+const ACTIVITY_PAGE_SIZE = 100;
+
+export interface WaitForJobOptions {
+  /** Follow these jobs (series UIDs). */
+  uids?: readonly string[];
+  /**
+   * Without uids: the device's job UIDs from before the action. Jobs that
+   * appear and are not listed here are followed.
+   */
+  existingUids?: readonly string[];
+  /** Epoch seconds; jobs and activities older than this are ignored. */
+  startedAfter: number;
+  timeoutMs: number;
+  pollIntervalMs: number;
+}
+
+export interface JobWaitResult {
+  deviceId: number;
+  /**
+   * COMPLETED: every tracked job finished. TIMEOUT: jobs were still running
+   * (or never appeared). NO_RUNNING_JOBS: there was nothing to wait for.
+   */
+  status: 'COMPLETED' | 'TIMEOUT' | 'NO_RUNNING_JOBS';
+  waitedMs: number;
+  /** Tracked jobs still listed as running at the last poll. */
+  runningJobs: DeviceJob[];
+  /** Final activity of each finished job, including its result and output. */
+  results: DeviceActivity[];
+}
+
+export function isJobActive(job: DeviceJob): boolean {
+  return job.jobStatus === undefined || ACTIVE_JOB_STATUSES.has(job.jobStatus);
+}
+
+/**
+ * Poll a device until the tracked job(s) finish or the timeout passes.
+ */
+export async function waitForDeviceJobs(
+  api: NinjaOneAPI,
+  deviceId: number,
+  options: WaitForJobOptions
+): Promise<JobWaitResult> {
+  const started = Date.now();
+  const uids = options.uids && options.uids.length > 0 ? new Set(options.uids) : undefined;
+  const existing = new Set(options.existingUids);
+  const tracked = new Set<string>(uids);
+  let sawRunning = false;
+  let running: DeviceJob[] = [];
+
+  while (true) {
+    const jobs = await api.getDeviceJobs(deviceId);
+    running = jobs.filter((job) => job.uid !== undefined && (uids ? uids.has(job.uid) : !existing.has(job.uid)));
+    for (const job of running) {
+      tracked.add(job.uid!);
+    }
+
+    if (running.some(isJobActive)) {
+      sawRunning = true;
+    } else if (tracked.size > 0) {
+      // A job that finished before the first poll only shows up as activities.
+      const results = await findFinalActivities(api, deviceId, tracked, options.startedAfter);
+      if (results.length > 0 || sawRunning) {
+        return { deviceId, status: 'COMPLETED', waitedMs: Date.now() - started, runningJobs: [], results };
+      }
+    }
+
+    const elapsed = Date.now() - started;
+    if (elapsed + options.pollIntervalMs > options.timeoutMs) {
+      return { deviceId, status: 'TIMEOUT', waitedMs: elapsed, runningJobs: running, results: [] };
+    }
+    await reportProgress(elapsed, options.timeoutMs, `Device ${deviceId}: ${running.length} job(s) running after ${Math.round(elapsed / 1000)}s`);
+    await delay(options.pollIntervalMs);
+  }
+}
+
+/**
+ * Follow only the jobs running on a device right now, so a device with no
+ * running jobs reports NO_RUNNING_JOBS instead of its past activities.
+ */
+export async function waitForRunningJobs(
+  api: NinjaOneAPI,
+  deviceId: number,
+  options: Omit<WaitForJobOptions, 'uids'>
+): Promise<JobWaitResult> {
+  const uids = (await api.getDeviceJobs(deviceId))
+    .filter(isJobActive)
+    .flatMap((job) => job.uid ? [job.uid] : []);
+  if (uids.length === 0) {
+    return { deviceId, status: 'NO_RUNNING_JOBS', waitedMs: 0, runningJobs: [], results: [] };
+  }
+  return waitForDeviceJobs(api, deviceId, { ...options, uids });
+}
+
+/**
+ * Latest finished activity of each tracked job series since startedAfter.
+ */
+async function findFinalActivities(
+  api: NinjaOneAPI,
+  deviceId: number,
+  uids: ReadonlySet<string>,
+  startedAfter: number
+): Promise<DeviceActivity[]> {
+  const activities: DeviceActivity[] = [];
+  for (const uid of uids) {
+    const response = await api.getDeviceActivities(deviceId, ACTIVITY_PAGE_SIZE, undefined, uid);
+    activities.push(...(response.activities ?? []));
+  }
+
+  const finalBySeries = new Map<string, DeviceActivity>();
+  for (const activity of activities) {
+    if (!activity.seriesUid || activity.statusCode === undefined) continue;
+    if ((activity.activityTime ?? 0) < startedAfter) continue;
+    if (ACTIVE_JOB_STATUSES.has(activity.statusCode as JobStatus)) continue;
+    const current = finalBySeries.get(activity.seriesUid);
+    if (!current || (activity.activityTime ?? 0) > (current.activityTime ?? 0)) {
+      finalBySeries.set(activity.seriesUid, activity);
+    }
+  }
+  return [...finalBySeries.values()];
+}
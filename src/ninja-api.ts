@@ -1,3 +1,74 @@
+import {
+  NinjaOneAuthError,
+  NinjaOneTimeoutError,
+  NinjaOneUpstreamError,
+  RequestCancelledError,
+  errorFromResponse,
+} from './errors.js';
+import { currentContext, currentSignal, delay, isCancelled, runOutsideCallContext, throwIfCancelled } from './context.js';
+import { auditTarget, sanitizeArguments } from './audit-log.js';
+import type { AuditLog } from './audit-log.js';
+import { CassetteMissError } from './cassette.js';
+import type { Cassette } from './cassette.js';
+import type { StoredToken, TokenStore } from './token-store.js';
+import type { CacheStats, ResponseCache } from './response-cache.js';
+import type { RequestLimiter, RequestLimiterStats } from './request-limiter.js';
+import { paginateByCursor, paginateById } from './pagination.js';
+import type {
+  ActivitiesResponse,
+  Alert,
+  ApiPath,
+  AutomationScript,
+  Contact,
+  CustomFieldValues,
+  Device,
+  DeviceActivities,
+  DeviceDetailedListItem,
+  DeviceDetails,
+  DeviceJob,
+  DevicePolicyOverrides,
+  DeviceSearchResults,
+  DeviceSoftware,
+  EndUser,
+  Group,
+  HttpMethod,
+  Job,
+  Location,
+  NewTicket,
+  Organization,
+  OrganizationDetailed,
+  PathParams,
+  Policy,
+  QueryPath,
+  QueryRecord,
+  QueryResponse,
+  RequestBody,
+  ResponseBody,
+  ScheduledTask,
+  ScriptRunRequest,
+  ScriptingOptions,
+  Technician,
+  Ticket,
+  TicketAttribute,
+  TicketBoard,
+  TicketBoardQuery,
+  TicketBoardResult,
+  TicketComment,
+  TicketForm,
+  TicketLogEntry,
+  TicketLogEntryType,
+  TicketStatus,
+  UpdateTicket,
+} from './types/models.js';
+
+/**
+ * POST endpoints that only read, e.g. running a ticket board: they are
+ * neither audited nor invalidate cached responses.
+ */
+const READ_ONLY_POSTS: readonly RegExp[] = [
+  /^\/v2\/ticketing\/trigger\/board\/\d+\/run$/
+];
+
 type CreateEndUserPayload = {
   firstName: string;
   lastName: string;
@@ -7,19 +78,83 @@ type CreateEndUserPayload = {
   fullPortalAccess?: boolean;
 };
 
+export type WindowsServiceAction = 'START' | 'PAUSE' | 'STOP' | 'RESTART';
+export type WindowsServiceStartupType = 'AUTOMATIC' | 'MANUAL' | 'DISABLED';
+
+/** Filters of /v2/queries/os-patch-installs; dates as NinjaOne accepts them, e.g. 2025-01-14. */
+export interface PatchInstallFilters {
+  status?: 'FAILED' | 'INSTALLED';
+  installedAfter?: string;
+  installedBefore?: string;
+}
+
 export type MaintenanceUnit = 'MINUTES' | 'HOURS' | 'DAYS' | 'WEEKS';
 export type MaintenanceWindowSelection =
   | { permanent: true }
   | { permanent: false; value: number; unit: MaintenanceUnit; seconds: number };
 
+export interface RetryPolicy {
+  /** Attempts per request for transient failures, including the first one. */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/** Credentials and region of one NinjaOne instance. */
+export interface NinjaOneConnection {
+  clientId: string;
+  clientSecret: string;
+  /** Wins over region; without either the region is auto-detected. */
+  baseUrl?: string;
+  region?: string;
+}
+
+export interface NinjaOneAPIOptions {
+  /** Defaults to NINJA_CLIENT_ID, NINJA_CLIENT_SECRET, NINJA_BASE_URL and NINJA_REGION. */
+  connection?: NinjaOneConnection;
+  /** Instance profile name, recorded in audit entries. */
+  instance?: string;
+  /** Receives one entry per non-GET request. */
+  auditLog?: AuditLog;
+  /** Serves repeated GETs of slow-changing data; mutations invalidate it. */
+  cache?: ResponseCache;
+  /** Concurrency and rate limits applied to every request sent. */
+  limiter?: RequestLimiter;
+  /** Records every HTTP exchange, or replays recorded ones without the network. */
+  cassette?: Cassette;
+  /** Keeps the OAuth token and discovered region across restarts. */
+  tokenStore?: TokenStore;
+}
+
 export class NinjaOneAPI {
   private baseUrl: string | null = null;
   private clientId: string;
   private clientSecret: string;
   private accessToken: string | null = null;
   private tokenExpiry: number | null = null;
+  private tokenRefreshAt: number | null = null;
+  /** The token request in flight; concurrent callers wait for the same one. */
+  private tokenRequest: Promise<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+  /** A token NinjaOne answered 401 to, so a stored copy is not reused. */
+  private rejectedToken: string | null = null;
+  private tokenStore: TokenStore | undefined;
   private isConfigured: boolean;
   private baseUrlExplicit: boolean = false;
+  private retryPolicy: RetryPolicy;
+  private requestTimeoutMs: number;
+  private auditLog: AuditLog | undefined;
+  private cache: ResponseCache | undefined;
+  private limiter: RequestLimiter | undefined;
+  private cassette: Cassette | undefined;
+  private instance: string | undefined;
+
+  static readonly MAX_PAGE_SIZE = 1000;
+  /** Refresh tokens this long before they expire, or halfway for shorter-lived ones. */
+  private static readonly TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+  private static readonly IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+  private static readonly TRANSIENT_STATUSES = new Set([408, 500, 502, 503, 504]);
 
   private static readonly REGION_MAP: Record<string, string> = {
     us: 'https://app.ninjarmm.com',
@@ -29,7 +164,15 @@ export class NinjaOneAPI {
     oc: 'https://oc.ninjarmm.com',
   };
 
+  private static readonly WINDOWS_START_TYPES = {
+    AUTOMATIC: 'AUTO_START',
+    MANUAL: 'DEMAND_START',
+    DISABLED: 'DISABLED',
+  } as const satisfies Record<WindowsServiceStartupType, string>;
+
   private static readonly ALLOWED_DOMAIN_PATTERN = /^https:\/\/[\w-]+\.ninjarmm\.com$/;
+  /** Loopback URLs, e.g. the mock NinjaOne server; only with NINJA_ALLOW_LOCAL_BASE_URL. */
+  private static readonly LOCAL_URL_PATTERN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
 
   private static readonly DEFAULT_CANDIDATES: string[] = [
     'https://app.ninjarmm.com',
@@ -39,66 +182,177 @@ export class NinjaOneAPI {
     'https://oc.ninjarmm.com',
   ];
 
-  constructor() {
-    const envBase = process.env.NINJA_BASE_URL;
-    const envRegion = (process.env.NINJA_REGION || '').toLowerCase();
+  constructor(options: NinjaOneAPIOptions = {}) {
+    const connection = options.connection ?? NinjaOneAPI.connectionFromEnv();
+    const region = (connection.region || '').toLowerCase();
 
-    if (envBase) {
-      const normalized = this.normalizeBaseUrl(envBase);
+    if (connection.baseUrl) {
+      const normalized = this.normalizeBaseUrl(connection.baseUrl);
       this.validateUrl(normalized);
       this.baseUrl = normalized;
       this.baseUrlExplicit = true;
-    } else if (envRegion && NinjaOneAPI.REGION_MAP[envRegion]) {
-      this.baseUrl = NinjaOneAPI.REGION_MAP[envRegion];
+    } else if (region && NinjaOneAPI.REGION_MAP[region]) {
+      this.baseUrl = NinjaOneAPI.REGION_MAP[region];
       this.baseUrlExplicit = true;
+    } else if (region && options.connection) {
+      // An unknown NINJA_REGION falls back to auto-detection; a profile's region must be valid.
+      throw new Error(`Unknown region: ${connection.region}`);
     } else {
       this.baseUrl = null;
     }
-    this.clientId = process.env.NINJA_CLIENT_ID || '';
-    this.clientSecret = process.env.NINJA_CLIENT_SECRET || '';
-    this.isConfigured = !!(this.clientId && this.clientSecret);
+    this.clientId = connection.clientId;
+    this.clientSecret = connection.clientSecret;
+    this.instance = options.instance;
+    this.cassette = options.cassette;
+    this.tokenStore = options.tokenStore;
+    // A replayed cassette carries its own (redacted) token responses.
+    this.isConfigured = !!(this.clientId && this.clientSecret) || this.cassette?.mode === 'replay';
+    this.retryPolicy = NinjaOneAPI.readRetryPolicy();
+    const timeout = parseInt(process.env.NINJA_REQUEST_TIMEOUT_MS || '', 10);
+    this.requestTimeoutMs = Number.isFinite(timeout) && timeout >= 100 ? timeout : 30_000;
+    this.auditLog = options.auditLog;
+    this.cache = options.cache;
+    this.limiter = options.limiter;
     
     if (!this.isConfigured) {
       console.error('WARNING: NINJA_CLIENT_ID and NINJA_CLIENT_SECRET not set - API calls will fail until configured');
     } else {
-      console.error('NinjaONE API initialized successfully');
+      console.error(`NinjaONE API initialized successfully${this.instance ? ` (instance: ${this.instance})` : ''}`);
     }
   }
 
+  private static connectionFromEnv(): NinjaOneConnection {
+    return {
+      clientId: process.env.NINJA_CLIENT_ID || '',
+      clientSecret: process.env.NINJA_CLIENT_SECRET || '',
+      ...(process.env.NINJA_BASE_URL ? { baseUrl: process.env.NINJA_BASE_URL } : {}),
+      ...(process.env.NINJA_REGION ? { region: process.env.NINJA_REGION } : {})
+    };
+  }
+
   private async getAccessToken(): Promise<string> {
     if (!this.isConfigured) {
-      throw new Error('NinjaONE API not configured - NINJA_CLIENT_ID and NINJA_CLIENT_SECRET required');
+      throw new NinjaOneAuthError(
+        'NinjaONE API not configured - NINJA_CLIENT_ID and NINJA_CLIENT_SECRET required',
+        { method: 'POST', endpoint: '/ws/oauth/token', attempts: 0 }
+      );
     }
 
-    if (this.accessToken && this.tokenExpiry && Date.now() < (this.tokenExpiry - 300000)) {
+    if (this.accessToken && this.tokenRefreshAt && Date.now() < this.tokenRefreshAt) {
       return this.accessToken;
     }
+    try {
+      return await this.refreshAccessToken();
+    } catch (error) {
+      // A failed early refresh keeps the current token until it expires.
+      if (this.accessToken && this.tokenExpiry && Date.now() < this.tokenExpiry) return this.accessToken;
+      throw error;
+    }
+  }
+
+  /** Start a token request unless one is already in flight, and wait for it. */
+  private refreshAccessToken(): Promise<string> {
+    this.tokenRequest ??= this.acquireToken().finally(() => {
+      this.tokenRequest = null;
+    });
+    return this.tokenRequest;
+  }
+
+  /**
+   * A live token from the token store, e.g. one written by another replica,
+   * or else a new one from NinjaOne. A stored region is tried first, so a
+   * restart skips auto-detection.
+   */
+  private async acquireToken(): Promise<string> {
+    const stored = await this.tokenStore?.load(this.clientId, this.clientSecret);
+    const storedRegionUsable = stored && (!this.baseUrlExplicit || stored.baseUrl === this.baseUrl);
+    if (stored && storedRegionUsable && stored.accessToken !== this.rejectedToken && Date.now() < stored.refreshAt) {
+      this.useToken(stored);
+      console.error(`OAuth token loaded from ${this.tokenStore!.path}${this.describeInstance()}`);
+      return stored.accessToken;
+    }
 
     if (!this.baseUrl || !this.baseUrlExplicit) {
       const tried: string[] = [];
-      const candidates = this.getCandidateBaseUrls();
+      const preferred = stored && storedRegionUsable ? [stored.baseUrl] : [];
+      const candidates = [...preferred, ...this.getCandidateBaseUrls().filter((url) => !preferred.includes(url))];
       for (const candidate of candidates) {
         tried.push(candidate);
         try {
           const token = await this.requestToken(candidate);
           this.baseUrl = candidate;
           this.baseUrlExplicit = true;
-          this.accessToken = token.access_token;
-          this.tokenExpiry = Date.now() + (token.expires_in * 1000);
-          console.error(`OAuth token acquired successfully (region: ${candidate})`);
-          return this.accessToken!;
+          this.storeToken(candidate, token);
+          console.error(`OAuth token acquired successfully (region: ${candidate})${this.describeInstance()}`);
+          return token.access_token;
         } catch (e) {
           // try next
         }
       }
-      throw new Error(`Failed to acquire OAuth token: no candidate base URL succeeded. Tried: ${tried.join(', ')}`);
+      throw new NinjaOneAuthError(
+        `Failed to acquire OAuth token: no candidate base URL succeeded. Tried: ${tried.join(', ')}`,
+        { method: 'POST', endpoint: '/ws/oauth/token', attempts: tried.length }
+      );
     }
 
-    const token = await this.requestToken(this.baseUrl);
-    this.accessToken = token.access_token;
-    this.tokenExpiry = Date.now() + (token.expires_in * 1000);
-    console.error('OAuth token acquired successfully');
-    return this.accessToken!;
+    const baseUrl = this.baseUrl;
+    const token = await this.requestToken(baseUrl);
+    // setBaseUrl may have switched regions while the request was in flight.
+    if (this.baseUrl !== baseUrl) return this.acquireToken();
+    this.storeToken(baseUrl, token);
+    console.error(`OAuth token acquired successfully${this.describeInstance()}`);
+    return token.access_token;
+  }
+
+  private storeToken(baseUrl: string, token: { access_token: string; expires_in: number }): void {
+    const now = Date.now();
+    const lifetime = token.expires_in * 1000;
+    const stored: StoredToken = {
+      baseUrl,
+      accessToken: token.access_token,
+      expiresAt: now + lifetime,
+      refreshAt: now + lifetime - Math.min(NinjaOneAPI.TOKEN_REFRESH_MARGIN_MS, lifetime / 2)
+    };
+    this.useToken(stored);
+    void this.tokenStore?.save(this.clientId, this.clientSecret, stored);
+  }
+
+  /**
+   * Make a token current and schedule its replacement, so requests near
+   * expiry never wait for OAuth. A failed background refresh is logged;
+   * the next request then refreshes on demand.
+   */
+  private useToken(token: StoredToken): void {
+    this.baseUrl = token.baseUrl;
+    this.baseUrlExplicit = true;
+    this.accessToken = token.accessToken;
+    this.tokenExpiry = token.expiresAt;
+    this.tokenRefreshAt = token.refreshAt;
+    clearTimeout(this.refreshTimer);
+    // The token is often stored during a tool call; the refresh must not run as part of it.
+    this.refreshTimer = runOutsideCallContext(() => setTimeout(() => {
+      this.refreshAccessToken().catch((error) => {
+        console.error(`Background OAuth token refresh failed${this.describeInstance()}:`, error instanceof Error ? error.message : String(error));
+      });
+    }, Math.max(token.refreshAt - Date.now(), 1000)).unref());
+  }
+
+  private clearToken(): void {
+    this.accessToken = null;
+    this.tokenExpiry = null;
+    this.tokenRefreshAt = null;
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = undefined;
+  }
+
+  private describeInstance(): string {
+    return this.instance ? ` (instance: ${this.instance})` : '';
+  }
+
+  /** Stop the background token refresh, e.g. before discarding this client. */
+  public close(): void {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = undefined;
   }
 
   private async requestToken(baseUrl: string): Promise<{ access_token: string; expires_in: number }> {
@@ -111,9 +365,9 @@ export class NinjaOneAPI {
     });
 
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30_000);
+    const timeout = setTimeout(() => controller.abort(), this.requestTimeoutMs);
     try {
-      const response = await fetch(tokenUrl, {
+      const response = await this.fetch(tokenUrl, {
         method: 'POST',
         headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
         body: body.toString(),
@@ -121,7 +375,18 @@ export class NinjaOneAPI {
       });
 
       if (!response.ok) {
-        throw new Error(`OAuth token request failed: ${response.status} ${response.statusText}`);
+        const details = {
+          method: 'POST',
+          endpoint: '/ws/oauth/token',
+          attempts: 1,
+          status: response.status,
+          statusText: response.statusText,
+        };
+        const message = `OAuth token request failed: ${response.status} ${response.statusText}`;
+        // The token endpoint answers bad credentials with 400/401; only 5xx is an outage.
+        throw response.status >= 500
+          ? new NinjaOneUpstreamError(message, details)
+          : new NinjaOneAuthError(message, details);
       }
       return await response.json();
     } finally {
@@ -153,11 +418,181 @@ export class NinjaOneAPI {
     method: string = 'GET',
     body?: any
   ): Promise<any> {
-    const token = await this.getAccessToken();
+    if (method === 'GET') return this.cachedGet(endpoint);
+    const path = endpoint.split('?')[0] ?? endpoint;
+    if (method === 'POST' && READ_ONLY_POSTS.some((pattern) => pattern.test(path))) {
+      return this.sendWithRetries(endpoint, method, body);
+    }
+    try {
+      return await this.auditedRequest(endpoint, method, body);
+    } finally {
+      // Whatever the outcome, the request may have changed cached records.
+      this.cache?.invalidate(endpoint);
+    }
+  }
+
+  /**
+   * GET through the response cache. A `noCache` call skips the cached
+   * response but still stores the fresh one.
+   */
+  private async cachedGet(endpoint: string): Promise<any> {
+    const cache = this.cache;
+    if (!cache?.ruleFor(endpoint)) return this.sendWithRetries(endpoint, 'GET');
+    if (!currentContext()?.noCache) {
+      const cached = cache.get(endpoint);
+      if (cached !== undefined) return cached;
+    }
+    const data = await this.sendWithRetries(endpoint, 'GET');
+    cache.set(endpoint, data);
+    return data;
+  }
+
+  private async auditedRequest(endpoint: string, method: string, body?: any): Promise<any> {
+    const auditLog = this.auditLog;
+    if (!auditLog) return this.sendWithRetries(endpoint, method, body);
+
+    const started = Date.now();
+    let status: number | undefined;
+    let failure: unknown;
+    try {
+      return await this.sendWithRetries(endpoint, method, body, (responseStatus) => { status = responseStatus; });
+    } catch (error) {
+      failure = error;
+      throw error;
+    } finally {
+      const context = currentContext();
+      const target = auditTarget(endpoint, body);
+      await auditLog.record({
+        time: new Date(started).toISOString(),
+        ...(context?.sessionId ? { sessionId: context.sessionId } : {}),
+        ...(this.instance ? { instance: this.instance } : {}),
+        ...(context?.identity ? { identity: context.identity.name, role: context.identity.role } : {}),
+        ...(context?.tool ? {
+          tool: context.tool.name,
+          arguments: sanitizeArguments(context.tool.arguments) as Record<string, unknown>
+        } : {}),
+        method,
+        endpoint,
+        ...(target ? { target } : {}),
+        ...(status !== undefined ? { status } : {}),
+        outcome: failure === undefined ? 'success' : 'error',
+        ...(failure !== undefined ? { error: failure instanceof Error ? failure.message : String(failure) } : {}),
+        durationMs: Date.now() - started
+      });
+    }
+  }
+
+  /**
+   * Send a request, retrying per the retry policy. `onStatus` sees the status
+   * of every response, including retried ones.
+   */
+  private async sendWithRetries(
+    endpoint: string,
+    method: string,
+    body?: any,
+    onStatus?: (status: number) => void
+  ): Promise<any> {
+    const retryTransient = NinjaOneAPI.IDEMPOTENT_METHODS.has(method);
+    let attempt = 0;
+    let retries = 0;
+    let refreshedToken = false;
+
+    while (true) {
+      throwIfCancelled();
+      attempt++;
+      const token = await this.getAccessToken();
+
+      let response: Response;
+      try {
+        response = await this.limitedSend(endpoint, method, token, body);
+        onStatus?.(response.status);
+      } catch (error) {
+        if (isCancelled()) throw new RequestCancelledError(`${method} ${endpoint} cancelled by the client`);
+        if (error instanceof CassetteMissError) {
+          throw new NinjaOneUpstreamError(error.message, { method, endpoint, attempts: attempt });
+        }
+        const timedOut = error instanceof Error && error.name === 'AbortError';
+        const summary = timedOut
+          ? `Request timed out after ${this.requestTimeoutMs}ms`
+          : `Network error: ${error instanceof Error ? error.message : String(error)}`;
+        if (retryTransient && retries + 1 < this.retryPolicy.maxAttempts) {
+          retries++;
+          const wait = this.computeBackoff(retries);
+          console.error(`${method} ${endpoint} failed (${summary}), retrying in ${wait}ms (retry ${retries}/${this.retryPolicy.maxAttempts - 1})`);
+          await delay(wait);
+          continue;
+        }
+        const details = { method, endpoint, attempts: attempt };
+        throw timedOut ? new NinjaOneTimeoutError(summary, details) : new NinjaOneUpstreamError(summary, details);
+      }
+
+      if (response.ok) {
+        return this.parseResponse(response, method);
+      }
+
+      const errorText = await response.text();
+
+      // A 401 usually means the cached token was revoked or expired early.
+      // Force a fresh token and retry exactly once, regardless of method and
+      // without consuming the transient retry budget.
+      if (response.status === 401 && !refreshedToken) {
+        refreshedToken = true;
+        // Only the first of several concurrent 401s drops the token; the
+        // others then share the refresh it starts.
+        if (this.accessToken === token) {
+          this.rejectedToken = token;
+          this.clearToken();
+        }
+        console.error(`${method} ${endpoint} returned 401, refreshing OAuth token and retrying`);
+        continue;
+      }
+
+      // 429 means the request was rejected before processing, so it is safe
+      // to retry for any method. Other transient statuses only for idempotent ones.
+      const retryable = response.status === 429
+        || (retryTransient && NinjaOneAPI.TRANSIENT_STATUSES.has(response.status));
+      const retryAfter = this.parseRetryAfter(response.headers.get('retry-after'));
+      if (retryable && retries + 1 < this.retryPolicy.maxAttempts) {
+        retries++;
+        const wait = retryAfter ?? this.computeBackoff(retries);
+        console.error(`${method} ${endpoint} returned ${response.status}, retrying in ${wait}ms (retry ${retries}/${this.retryPolicy.maxAttempts - 1})`);
+        await delay(wait);
+        continue;
+      }
+
+      throw errorFromResponse(
+        {
+          method,
+          endpoint,
+          attempts: attempt,
+          status: response.status,
+          statusText: response.statusText,
+          ...(retryAfter !== undefined ? { retryAfterMs: retryAfter } : {}),
+        },
+        errorText
+      );
+    }
+  }
+
+  /**
+   * Send one attempt through the request limiter, queued under the calling
+   * session so sessions take turns when NinjaOne capacity is short.
+   */
+  private limitedSend(endpoint: string, method: string, token: string, body?: any): Promise<Response> {
+    const send = () => this.sendRequest(endpoint, method, token, body);
+    if (!this.limiter) return send();
+    const context = currentContext();
+    return this.limiter.run(context?.sessionId ?? 'default', send, context?.signal);
+  }
+
+  private async sendRequest(endpoint: string, method: string, token: string, body?: any): Promise<Response> {
     const base = this.baseUrl || NinjaOneAPI.DEFAULT_CANDIDATES[0];
 
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 30_000);
+    const timeout = setTimeout(() => controller.abort(), this.requestTimeoutMs);
+    // Abort on our timeout or when the tool call is cancelled, whichever comes first.
+    const callSignal = currentSignal();
+    const signal = callSignal ? AbortSignal.any([controller.signal, callSignal]) : controller.signal;
 
     const options: RequestInit = {
       method,
@@ -165,10 +600,13 @@ export class NinjaOneAPI {
         'Authorization': `Bearer ${token}`,
         'Accept': '*/*'
       },
-      signal: controller.signal,
+      signal,
     };
 
-    if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
+    if (body instanceof FormData) {
+      // fetch sets the multipart boundary header itself
+      options.body = body;
+    } else if (body && ['POST', 'PUT', 'PATCH'].includes(method)) {
       options.headers = {
         ...options.headers,
         'Content-Type': 'application/json'
@@ -176,18 +614,19 @@ export class NinjaOneAPI {
       options.body = JSON.stringify(body);
     }
 
-    let response: Response;
     try {
-      response = await fetch(`${base}${endpoint}`, options);
+      return await this.fetch(`${base}${endpoint}`, options);
     } finally {
       clearTimeout(timeout);
     }
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    
+  }
+
+  /** fetch, through the cassette when one is configured. */
+  private fetch(url: string, init: RequestInit): Promise<Response> {
+    return this.cassette ? this.cassette.fetch(url, init, () => fetch(url, init)) : fetch(url, init);
+  }
+
+  private async parseResponse(response: Response, method: string): Promise<any> {
     if (method === 'DELETE' && response.status === 204) {
       return { success: true };
     }
@@ -204,6 +643,46 @@ export class NinjaOneAPI {
     }
   }
 
+  /**
+   * Exponential backoff with equal jitter: half the window is fixed, the
+   * other half random, so concurrent sessions do not retry in lockstep.
+   */
+  private computeBackoff(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryPolicy;
+    const window = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(window / 2 + Math.random() * (window / 2));
+  }
+
+  /**
+   * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds,
+   * capped at the policy's maximum delay.
+   */
+  private parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    let delayMs: number;
+    if (Number.isFinite(seconds)) {
+      delayMs = seconds * 1000;
+    } else {
+      const date = Date.parse(header);
+      if (Number.isNaN(date)) return undefined;
+      delayMs = date - Date.now();
+    }
+    return Math.min(Math.max(0, Math.round(delayMs)), this.retryPolicy.maxDelayMs);
+  }
+
+  private static readRetryPolicy(): RetryPolicy {
+    const read = (name: string, fallback: number, min: number): number => {
+      const parsed = parseInt(process.env[name] || '', 10);
+      return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+    };
+    return {
+      maxAttempts: read('NINJA_RETRY_MAX_ATTEMPTS', 3, 1),
+      baseDelayMs: read('NINJA_RETRY_BASE_DELAY_MS', 500, 0),
+      maxDelayMs: read('NINJA_RETRY_MAX_DELAY_MS', 30_000, 0),
+    };
+  }
+
   // Region utilities
   public listRegions(): { region: string; baseUrl: string }[] {
     return Object.entries(NinjaOneAPI.REGION_MAP).map(([region, baseUrl]) => ({ region, baseUrl }));
@@ -218,7 +697,8 @@ export class NinjaOneAPI {
 
   private validateUrl(normalized: string): void {
     const knownUrls = Object.values(NinjaOneAPI.REGION_MAP);
-    if (!knownUrls.includes(normalized) && !NinjaOneAPI.ALLOWED_DOMAIN_PATTERN.test(normalized)) {
+    const allowLocal = process.env.NINJA_ALLOW_LOCAL_BASE_URL === 'true' && NinjaOneAPI.LOCAL_URL_PATTERN.test(normalized);
+    if (!knownUrls.includes(normalized) && !NinjaOneAPI.ALLOWED_DOMAIN_PATTERN.test(normalized) && !allowLocal) {
       throw new Error(
         `Invalid base URL: ${normalized}. URL must be a known NinjaRMM region or match https://<subdomain>.ninjarmm.com`
       );
@@ -234,8 +714,45 @@ export class NinjaOneAPI {
     this.validateUrl(normalized);
     this.baseUrl = normalized;
     this.baseUrlExplicit = true;
-    this.accessToken = null;
-    this.tokenExpiry = null;
+    this.clearToken();
+    // Cached responses belong to the previous region's tenant.
+    this.cache?.clear();
+  }
+
+  /** Request limiter queue and wait statistics, or undefined without a limiter. */
+  public requestStats(): RequestLimiterStats | undefined {
+    return this.limiter?.stats();
+  }
+
+  /** Response cache statistics, or undefined when caching is disabled. */
+  public cacheStats(): CacheStats | undefined {
+    return this.cache?.stats();
+  }
+
+  /**
+   * Typed entry point for every wrapper. The path template must exist in the
+   * bundled OpenAPI spec for the given method (or be listed as a known
+   * undocumented endpoint), so wrapper/spec drift fails the type-check.
+   */
+  private request<M extends HttpMethod, P extends ApiPath<M>>(
+    method: M,
+    path: P,
+    options: {
+      params?: PathParams<P>;
+      query?: Record<string, any>;
+      body?: RequestBody<P, M>;
+    } = {}
+  ): Promise<ResponseBody<P, M>> {
+    const params = (options.params ?? {}) as Record<string, string | number>;
+    const endpoint = path.replace(/\{(\w+)\}/g, (_match, key: string) => {
+      const value = params[key];
+      if (value === undefined) {
+        throw new Error(`Missing path parameter "${key}" for ${path}`);
+      }
+      return encodeURIComponent(String(value));
+    });
+    const query = options.query ? this.buildQuery(options.query) : '';
+    return this.makeRequest(`${endpoint}${query}`, method, options.body);
   }
 
   private buildQuery(params: Record<string, any>): string {
@@ -244,6 +761,14 @@ export class NinjaOneAPI {
     return query.toString() ? `?${query}` : '';
   }
 
+  /**
+   * The spec types custom field values as objects, but the API accepts plain
+   * scalars (text, numbers, booleans) keyed by field name.
+   */
+  private customFieldBody(fields: CustomFieldValues): Record<string, Record<string, unknown>> {
+    return fields as Record<string, Record<string, unknown>>;
+  }
+
   private pruneUndefined<T extends Record<string, unknown>>(payload: T): Partial<T> {
     const result: Partial<T> = {};
     (Object.keys(payload) as (keyof T)[]).forEach((key) => {
@@ -255,31 +780,31 @@ export class NinjaOneAPI {
     return result;
   }
 
-  private buildUserCollectionPath(type: 'end-users' | 'technicians'): string {
-    return `/v2/user/${type}`;
-  }
-
-  private buildUserEntityPath(type: 'end-user' | 'technician', id: number): string {
-    return `/v2/user/${type}/${id}`;
-  }
-
   // Device Management
   
-  async getDevices(df?: string, pageSize?: number, after?: number): Promise<any> {
-    return this.makeRequest(`/v2/devices${this.buildQuery({ df, pageSize, after })}`);
+  async getDevices(df?: string, pageSize?: number, after?: number): Promise<Device[]> {
+    return this.request('GET', '/v2/devices', { query: { df, pageSize, after } });
+  }
+
+  async getDevicesDetailed(df?: string, pageSize?: number, after?: number): Promise<DeviceDetailedListItem[]> {
+    return this.request('GET', '/v2/devices-detailed', { query: { df, pageSize, after } });
   }
 
-  async getDevicesDetailed(df?: string, pageSize?: number, after?: number): Promise<any> {
-    return this.makeRequest(`/v2/devices-detailed${this.buildQuery({ df, pageSize, after })}`);
+  /**
+   * NinjaOne's own device search (names, logged-on users, IP addresses and
+   * more), ranked by `score`.
+   */
+  async searchDevices(q: string, limit?: number): Promise<DeviceSearchResults> {
+    return this.request('GET', '/v2/devices/search', { query: { q, limit } });
   }
 
-  async getDevice(id: number): Promise<any> {
+  async getDevice(id: number): Promise<DeviceDetails> {
     // Owner information is available via the assignedOwnerUid field in this response.
-    return this.makeRequest(`/v2/device/${id}`);
+    return this.request('GET', '/v2/device/{id}', { params: { id } });
   }
 
   async getDeviceDashboardUrl(id: number): Promise<any> { 
-    return this.makeRequest(`/v2/device/${id}/dashboard-url`); 
+    return this.request('GET', '/v2/device/{id}/dashboard-url', { params: { id } }); 
   }
 
   async setDeviceMaintenance(
@@ -288,7 +813,7 @@ export class NinjaOneAPI {
     duration?: MaintenanceWindowSelection
   ): Promise<any> {
     if (mode === 'OFF') {
-      return this.makeRequest(`/v2/device/${id}/maintenance`, 'DELETE');
+      return this.request('DELETE', '/v2/device/{id}/maintenance', { params: { id } });
     }
 
     if (!duration) {
@@ -313,88 +838,124 @@ export class NinjaOneAPI {
       body.end = start + duration.seconds;
     }
 
-    return this.makeRequest(`/v2/device/${id}/maintenance`, 'PUT', body);
+    return this.request('PUT', '/v2/device/{id}/maintenance', { params: { id }, body });
   }
 
   async rebootDevice(id: number, mode: string, reason?: string): Promise<any> {
     const body = {
       reason: reason || 'Reboot requested via API'
     };
-    return this.makeRequest(`/v2/device/${id}/reboot/${mode}`, 'POST', body);
+    return this.request('POST', '/v2/device/{id}/reboot/{mode}', { params: { id, mode }, body });
   }
 
   async approveDevices(mode: string, deviceIds: number[]): Promise<any> {
     const body = { devices: deviceIds };
-    return this.makeRequest(`/v2/devices/approval/${mode}`, 'POST', body);
+    return this.request('POST', '/v2/devices/approval/{mode}', { params: { mode }, body });
   }
 
   // Device Patches
 
   // Patch approval or rejection is only available via the NinjaOne dashboard or policies;
-  // the public API does not provide endpoints for that workflow.
+  // the public API does not provide endpoints for that workflow. The apply endpoints
+  // take no body: they submit a job that installs the device's approved patches.
   async scanDeviceOSPatches(id: number): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/patch/os/scan`, 'POST');
+    return this.request('POST', '/v2/device/{id}/patch/os/scan', { params: { id } });
   }
 
-  async applyDeviceOSPatches(id: number, patches: any[]): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/patch/os/apply`, 'POST', { patches });
+  async applyDeviceOSPatches(id: number): Promise<any> {
+    return this.request('POST', '/v2/device/{id}/patch/os/apply', { params: { id } });
   }
 
   async scanDeviceSoftwarePatches(id: number): Promise<any> { 
-    return this.makeRequest(`/v2/device/${id}/patch/software/scan`, 'POST'); 
+    return this.request('POST', '/v2/device/{id}/patch/software/scan', { params: { id } }); 
   }
 
-  async applyDeviceSoftwarePatches(id: number, patches: any[]): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/patch/software/apply`, 'POST', { patches });
+  async applyDeviceSoftwarePatches(id: number): Promise<any> {
+    return this.request('POST', '/v2/device/{id}/patch/software/apply', { params: { id } });
   }
 
   // Device Services
   
-  async controlWindowsService(id: number, serviceId: string, action: string): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/windows-service/${serviceId}/control`, 'POST', { action });
+  async controlWindowsService(id: number, serviceId: string, action: WindowsServiceAction): Promise<any> {
+    return this.request('POST', '/v2/device/{id}/windows-service/{serviceId}/control', { params: { id, serviceId }, body: { action } });
   }
 
-  async configureWindowsService(id: number, serviceId: string, startupType: string): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/windows-service/${serviceId}/configure`, 'POST', { startupType });
+  async configureWindowsService(id: number, serviceId: string, startupType: WindowsServiceStartupType): Promise<any> {
+    // The API expects Windows start types, not the friendlier names the tool exposes.
+    const startType = NinjaOneAPI.WINDOWS_START_TYPES[startupType];
+    return this.request('POST', '/v2/device/{id}/windows-service/{serviceId}/configure', { params: { id, serviceId }, body: { startType } });
+  }
+
+  // Scripting
+
+  async getAutomationScripts(lang?: string): Promise<AutomationScript[]> {
+    return this.request('GET', '/v2/automation/scripts', { query: { lang } });
+  }
+
+  async getDeviceScriptingOptions(id: number, lang?: string): Promise<ScriptingOptions> {
+    return this.request('GET', '/v2/device/{id}/scripting/options', { params: { id }, query: { lang } });
+  }
+
+  /**
+   * Queue a library script (type SCRIPT + id) or built-in action (type ACTION + uid).
+   * NinjaOne answers as soon as the job is queued; follow it with getDeviceJobs.
+   */
+  async runDeviceScript(id: number, run: ScriptRunRequest): Promise<any> {
+    return this.request('POST', '/v2/device/{id}/script/run', { params: { id }, body: run });
+  }
+
+  async getDeviceJobs(id: number, lang?: string, tz?: string): Promise<DeviceJob[]> {
+    return this.request('GET', '/v2/device/{id}/jobs', { params: { id }, query: { lang, tz } });
+  }
+
+  // Jobs and scheduled tasks
+
+  /** Jobs currently running across all devices; finished jobs drop out of this list. */
+  async getJobs(jobType?: string, df?: string, lang?: string, tz?: string): Promise<Job[]> {
+    return this.request('GET', '/v2/jobs', { query: { jobType, df, lang, tz } });
+  }
+
+  async getScheduledTasks(): Promise<ScheduledTask[]> {
+    return this.request('GET', '/v2/tasks');
   }
 
   // Policy Management
   
-  async getPolicies(templateOnly?: boolean): Promise<any> {
-    return this.makeRequest(`/v2/policies${this.buildQuery({ templateOnly })}`);
+  async getPolicies(templateOnly?: boolean): Promise<Policy[]> {
+    return this.request('GET', '/v2/policies', { query: { templateOnly } });
   }
 
-  async getDevicePolicyOverrides(id: number): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/policy/overrides`);
+  async getDevicePolicyOverrides(id: number): Promise<DevicePolicyOverrides> {
+    return this.request('GET', '/v2/device/{id}/policy/overrides', { params: { id } });
   }
 
   async resetDevicePolicyOverrides(id: number): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/policy/overrides`, 'DELETE');
+    return this.request('DELETE', '/v2/device/{id}/policy/overrides', { params: { id } });
   }
 
   // Organization Management
   
-  async getOrganizations(pageSize?: number, after?: number): Promise<any> {
-    return this.makeRequest(`/v2/organizations${this.buildQuery({ pageSize, after })}`);
+  async getOrganizations(pageSize?: number, after?: number): Promise<Organization[]> {
+    return this.request('GET', '/v2/organizations', { query: { pageSize, after } });
   }
 
-  async getOrganization(id: number): Promise<any> { 
-    return this.makeRequest(`/v2/organization/${id}`); 
+  async getOrganization(id: number): Promise<OrganizationDetailed> { 
+    return this.request('GET', '/v2/organization/{id}', { params: { id } }); 
   }
 
-  async getOrganizationLocations(id: number): Promise<any> { 
-    return this.makeRequest(`/v2/organization/${id}/locations`); 
+  async getOrganizationLocations(id: number): Promise<Location[]> { 
+    return this.request('GET', '/v2/organization/{id}/locations', { params: { id } }); 
   }
 
   async getOrganizationPolicies(id: number): Promise<any> { 
-    return this.makeRequest(`/v2/organization/${id}/policies`); 
+    return this.request('GET', '/v2/organization/{id}/policies', { params: { id } }); 
   }
 
   async generateOrganizationInstaller(installerType: string, locationId?: number, organizationId?: number): Promise<any> {
     const body: any = { installerType };
     if (locationId) body.locationId = locationId;
     if (organizationId) body.organizationId = organizationId;
-    return this.makeRequest('/v2/organization/generate-installer', 'POST', body);
+    return this.request('POST', '/v2/organization/generate-installer', { body });
   }
 
   // Organization CRUD
@@ -411,7 +972,7 @@ export class NinjaOneAPI {
     if (description) body.description = description;
     if (nodeApprovalMode) body.nodeApprovalMode = nodeApprovalMode.toUpperCase();
     if (tags) body.tags = tags;
-    return this.makeRequest('/v2/organizations', 'POST', body);
+    return this.request('POST', '/v2/organizations', { body });
   }
 
   async updateOrganization(
@@ -426,14 +987,7 @@ export class NinjaOneAPI {
     if (description !== undefined) body.description = description;
     // nodeApprovalMode is intentionally ignored because the public API treats it as read-only after creation.
     if (tags !== undefined) body.tags = tags;
-    try {
-      return await this.makeRequest(`/v2/organizations/${id}`, 'PATCH', body);
-    } catch (error: any) {
-      if (typeof error?.message === 'string' && error.message.includes('404')) {
-        return this.makeRequest(`/v2/organization/${id}`, 'PATCH', body);
-      }
-      throw error;
-    }
+    return this.request('PATCH', '/v2/organization/{id}', { params: { id }, body });
   }
 
   // Location CRUD
@@ -447,7 +1001,7 @@ export class NinjaOneAPI {
     const body: any = { name };
     if (address) body.address = address;
     if (description) body.description = description;
-    return this.makeRequest(`/v2/organization/${organizationId}/locations`, 'POST', body);
+    return this.request('POST', '/v2/organization/{id}/locations', { params: { id: organizationId }, body });
   }
 
   async updateLocation(
@@ -461,17 +1015,17 @@ export class NinjaOneAPI {
     if (name !== undefined) body.name = name;
     if (address !== undefined) body.address = address;
     if (description !== undefined) body.description = description;
-    return this.makeRequest(`/v2/organization/${organizationId}/locations/${locationId}`, 'PATCH', body);
+    return this.request('PATCH', '/v2/organization/{id}/locations/{locationId}', { params: { id: organizationId, locationId }, body });
   }
 
   // Contact Management
 
-  async getContacts(): Promise<any> {
-    return this.makeRequest('/v2/contacts');
+  async getContacts(): Promise<Contact[]> {
+    return this.request('GET', '/v2/contacts');
   }
 
-  async getContact(id: number): Promise<any> { 
-    return this.makeRequest(`/v2/contact/${id}`); 
+  async getContact(id: number): Promise<Contact> { 
+    return this.request('GET', '/v2/contact/{id}', { params: { id } }); 
   }
 
   async createContact(
@@ -485,7 +1039,7 @@ export class NinjaOneAPI {
     const body: any = { organizationId, firstName, lastName, email };
     if (phone) body.phone = phone;
     if (jobTitle) body.jobTitle = jobTitle;
-    return this.makeRequest('/v2/contacts', 'POST', body);
+    return this.request('POST', '/v2/contacts', { body });
   }
 
   async updateContact(
@@ -502,46 +1056,44 @@ export class NinjaOneAPI {
     if (email !== undefined) body.email = email;
     if (phone !== undefined) body.phone = phone;
     if (jobTitle !== undefined) body.jobTitle = jobTitle;
-    return this.makeRequest(`/v2/contact/${id}`, 'PATCH', body);
+    return this.request('PATCH', '/v2/contact/{id}', { params: { id }, body });
   }
 
   async deleteContact(id: number): Promise<any> { 
-    return this.makeRequest(`/v2/contact/${id}`, 'DELETE'); 
+    return this.request('DELETE', '/v2/contact/{id}', { params: { id } }); 
   }
 
   // Alert Management
   
-  async getAlerts(deviceFilter?: string, since?: string): Promise<any> {
-    return this.makeRequest(`/v2/alerts${this.buildQuery({ df: deviceFilter, since })}`);
+  async getAlerts(deviceFilter?: string, since?: string): Promise<Alert[]> {
+    return this.request('GET', '/v2/alerts', { query: { df: deviceFilter, since } });
   }
 
-  async getAlert(uid: string): Promise<any> { 
-    return this.makeRequest(`/v2/alert/${uid}`); 
+  async getAlert(uid: string): Promise<Alert> { 
+    return this.request('GET', '/v2/alert/{uid}', { params: { uid } }) as Promise<Alert>;
   }
 
   async resetAlert(uid: string): Promise<any> { 
-    return this.makeRequest(`/v2/alert/${uid}`, 'DELETE'); 
+    return this.request('DELETE', '/v2/alert/{uid}', { params: { uid } }); 
   }
 
-  async getDeviceAlerts(id: number, lang?: string): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/alerts${this.buildQuery({ lang })}`);
+  async getDeviceAlerts(id: number, lang?: string): Promise<Alert[]> {
+    return this.request('GET', '/v2/device/{id}/alerts', { params: { id }, query: { lang } });
   }
 
   // User Management
   
-  async getEndUsers(): Promise<any> {
-    return this.makeRequest(this.buildUserCollectionPath('end-users'));
+  async getEndUsers(): Promise<EndUser[]> {
+    return this.request('GET', '/v2/user/end-users');
   }
 
-  async getEndUser(id: number): Promise<any> {
-    return this.makeRequest(this.buildUserEntityPath('end-user', id));
+  async getEndUser(id: number): Promise<EndUser> {
+    return this.request('GET', '/v2/user/end-user/{id}', { params: { id } });
   }
 
   async createEndUser(payload: CreateEndUserPayload, sendInvitation?: boolean): Promise<any> {
     const body = this.pruneUndefined(payload);
-    const query = this.buildQuery({ sendInvitation });
-    const endpoint = this.buildUserCollectionPath('end-users');
-    return this.makeRequest(`${endpoint}${query}`, 'POST', body);
+    return this.request('POST', '/v2/user/end-users', { query: { sendInvitation }, body });
   }
 
   async updateEndUser(
@@ -556,163 +1108,255 @@ export class NinjaOneAPI {
     if (lastName !== undefined) body.lastName = lastName;
     if (email !== undefined) body.email = email;
     if (phone !== undefined) body.phone = phone;  // This will be ignored by the API
-    return this.makeRequest(this.buildUserEntityPath('end-user', id), 'PATCH', body);
+    return this.request('PATCH', '/v2/user/end-user/{id}', { params: { id }, body });
   }
 
   async deleteEndUser(id: number): Promise<any> {
-    return this.makeRequest(this.buildUserEntityPath('end-user', id), 'DELETE');
+    return this.request('DELETE', '/v2/user/end-user/{id}', { params: { id } });
   }
 
-  async getTechnicians(): Promise<any> {
-    return this.makeRequest(this.buildUserCollectionPath('technicians'));
+  async getTechnicians(): Promise<Technician[]> {
+    return this.request('GET', '/v2/user/technicians');
   }
 
-  async getTechnician(id: number): Promise<any> {
-    return this.makeRequest(this.buildUserEntityPath('technician', id));
+  async getTechnician(id: number): Promise<Technician> {
+    return this.request('GET', '/v2/user/technician/{id}', { params: { id } });
   }
 
   async addRoleMembers(roleId: number, userIds: number[]): Promise<any> {
-    return this.makeRequest(`/v2/user/role/${roleId}/add-members`, 'PATCH', userIds);
+    return this.request('PATCH', '/v2/user/role/{roleId}/add-members', { params: { roleId }, body: userIds });
   }
 
   async removeRoleMembers(roleId: number, userIds: number[]): Promise<any> {
-    return this.makeRequest(`/v2/user/role/${roleId}/remove-members`, 'PATCH', userIds);
+    return this.request('PATCH', '/v2/user/role/{roleId}/remove-members', { params: { roleId }, body: userIds });
+  }
+
+  // Pagination
+  // Async iterators yield one page at a time and follow NinjaOne's cursor
+  // (numeric `after` id for lists, `cursor.name` for /v2/queries/*).
+
+  iterateDevices(df?: string, pageSize = NinjaOneAPI.MAX_PAGE_SIZE, after?: number): AsyncGenerator<Device[]> {
+    return paginateById((next) => this.getDevices(df, pageSize, next), pageSize, after);
+  }
+
+  iterateDevicesDetailed(df?: string, pageSize = NinjaOneAPI.MAX_PAGE_SIZE, after?: number): AsyncGenerator<DeviceDetailedListItem[]> {
+    return paginateById((next) => this.getDevicesDetailed(df, pageSize, next), pageSize, after);
+  }
+
+  iterateOrganizations(pageSize = NinjaOneAPI.MAX_PAGE_SIZE, after?: number): AsyncGenerator<Organization[]> {
+    return paginateById((next) => this.getOrganizations(pageSize, next), pageSize, after);
+  }
+
+  iterateQuery<P extends QueryPath>(
+    path: P,
+    df?: string,
+    pageSize = NinjaOneAPI.MAX_PAGE_SIZE,
+    cursor?: string,
+    filters: Record<string, string | undefined> = {}
+  ): AsyncGenerator<QueryRecord<P>[]> {
+    return paginateByCursor<QueryRecord<P>>(
+      (next) => this.request('GET', path, { query: { df, ...filters, cursor: next, pageSize } }) as Promise<QueryResponse<P>>,
+      pageSize,
+      cursor
+    );
   }
 
   // Queries - System Information
   
-  async queryAntivirusStatus(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/antivirus-status${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryAntivirusStatus(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/antivirus-status'>> {
+    return this.request('GET', '/v2/queries/antivirus-status', { query: { df, cursor, pageSize } });
   }
 
-  async queryAntivirusThreats(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/antivirus-threats${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryAntivirusThreats(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/antivirus-threats'>> {
+    return this.request('GET', '/v2/queries/antivirus-threats', { query: { df, cursor, pageSize } });
   }
 
-  async queryComputerSystems(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/computer-systems${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryComputerSystems(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/computer-systems'>> {
+    return this.request('GET', '/v2/queries/computer-systems', { query: { df, cursor, pageSize } });
   }
 
-  async queryDeviceHealth(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/device-health${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryDeviceHealth(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/device-health'>> {
+    return this.request('GET', '/v2/queries/device-health', { query: { df, cursor, pageSize } });
   }
 
-  async queryOperatingSystems(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/operating-systems${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryOperatingSystems(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/operating-systems'>> {
+    return this.request('GET', '/v2/queries/operating-systems', { query: { df, cursor, pageSize } });
   }
 
-  async queryLoggedOnUsers(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/logged-on-users${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryLoggedOnUsers(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/logged-on-users'>> {
+    return this.request('GET', '/v2/queries/logged-on-users', { query: { df, cursor, pageSize } });
   }
 
   // Queries - Hardware
   
-  async queryProcessors(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/processors${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryProcessors(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/processors'>> {
+    return this.request('GET', '/v2/queries/processors', { query: { df, cursor, pageSize } });
   }
 
-  async queryDisks(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/disks${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryDisks(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/disks'>> {
+    return this.request('GET', '/v2/queries/disks', { query: { df, cursor, pageSize } });
   }
 
-  async queryVolumes(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/volumes${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryVolumes(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/volumes'>> {
+    return this.request('GET', '/v2/queries/volumes', { query: { df, cursor, pageSize } });
   }
 
-  async queryNetworkInterfaces(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/network-interfaces${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryNetworkInterfaces(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/network-interfaces'>> {
+    return this.request('GET', '/v2/queries/network-interfaces', { query: { df, cursor, pageSize } });
   }
 
-  async queryRaidControllers(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/raid-controllers${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryRaidControllers(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/raid-controllers'>> {
+    return this.request('GET', '/v2/queries/raid-controllers', { query: { df, cursor, pageSize } });
   }
 
-  async queryRaidDrives(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/raid-drives${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryRaidDrives(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/raid-drives'>> {
+    return this.request('GET', '/v2/queries/raid-drives', { query: { df, cursor, pageSize } });
   }
 
   // Queries - Software and Patches
   
-  async querySoftware(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/software${this.buildQuery({ df, cursor, pageSize })}`);
+  async querySoftware(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/software'>> {
+    return this.request('GET', '/v2/queries/software', { query: { df, cursor, pageSize } });
   }
 
-  async queryOSPatches(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/os-patches${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryOSPatches(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/os-patches'>> {
+    return this.request('GET', '/v2/queries/os-patches', { query: { df, cursor, pageSize } });
   }
 
-  async querySoftwarePatches(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/software-patches${this.buildQuery({ df, cursor, pageSize })}`);
+  async querySoftwarePatches(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/software-patches'>> {
+    return this.request('GET', '/v2/queries/software-patches', { query: { df, cursor, pageSize } });
   }
 
-  async queryOSPatchInstalls(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/os-patch-installs${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryOSPatchInstalls(df?: string, cursor?: string, pageSize?: number, filters: PatchInstallFilters = {}): Promise<QueryResponse<'/v2/queries/os-patch-installs'>> {
+    return this.request('GET', '/v2/queries/os-patch-installs', { query: { df, ...filters, cursor, pageSize } });
   }
 
-  async querySoftwarePatchInstalls(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/software-patch-installs${this.buildQuery({ df, cursor, pageSize })}`);
+  async querySoftwarePatchInstalls(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/software-patch-installs'>> {
+    return this.request('GET', '/v2/queries/software-patch-installs', { query: { df, cursor, pageSize } });
   }
 
-  async queryWindowsServices(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/windows-services${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryWindowsServices(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/windows-services'>> {
+    return this.request('GET', '/v2/queries/windows-services', { query: { df, cursor, pageSize } });
   }
 
   // Queries - Custom Fields and Policies
   
-  async queryCustomFields(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/custom-fields${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryCustomFields(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/custom-fields'>> {
+    return this.request('GET', '/v2/queries/custom-fields', { query: { df, cursor, pageSize } });
   }
 
-  async queryCustomFieldsDetailed(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/custom-fields-detailed${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryCustomFieldsDetailed(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/custom-fields-detailed'>> {
+    return this.request('GET', '/v2/queries/custom-fields-detailed', { query: { df, cursor, pageSize } });
   }
 
-  async queryScopedCustomFields(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/scoped-custom-fields${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryScopedCustomFields(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/scoped-custom-fields'>> {
+    return this.request('GET', '/v2/queries/scoped-custom-fields', { query: { df, cursor, pageSize } });
   }
 
-  async queryScopedCustomFieldsDetailed(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/scoped-custom-fields-detailed${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryScopedCustomFieldsDetailed(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/scoped-custom-fields-detailed'>> {
+    return this.request('GET', '/v2/queries/scoped-custom-fields-detailed', { query: { df, cursor, pageSize } });
   }
 
-  async queryPolicyOverrides(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/policy-overrides${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryPolicyOverrides(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/policy-overrides'>> {
+    return this.request('GET', '/v2/queries/policy-overrides', { query: { df, cursor, pageSize } });
   }
 
   // Queries - Backup
   
-  async queryBackupUsage(df?: string, cursor?: string, pageSize?: number): Promise<any> {
-    return this.makeRequest(`/v2/queries/backup/usage${this.buildQuery({ df, cursor, pageSize })}`);
+  async queryBackupUsage(df?: string, cursor?: string, pageSize?: number): Promise<QueryResponse<'/v2/queries/backup/usage'>> {
+    return this.request('GET', '/v2/queries/backup/usage', { query: { df, cursor, pageSize } });
   }
 
   // Custom Fields - Device
 
   async getDeviceCustomFields(id: number, withInheritance?: boolean): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/custom-fields${this.buildQuery({ withInheritance })}`);
+    return this.request('GET', '/v2/device/{id}/custom-fields', { params: { id }, query: { withInheritance } });
   }
 
-  async updateDeviceCustomFields(id: number, fields: Record<string, unknown>): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/custom-fields`, 'PATCH', fields);
+  async updateDeviceCustomFields(id: number, fields: CustomFieldValues): Promise<any> {
+    return this.request('PATCH', '/v2/device/{id}/custom-fields', { params: { id }, body: this.customFieldBody(fields) });
   }
 
   // Custom Fields - Organization
 
   async getOrganizationCustomFields(id: number, withInheritance?: boolean): Promise<any> {
-    return this.makeRequest(`/v2/organization/${id}/custom-fields${this.buildQuery({ withInheritance })}`);
+    return this.request('GET', '/v2/organization/{id}/custom-fields', { params: { id }, query: { withInheritance } });
   }
 
-  async updateOrganizationCustomFields(id: number, fields: Record<string, unknown>): Promise<any> {
-    return this.makeRequest(`/v2/organization/${id}/custom-fields`, 'PATCH', fields);
+  async updateOrganizationCustomFields(id: number, fields: CustomFieldValues): Promise<any> {
+    return this.request('PATCH', '/v2/organization/{id}/custom-fields', { params: { id }, body: this.customFieldBody(fields) });
   }
 
   // Groups & Device Membership
 
-  async getGroups(): Promise<any> {
-    return this.makeRequest('/v2/groups');
+  async getGroups(): Promise<Group[]> {
+    return this.request('GET', '/v2/groups');
   }
 
   async getGroupDeviceIds(id: number): Promise<any> {
-    return this.makeRequest(`/v2/group/${id}/device-ids`);
+    return this.request('GET', '/v2/group/{id}/device-ids', { params: { id } });
+  }
+
+  // Ticketing
+
+  async createTicket(ticket: NewTicket): Promise<Ticket> {
+    return this.request('POST', '/v2/ticketing/ticket', { body: ticket }) as Promise<Ticket>;
+  }
+
+  async getTicket(ticketId: number): Promise<Ticket> {
+    return this.request('GET', '/v2/ticketing/ticket/{ticketId}', { params: { ticketId } });
+  }
+
+  /**
+   * Replace a ticket. The API requires the full ticket plus the current
+   * `version` for optimistic locking; a stale version is rejected.
+   */
+  async updateTicket(ticketId: number, ticket: UpdateTicket): Promise<Ticket> {
+    return this.request('PUT', '/v2/ticketing/ticket/{ticketId}', { params: { ticketId }, body: ticket }) as Promise<Ticket>;
+  }
+
+  async addTicketComment(ticketId: number, comment: TicketComment): Promise<any> {
+    // This endpoint only accepts multipart/form-data (comment JSON plus optional files).
+    const form = new FormData();
+    form.append('comment', new Blob([JSON.stringify(comment)], { type: 'application/json' }));
+    return this.request('POST', '/v2/ticketing/ticket/{ticketId}/comment', { params: { ticketId }, body: form });
+  }
+
+  async getTicketLogEntries(
+    ticketId: number,
+    type?: TicketLogEntryType,
+    createTime?: string,
+    anchorId?: number,
+    pageSize?: number
+  ): Promise<TicketLogEntry[]> {
+    return this.request('GET', '/v2/ticketing/ticket/{ticketId}/log-entry', {
+      params: { ticketId },
+      query: { type, createTime, anchorId, pageSize }
+    });
+  }
+
+  async getTicketStatuses(): Promise<TicketStatus[]> {
+    return this.request('GET', '/v2/ticketing/statuses');
+  }
+
+  async getTicketForms(): Promise<TicketForm[]> {
+    return this.request('GET', '/v2/ticketing/ticket-form');
+  }
+
+  async getTicketForm(id: number): Promise<TicketForm> {
+    return this.request('GET', '/v2/ticketing/ticket-form/{id}', { params: { id } });
+  }
+
+  async getTicketAttributes(): Promise<TicketAttribute[]> {
+    return this.request('GET', '/v2/ticketing/attributes');
+  }
+
+  async getTicketBoards(): Promise<TicketBoard[]> {
+    return this.request('GET', '/v2/ticketing/trigger/boards');
+  }
+
+  async getBoardTickets(boardId: number, query: TicketBoardQuery = {}): Promise<TicketBoardResult> {
+    return this.request('POST', '/v2/ticketing/trigger/board/{boardId}/run', { params: { boardId }, body: query });
   }
 
   // Global Activities (Audit Log)
@@ -726,16 +1370,16 @@ export class NinjaOneAPI {
     user?: string,
     seriesUid?: string,
     pageSize?: number
-  ): Promise<any> {
-    return this.makeRequest(`/v2/activities${this.buildQuery({
-      class: activityClass, before, after, type, status, user, seriesUid, pageSize
-    })}`);
+  ): Promise<ActivitiesResponse> {
+    return this.request('GET', '/v2/activities', {
+      query: { class: activityClass, before, after, type, status, user, seriesUid, pageSize }
+    });
   }
 
   // Device Activities and Software
   
-  async getDeviceActivities(id: number, pageSize?: number, olderThan?: string): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/activities${this.buildQuery({ pageSize, olderThan })}`);
+  async getDeviceActivities(id: number, pageSize?: number, olderThan?: string, seriesUid?: string): Promise<DeviceActivities> {
+    return this.request('GET', '/v2/device/{id}/activities', { params: { id }, query: { pageSize, olderThan, seriesUid } });
   }
 
   /**
@@ -744,7 +1388,7 @@ export class NinjaOneAPI {
    * @returns Promise resolving to an array of software objects including name, version, publisher, installDate, and location.
    * @throws Error if the device cannot be found or if the caller is unauthorized to view the inventory.
    */
-  async getDeviceSoftware(id: number): Promise<any> {
-    return this.makeRequest(`/v2/device/${id}/software`);
+  async getDeviceSoftware(id: number): Promise<DeviceSoftware> {
+    return this.request('GET', '/v2/device/{id}/software', { params: { id } });
   }
 }
\ No newline at end of file
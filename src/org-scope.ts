@@ -0,0 +1,152 @@
+/**
+ * Organization scope: the tenant boundary for a deployment or HTTP session.
+ * NINJA_ORGANIZATION_SCOPE limits the whole server; an API key role with
+ * `organizations` limits its sessions. When both apply, a session sees only
+ * the organizations in both lists. Organization IDs are only unique within
+ * one NinjaOne instance, so with several instances every ID names its
+ * instance, and an instance without organizations in scope is out of reach.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+/** The organizations in scope on one instance. */
+export class OrganizationScope {
+  readonly organizationIds: ReadonlySet<number>;
+
+  constructor(organizationIds: Iterable<number>) {
+    this.organizationIds = new Set(organizationIds);
+  }
+
+  includes(organizationId: number | null | undefined): boolean {
+    return organizationId != null && this.organizationIds.has(organizationId);
+  }
+
+  /**
+   * Throw unless the organization is in scope. `what` names the record for
+   * the error message, e.g. "Device 12".
+   */
+  assertIncludes(organizationId: number | null | undefined, what: string): void {
+    if (!this.includes(organizationId)) {
+      throw new McpError(ErrorCode.InvalidRequest, `${what} is outside the organization scope of this session`);
+    }
+  }
+
+  /**
+   * Add `org in (...)` to a device filter. NinjaOne device filters only
+   * combine conditions with AND, so a filter using OR is rejected rather
+   * than risk it widening the scope.
+   */
+  restrictFilter(df?: string): string {
+    const orgClause = `org in (${[...this.organizationIds].join(',')})`;
+    const filter = df?.trim();
+    if (!filter) return orgClause;
+    if (/\bor\b/i.test(filter.replace(/'[^']*'/g, "''"))) {
+      throw new McpError(ErrorCode.InvalidParams, 'Device filters cannot use OR while an organization scope is active');
+    }
+    return `${filter} AND ${orgClause}`;
+  }
+
+  filter<T>(items: T[], organizationOf: (item: T) => number | null | undefined): T[] {
+    return items.filter((item) => this.includes(organizationOf(item)));
+  }
+
+  describe(): string {
+    return this.organizationIds.size > 0 ? [...this.organizationIds].join(', ') : 'none';
+  }
+}
+
+/** Key of organization IDs given without an instance; only valid with a single instance. */
+const ANY_INSTANCE = '*';
+
+/**
+ * Organization scopes by instance. An instance with no entry has nothing in
+ * scope, and calls to it are rejected.
+ */
+export class InstanceScopes {
+  private constructor(private readonly scopes: ReadonlyMap<string, OrganizationScope>) {}
+
+  /**
+   * Organization IDs as written in NINJA_ORGANIZATION_SCOPE: `101,102`, or
+   * `us:5,us:7,eu:12` to name the instance of each ID.
+   */
+  static parse(raw: string, source = 'NINJA_ORGANIZATION_SCOPE'): InstanceScopes {
+    const ids = new Map<string, number[]>();
+    for (const entry of raw.split(',').map((part) => part.trim()).filter(Boolean)) {
+      const separator = entry.lastIndexOf(':');
+      const instance = separator >= 0 ? entry.slice(0, separator).trim() : ANY_INSTANCE;
+      const id = Number(entry.slice(separator + 1).trim());
+      if (!instance || !Number.isInteger(id) || id <= 0) {
+        throw new Error(`${source} must be a comma-separated list of organization IDs, optionally as <instance>:<id>, got "${raw}"`);
+      }
+      ids.set(instance, [...(ids.get(instance) ?? []), id]);
+    }
+    return InstanceScopes.of(ids);
+  }
+
+  /**
+   * An API key role's `organizations`: a list of IDs, or an object mapping
+   * instance names to lists, e.g. `{ "us": [5], "eu": [12] }`.
+   */
+  static fromDefinition(organizations: unknown, source: string): InstanceScopes {
+    const isIdList = (value: unknown): value is number[] =>
+      Array.isArray(value) && value.every((id) => Number.isInteger(id) && id > 0);
+    if (isIdList(organizations)) return InstanceScopes.of(new Map([[ANY_INSTANCE, organizations]]));
+    if (organizations && typeof organizations === 'object' && !Array.isArray(organizations)
+      && Object.values(organizations).every(isIdList)) {
+      return InstanceScopes.of(new Map(Object.entries(organizations as Record<string, number[]>)));
+    }
+    throw new Error(`${source} must be an array of organization IDs, or an object mapping instance names to arrays`);
+  }
+
+  /**
+   * Read NINJA_ORGANIZATION_SCOPE. Returns undefined when the variable is unset.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): InstanceScopes | undefined {
+    const raw = env.NINJA_ORGANIZATION_SCOPE?.trim();
+    return raw ? InstanceScopes.parse(raw) : undefined;
+  }
+
+  /**
+   * The scopes a session runs under: the deployment scopes narrowed by the
+   * identity's, instance by instance. Undefined means unrestricted.
+   */
+  static forSession(deployment?: InstanceScopes, identity?: InstanceScopes): InstanceScopes | undefined {
+    if (!identity) return deployment;
+    if (!deployment) return identity;
+    const scopes = new Map<string, number[]>();
+    for (const instance of new Set([...deployment.scopes.keys(), ...identity.scopes.keys()])) {
+      const [outer, inner] = [deployment.get(instance), identity.get(instance)];
+      if (outer && inner) scopes.set(instance, [...inner.organizationIds].filter((id) => outer.includes(id)));
+    }
+    return InstanceScopes.of(scopes);
+  }
+
+  private static of(ids: ReadonlyMap<string, readonly number[]>): InstanceScopes {
+    return new InstanceScopes(new Map([...ids].map(([instance, list]) => [instance, new OrganizationScope(list)])));
+  }
+
+  /** The scope on an instance, or undefined when nothing there is in scope. */
+  get(instance: string): OrganizationScope | undefined {
+    return this.scopes.get(instance) ?? this.scopes.get(ANY_INSTANCE);
+  }
+
+  /**
+   * Check the scopes against the configured instances: every instance named
+   * must exist, and IDs without an instance need a single instance.
+   */
+  validate(instances: readonly string[], source: string): void {
+    const unknown = [...this.scopes.keys()].filter((name) => name !== ANY_INSTANCE && !instances.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`${source} names unknown instance(s): ${unknown.join(', ')}`);
+    }
+    if (this.scopes.has(ANY_INSTANCE) && instances.length > 1) {
+      throw new Error(`${source} must name the instance of every organization ID when several instances are configured`);
+    }
+  }
+
+  describe(): string {
+    return [...this.scopes]
+      .map(([instance, scope]) => instance === ANY_INSTANCE ? scope.describe() : `${instance}: ${scope.describe()}`)
+      .join('; ');
+  }
+}
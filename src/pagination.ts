@@ -0,0 +1,102 @@
+/**
+ * Pagination helpers for the NinjaOne API.
+ * NinjaOne uses two cursor styles:
+ * - list endpoints (/v2/devices, /v2/organizations) take a numeric `after`
+ *   id and return a plain array;
+ * - /v2/queries/* endpoints return { cursor: { name, ... }, results } and
+ *   take `cursor=<name>` to fetch the next page.
+ * Both are exposed as async generators that yield one page at a time.
+ */
+
+import type { QueryCursor } from './types/models.js';
+
+export interface CollectedPages<T> {
+  results: T[];
+  pages: number;
+  totalRecords: number;
+  /** True when the walk stopped at maxRecords; more records may exist. */
+  truncated: boolean;
+}
+
+/**
+ * Walk an id-cursor listing: each page starts after the last id of the previous one.
+ */
+export async function* paginateById<T extends { id?: number }>(
+  fetchPage: (after: number | undefined) => Promise<T[]>,
+  pageSize: number,
+  startAfter?: number
+): AsyncGenerator<T[], void, undefined> {
+  let after = startAfter;
+  while (true) {
+    const page = await fetchPage(after);
+    if (!Array.isArray(page) || page.length === 0) return;
+    yield page;
+    const lastId = page[page.length - 1]?.id;
+    if (page.length < pageSize || lastId === undefined) return;
+    after = lastId;
+  }
+}
+
+/**
+ * Walk a /v2/queries/* report by following `cursor.name` until a short or empty page.
+ */
+export async function* paginateByCursor<T>(
+  fetchPage: (cursor: string | undefined) => Promise<{ cursor?: QueryCursor; results?: T[] }>,
+  pageSize: number,
+  startCursor?: string
+): AsyncGenerator<T[], void, undefined> {
+  let cursor = startCursor;
+  while (true) {
+    const response = await fetchPage(cursor);
+    const page = response?.results;
+    if (!Array.isArray(page) || page.length === 0) return;
+    yield page;
+    const next = response.cursor?.name;
+    if (page.length < pageSize || !next) return;
+    cursor = next;
+  }
+}
+
+/** Called after each page is collected, e.g. to send progress notifications. */
+export type PageProgress = (records: number, pages: number) => void | Promise<void>;
+
+/**
+ * Drain a page iterator into a single array, stopping once maxRecords is
+ * reached. `truncated` is only set when records beyond maxRecords exist: a
+ * page that overshoots, or another page after one that fills it exactly.
+ */
+export async function collectPages<T>(
+  pages: AsyncIterable<T[]>,
+  maxRecords = Number.POSITIVE_INFINITY,
+  onPage?: PageProgress
+): Promise<CollectedPages<T>> {
+  const results: T[] = [];
+  let pageCount = 0;
+  let truncated = false;
+  const iterator = pages[Symbol.asyncIterator]();
+
+  try {
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) break;
+      pageCount++;
+      results.push(...next.value);
+      if (results.length > maxRecords) {
+        truncated = true;
+        results.length = maxRecords;
+      }
+      await onPage?.(results.length, pageCount);
+      if (truncated) break;
+      if (results.length === maxRecords) {
+        // Exactly full: only a further non-empty page means records were left out.
+        const more = await iterator.next();
+        truncated = !more.done && more.value.length > 0;
+        break;
+      }
+    }
+  } finally {
+    await iterator.return?.();
+  }
+
+  return { results, pages: pageCount, totalRecords: results.length, truncated };
+}
@@ -0,0 +1,179 @@
+/**
+ * MCP prompts for recurring MSP workflows (see docs/SecurityReview.md).
+ * Each prompt expands into a single user message that names the tools to
+ * call, in order, and how to present the results. Prompts only orchestrate
+ * existing tools; they never call NinjaOne themselves.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render: (args: Record<string, string>) => string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'org_security_review',
+    description: 'Monthly security posture review for one customer organization',
+    arguments: [
+      { name: 'organizationId', description: 'NinjaONE organization ID', required: true },
+      { name: 'period', description: 'Reporting period label (e.g., "March 2025"); defaults to the last 30 days' }
+    ],
+    render: ({ organizationId, period }) => {
+      const df = `org = ${organizationId}`;
+      return `Produce a security posture review for NinjaONE organization ${organizationId} covering ${period || 'the last 30 days'}.
+
+Call these tools in order, using the device filter df "${df}" wherever a tool accepts df. Use all: true on list and query tools so no devices are missed.
+1. get_organization (id ${organizationId}) for the customer name, then get_organization_locations.
+2. get_devices with df "${df}" and all: true for the device inventory. Count devices by nodeClass and note offline ones.
+3. query_antivirus_status: devices with no antivirus product, protection disabled, or out-of-date definitions.
+4. query_antivirus_threats: active or unresolved threats.
+5. query_os_patches and query_software_patches: missing patches, grouped by severity. Critical and important patches come first.
+6. query_device_health: unhealthy devices and devices that have not checked in.
+7. query_backup_usage: devices without a recent successful backup.
+8. get_alerts with df "${df}": open alerts, grouped by severity.
+
+Present the results as:
+- A one-paragraph executive summary with an overall risk rating (Low / Medium / High) and the three most important findings.
+- A coverage table: total devices, antivirus coverage %, devices fully patched %, devices with a recent backup %, offline devices.
+- One section each for patching, antivirus, device health, backup and open alerts, listing the affected devices by name.
+- Prioritized recommendations, most urgent first.
+Do not change anything in NinjaONE during the review. Report a failed tool call as a gap in the review and continue.`;
+    }
+  },
+  {
+    name: 'device_triage',
+    description: 'Investigate a device, or an alert raised on it, and recommend next steps',
+    arguments: [
+      { name: 'deviceId', description: 'NinjaONE device ID', required: true },
+      { name: 'alertUid', description: 'UID of the alert being triaged (optional)' }
+    ],
+    render: ({ deviceId, alertUid }) => {
+      const df = `id = ${deviceId}`;
+      const alertStep = alertUid
+        ? `1. get_alert (uid ${alertUid}) to read the alert's condition, message and when it was raised.`
+        : `1. get_device_alerts (id ${deviceId}) to list the device's open alerts.`;
+      return `Triage NinjaONE device ${deviceId}${alertUid ? `, starting from alert ${alertUid}` : ''}.
+
+Call these tools in order:
+${alertStep}
+2. get_device (id ${deviceId}): name, organization, OS, online status, last contact and maintenance state.
+3. get_device_activities (id ${deviceId}): recent events leading up to the problem.
+4. query_device_health, query_disks and query_volumes with df "${df}": resource pressure such as low disk space or failing disks.
+5. query_os_patches and query_antivirus_status with df "${df}": missing patches or antivirus problems that could explain the alert.
+6. get_device_jobs (id ${deviceId}): anything already running on the device.
+7. query_logged_on_users with df "${df}", if the device has an active user who may be affected.
+
+Present the results as:
+- A short diagnosis: the most likely cause, with the evidence for it.
+- The device facts that matter for this issue (name, organization, OS, last contact).
+- Recommended remediation steps, each naming the tool that would perform it (for example run_device_script, control_windows_service or reboot_device), marked as safe or disruptive.
+Do not run any remediation. Ask for confirmation first. If the issue needs follow-up, offer to open a ticket with create_ticket${alertUid ? ` using alertUid ${alertUid}` : ''}.`;
+    }
+  },
+  {
+    name: 'org_onboarding',
+    description: 'Set up a new customer organization with locations, contacts and an agent installer',
+    arguments: [
+      { name: 'organizationName', description: 'Name of the new organization', required: true },
+      { name: 'locations', description: 'Comma-separated location names (default: a single "Main Office")' },
+      { name: 'primaryContactEmail', description: 'Email address of the customer\'s primary contact' }
+    ],
+    render: ({ organizationName, locations, primaryContactEmail }) => {
+      const locationNames = (locations || 'Main Office').split(',').map((name) => name.trim()).filter(Boolean);
+      return `Onboard "${organizationName}" as a new NinjaONE customer organization.
+
+Work through these steps in order. Confirm the plan with me before step 3, because it creates records.
+1. get_organizations: check that "${organizationName}" does not already exist. If it does, stop and report the existing organization.
+2. get_policies: pick a suitable policy for Windows workstations and servers. List the candidates and ask me which to use if it is not obvious.
+3. create_organization: name "${organizationName}", with nodeApprovalMode MANUAL so new devices need approval.
+4. create_location for each of: ${locationNames.map((name) => `"${name}"`).join(', ')}.
+5. ${primaryContactEmail ? `create_contact for the primary contact ${primaryContactEmail}, asking me for the first and last name.` : 'Ask me whether to add a primary contact, and if so use create_contact.'}
+6. generate_organization_installer: a WINDOWS installer for each new location.
+
+Finish with a checklist: the organization ID, each location ID with its installer link, the contact created, and the remaining manual steps (assign the policy in the dashboard, deploy the installers, approve the first devices with approve_devices).`;
+    }
+  },
+  {
+    name: 'patch_tuesday_followup',
+    description: 'After Patch Tuesday, find devices still missing OS patches or with failed installs and plan remediation',
+    arguments: [
+      { name: 'organizationId', description: 'Limit to one organization (default: all organizations)' },
+      { name: 'since', description: 'Only consider patch installs after this date (e.g. 2025-01-14, default: 14 days ago)' }
+    ],
+    render: ({ organizationId, since }) => {
+      const scope = organizationId ? `organization ${organizationId}` : 'all organizations';
+      const dfNote = organizationId ? ` with df "org = ${organizationId}"` : '';
+      const installedAfter = since || new Date(Date.now() - 14 * DAY_MS).toISOString().slice(0, 10);
+      return `Follow up on this month's Patch Tuesday for ${scope}, considering patch activity since ${installedAfter}.
+
+Call these tools in order, with all: true on query tools:
+1. query_os_patch_installs with installedAfter "${installedAfter}"${organizationId ? ` and df "org = ${organizationId}"` : ''}: installs in the period, split into succeeded and failed. Group failures by KB and by device.
+2. query_os_patches${dfNote}: patches still pending, focusing on critical and security updates.
+3. query_device_health${dfNote}: devices that are offline or have not checked in, because they cannot receive patches.
+4. For devices with pending critical patches and no failures, propose scan_device_os_patches followed by apply_device_os_patches with waitForJob: true.
+5. For devices with repeated failures, propose opening a ticket with create_ticket that lists the failed KBs.
+
+Present the results as:
+- Summary counts: devices fully patched, devices pending patches, devices with failed installs, devices offline.
+- A table of failed installs (device, KB, failure count) and a table of pending critical patches (device, KB, release date).
+- The remediation plan from steps 4 and 5.
+Ask for confirmation before running any apply_device_os_patches call or creating tickets.`;
+    }
+  }
+];
+
+/**
+ * Registers the prompts capability handlers. Shared across Server instances.
+ */
+export class PromptHandler {
+  register(server: Server) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: PROMPTS.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }))
+    }));
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args = {} } = request.params;
+      const prompt = PROMPTS.find((candidate) => candidate.name === name);
+      if (!prompt) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+      }
+      this.validateArguments(prompt, args);
+
+      return {
+        description: prompt.description,
+        messages: [{ role: 'user' as const, content: { type: 'text' as const, text: prompt.render(args) } }]
+      };
+    });
+  }
+
+  private validateArguments(prompt: PromptDefinition, args: Record<string, string>) {
+    for (const argument of prompt.arguments) {
+      const value = args[argument.name]?.trim();
+      if (argument.required && !value) {
+        throw new McpError(ErrorCode.InvalidParams, `Prompt ${prompt.name} requires ${argument.name}`);
+      }
+      // IDs are interpolated into device filters, so only accept plain integers.
+      if (value && argument.name.endsWith('Id') && !/^\d+$/.test(value)) {
+        throw new McpError(ErrorCode.InvalidParams, `${argument.name} must be a numeric ID`);
+      }
+    }
+  }
+}
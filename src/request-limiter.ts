@@ -0,0 +1,186 @@
+/**
+ * Client-side limits on NinjaOne requests, shared by every session.
+ * A request needs a free slot (NINJA_MAX_CONCURRENT_REQUESTS in flight) and
+ * a token from a bucket refilled at NINJA_REQUESTS_PER_MINUTE. Requests that
+ * cannot start wait in one queue per session, served round-robin, so a
+ * session paging the whole fleet cannot starve another's single lookup.
+ */
+
+import { RequestCancelledError } from './errors.js';
+
+export interface RequestLimiterOptions {
+  maxConcurrent: number;
+  /** Sustained request rate; 0 disables the rate limit. */
+  requestsPerMinute: number;
+  /** Requests that may start back to back before the rate applies. */
+  burst: number;
+}
+
+export interface RequestLimiterStats {
+  inFlight: number;
+  queued: number;
+  /** Sessions with at least one queued request. */
+  queuedSessions: number;
+  /** Requests that had to wait for a slot or a token since startup. */
+  waitedRequests: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  tokensAvailable: number | null;
+  limits: RequestLimiterOptions;
+}
+
+interface Waiter {
+  enqueuedAt: number;
+  start: () => void;
+  cancel: () => void;
+}
+
+export class RequestLimiter {
+  private readonly queues = new Map<string, Waiter[]>();
+  private inFlight = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private refillTimer: NodeJS.Timeout | undefined;
+  private waitedRequests = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(private readonly options: RequestLimiterOptions) {
+    this.tokens = options.burst;
+  }
+
+  /**
+   * Read NINJA_MAX_CONCURRENT_REQUESTS (default 8), NINJA_REQUESTS_PER_MINUTE
+   * (default 600, 0 for no rate limit) and NINJA_REQUEST_BURST (default 30).
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): RequestLimiter {
+    const read = (name: string, fallback: number, min: number): number => {
+      const parsed = parseInt(env[name] || '', 10);
+      return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+    };
+    return new RequestLimiter({
+      maxConcurrent: read('NINJA_MAX_CONCURRENT_REQUESTS', 8, 1),
+      requestsPerMinute: read('NINJA_REQUESTS_PER_MINUTE', 600, 0),
+      burst: read('NINJA_REQUEST_BURST', 30, 1)
+    });
+  }
+
+  /**
+   * Run `send` once a slot and a token are free. `queue` names the fairness
+   * queue, normally the MCP session. Waiting ends with RequestCancelledError
+   * when `signal` aborts.
+   */
+  async run<T>(queue: string, send: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(queue, signal);
+    try {
+      return await send();
+    } finally {
+      this.inFlight--;
+      this.dispatch();
+    }
+  }
+
+  stats(): RequestLimiterStats {
+    this.refill();
+    let queued = 0;
+    for (const waiters of this.queues.values()) queued += waiters.length;
+    return {
+      inFlight: this.inFlight,
+      queued,
+      queuedSessions: this.queues.size,
+      waitedRequests: this.waitedRequests,
+      averageWaitMs: this.waitedRequests > 0 ? Math.round(this.totalWaitMs / this.waitedRequests) : 0,
+      maxWaitMs: this.maxWaitMs,
+      tokensAvailable: this.options.requestsPerMinute > 0 ? Math.floor(this.tokens) : null,
+      limits: { ...this.options }
+    };
+  }
+
+  describe(): string {
+    const { maxConcurrent, requestsPerMinute, burst } = this.options;
+    const rate = requestsPerMinute > 0 ? `${requestsPerMinute}/min (burst ${burst})` : 'no rate limit';
+    return `${maxConcurrent} in flight, ${rate}`;
+  }
+
+  private acquire(queue: string, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(new RequestCancelledError());
+    if (this.queues.size === 0 && this.inFlight < this.options.maxConcurrent && this.takeToken()) {
+      this.inFlight++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => waiter.cancel();
+      const waiter: Waiter = {
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+        cancel: () => {
+          const waiters = this.queues.get(queue);
+          const index = waiters?.indexOf(waiter) ?? -1;
+          if (index === -1) return;
+          waiters!.splice(index, 1);
+          if (waiters!.length === 0) this.queues.delete(queue);
+          reject(new RequestCancelledError());
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      const waiters = this.queues.get(queue);
+      if (waiters) waiters.push(waiter);
+      else this.queues.set(queue, [waiter]);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Start queued requests while slots and tokens last, taking one request
+   * per session in turn. Map order is the rotation: a served session moves
+   * to the back.
+   */
+  private dispatch() {
+    while (this.queues.size > 0 && this.inFlight < this.options.maxConcurrent) {
+      if (!this.takeToken()) {
+        this.scheduleRefill();
+        return;
+      }
+      const [queue, waiters] = this.queues.entries().next().value!;
+      const waiter = waiters.shift()!;
+      this.queues.delete(queue);
+      if (waiters.length > 0) this.queues.set(queue, waiters);
+
+      const waitedMs = Date.now() - waiter.enqueuedAt;
+      this.waitedRequests++;
+      this.totalWaitMs += waitedMs;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waitedMs);
+      this.inFlight++;
+      waiter.start();
+    }
+  }
+
+  private refill() {
+    const { requestsPerMinute, burst } = this.options;
+    if (requestsPerMinute <= 0) return;
+    const now = Date.now();
+    this.tokens = Math.min(burst, this.tokens + ((now - this.lastRefill) * requestsPerMinute) / 60_000);
+    this.lastRefill = now;
+  }
+
+  private takeToken(): boolean {
+    if (this.options.requestsPerMinute <= 0) return true;
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  private scheduleRefill() {
+    if (this.refillTimer) return;
+    const waitMs = Math.ceil(((1 - this.tokens) * 60_000) / this.options.requestsPerMinute);
+    this.refillTimer = setTimeout(() => {
+      this.refillTimer = undefined;
+      this.dispatch();
+    }, Math.max(1, waitMs));
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * MCP resources: NinjaOne records addressable by URI, so clients can attach a
+ * device, organization or alert as context without a tool call.
+ * resources/list enumerates organizations one API page at a time; devices
+ * and alerts are reachable through the templates only. Under an organization
+ * scope, records outside it are neither listed nor readable. Each resource
+ * mirrors a tool, and is only offered where the tool policies allow that tool.
+ * An `?instance=` query picks the instance; without it the default instance
+ * is read. Reads run in a call context carrying the session, as tool calls do.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import {
+  ErrorCode,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { AccessIdentity } from './access-control.js';
+import { runWithCallContext } from './context.js';
+import type { CallContext } from './context.js';
+import type { NinjaOneAPI } from './ninja-api.js';
+import { NinjaOneError, toMcpError } from './errors.js';
+import type { InstanceRegistry, NinjaInstance } from './instances.js';
+import type { InstanceScopes, OrganizationScope } from './org-scope.js';
+import type { ToolPolicy } from './tool-policy.js';
+
+const MIME_TYPE = 'application/json';
+
+interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  /** The tool returning the same data; the resource follows its policy. */
+  tool: string;
+  read: (api: NinjaOneAPI, variables: Record<string, string>) => Promise<any>;
+  /** Organization the record belongs to, checked against the scope after reading. */
+  organizationOf: (data: any, variables: Record<string, string>) => number | undefined;
+}
+
+const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+  {
+    uriTemplate: 'ninjaone://device/{id}',
+    name: 'device',
+    description: 'Device details: system and OS, organization, location, policy and maintenance state',
+    tool: 'get_device',
+    read: (api, { id }) => api.getDevice(parseId(id)),
+    organizationOf: (device) => device.organizationId
+  },
+  {
+    uriTemplate: 'ninjaone://organization/{id}',
+    name: 'organization',
+    description: 'Organization details, settings and custom fields',
+    tool: 'get_organization',
+    read: (api, { id }) => api.getOrganization(parseId(id)),
+    organizationOf: (organization) => organization.id
+  },
+  {
+    uriTemplate: 'ninjaone://organization/{id}/locations',
+    name: 'organization-locations',
+    description: 'Locations of an organization',
+    tool: 'get_organization_locations',
+    read: (api, { id }) => api.getOrganizationLocations(parseId(id)),
+    organizationOf: (_locations, { id }) => parseId(id)
+  },
+  {
+    uriTemplate: 'ninjaone://alert/{uid}',
+    name: 'alert',
+    description: 'A triggered alert (condition) by UID',
+    tool: 'get_alert',
+    read: (api, { uid }) => api.getAlert(uid ?? ''),
+    organizationOf: (alert) => alert.device?.organizationId
+  }
+];
+
+/** resources/list enumerates organizations, as get_organizations does. */
+const LIST_TOOL = 'get_organizations';
+
+/** The parts of a request handler's `extra` argument that reads use. */
+interface RequestExtra {
+  signal: AbortSignal;
+  sessionId?: string | undefined;
+}
+
+/** Optional query on every template, naming the instance to read. */
+const INSTANCE_QUERY = '{?instance}';
+
+const MATCHERS = RESOURCE_TEMPLATES.map((definition) => ({
+  definition,
+  template: new UriTemplate(definition.uriTemplate)
+}));
+
+/** A percent-decoded URI variable; malformed escapes are the client's mistake. */
+function decodeVariable(value: string, uri: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Malformed resource URI: ${uri}`);
+  }
+}
+
+function parseId(raw: string | undefined): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource ID: ${raw}`);
+  }
+  return id;
+}
+
+/**
+ * Split a resource URI into the path matched by the templates and the
+ * instance named by its query, the only query parameter accepted.
+ */
+function splitInstance(uri: string): { path: string; instance?: string } {
+  const queryStart = uri.indexOf('?');
+  if (queryStart < 0) return { path: uri };
+  const query = new URLSearchParams(uri.slice(queryStart + 1));
+  const instance = query.get('instance');
+  if (!instance || [...query.keys()].some((key) => key !== 'instance')) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+  }
+  return { path: uri.slice(0, queryStart), instance };
+}
+
+/**
+ * Registers the resources capability handlers for one session.
+ */
+export class ResourceHandler {
+  private static readonly PAGE_SIZE = 100;
+
+  /**
+   * `policies` are the deployment policy and, for HTTP sessions, the API
+   * key's role; all of them must allow a resource's tool. `scopes` is the
+   * session's organization scope and `identity` its API key, as for tools.
+   */
+  constructor(
+    private instances: InstanceRegistry,
+    private policies: readonly ToolPolicy[],
+    private scopes?: InstanceScopes,
+    private identity?: AccessIdentity
+  ) {}
+
+  private isAllowed(tool: string): boolean {
+    return this.policies.every((policy) => policy.isAllowed(tool));
+  }
+
+  register(server: Server) {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES.filter(({ tool }) => this.isAllowed(tool)).map(({ uriTemplate, name, description }) => ({
+        uriTemplate: `${uriTemplate}${INSTANCE_QUERY}`,
+        name,
+        description,
+        mimeType: MIME_TYPE
+      }))
+    }));
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+      const cursor = request.params?.cursor;
+      return this.withMcpErrors(() => this.listOrganizations(extra, cursor));
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      return this.withMcpErrors(() => this.read(extra, uri));
+    });
+  }
+
+  /**
+   * Run a read for the session on one instance, so request limits are shared
+   * fairly and the API client sees the session's identity.
+   */
+  private inContext<T>(extra: RequestExtra, instance: NinjaInstance, fn: (api: NinjaOneAPI) => Promise<T>): Promise<T> {
+    const context: CallContext = {
+      signal: extra.signal,
+      instance: instance.name,
+      ...(this.identity ? { identity: this.identity } : {}),
+      ...(extra.sessionId ? { sessionId: extra.sessionId } : {})
+    };
+    return runWithCallContext(context, () => fn(instance.api));
+  }
+
+  /** Instances with organizations in the session's scope, in configuration order. */
+  private reachableInstances(): NinjaInstance[] {
+    return this.instances.list().filter((instance) => !this.scopes || this.scopes.get(instance.name) !== undefined);
+  }
+
+  /** The scope on an instance; undefined when unrestricted. Throws when nothing on it is in scope. */
+  private scopeOf(instance: NinjaInstance): OrganizationScope | undefined {
+    if (!this.scopes) return undefined;
+    const scope = this.scopes.get(instance.name);
+    if (!scope) {
+      throw new McpError(ErrorCode.InvalidRequest, `Instance ${instance.name} is outside the organization scope of this session`);
+    }
+    return scope;
+  }
+
+  /**
+   * One page of organizations, instance after instance. The MCP cursor is
+   * `<instance>:<after>`, where `after` is the last organization ID of the
+   * previous page (NinjaOne's `after` parameter), empty at an instance's start.
+   */
+  private async listOrganizations(extra: RequestExtra, cursor?: string) {
+    if (!this.isAllowed(LIST_TOOL)) return { resources: [] };
+    const reachable = this.reachableInstances();
+    let index = 0;
+    let after: number | undefined;
+    if (cursor !== undefined) {
+      const separator = cursor.lastIndexOf(':');
+      index = reachable.findIndex((instance) => instance.name === cursor.slice(0, separator));
+      const rawAfter = cursor.slice(separator + 1);
+      after = rawAfter === '' ? undefined : Number(rawAfter);
+      if (separator < 0 || index < 0 || (after !== undefined && (!Number.isInteger(after) || after < 0))) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+      }
+    }
+    const instance = reachable[index];
+    if (!instance) return { resources: [] };
+
+    const scope = this.scopeOf(instance);
+    const organizations = await this.inContext(extra, instance, (api) => api.getOrganizations(ResourceHandler.PAGE_SIZE, after));
+    const query = this.instances.isDefault(instance.name) ? '' : `?instance=${encodeURIComponent(instance.name)}`;
+    const resources = organizations
+      .filter((org) => org.id !== undefined && (!scope || scope.includes(org.id)))
+      .map((org) => ({
+        uri: `ninjaone://organization/${org.id}${query}`,
+        name: org.name ?? `Organization ${org.id}`,
+        ...(org.description ? { description: org.description } : {}),
+        mimeType: MIME_TYPE
+      }));
+
+    const lastId = organizations[organizations.length - 1]?.id;
+    const next = organizations.length === ResourceHandler.PAGE_SIZE && lastId !== undefined
+      ? `${instance.name}:${lastId}`
+      : reachable[index + 1] ? `${reachable[index + 1]!.name}:` : undefined;
+    return { resources, ...(next ? { nextCursor: next } : {}) };
+  }
+
+  private async read(extra: RequestExtra, uri: string) {
+    const { path, instance: instanceName } = splitInstance(uri);
+    for (const { definition, template } of MATCHERS) {
+      const match = template.match(path);
+      if (!match) continue;
+      if (!this.isAllowed(definition.tool)) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} is not available on this server`);
+      }
+      const variables = Object.fromEntries(
+        Object.entries(match).map(([key, value]) => [key, decodeVariable(Array.isArray(value) ? value.join(',') : value, uri)])
+      );
+      const instance = this.instances.get(instanceName);
+      const scope = this.scopeOf(instance);
+      const data = await this.inContext(extra, instance, (api) => definition.read(api, variables));
+      scope?.assertIncludes(definition.organizationOf(data, variables), `Resource ${uri}`);
+      return {
+        contents: [{ uri, mimeType: MIME_TYPE, text: JSON.stringify(data, null, 2) }]
+      };
+    }
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+  }
+
+  private async withMcpErrors<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+      if (error instanceof NinjaOneError) {
+        console.error(`Resource request failed after ${error.attempts} attempt(s):`, error.message);
+        throw toMcpError(error);
+      }
+      console.error('Resource request failed:', error instanceof Error ? error.message : String(error));
+      throw new McpError(ErrorCode.InternalError, 'Resource request failed. Check server logs for details.');
+    }
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * In-memory cache of slow-changing NinjaOne GET responses, enabled with
+ * NINJA_CACHE=on. One cache serves every session of the process. Each cached endpoint
+ * belongs to a rule with its own TTL; the least recently used entry is
+ * evicted once the size limit is reached. A mutating request drops the
+ * cached responses of the resource it touched, e.g. updating a location of
+ * organization 5 clears organization 5 and the organization list.
+ */
+
+export interface CacheRule {
+  name: string;
+  /** Matched against the endpoint path without its query string. */
+  pattern: RegExp;
+  ttlSeconds: number;
+}
+
+/** Endpoints worth caching and how long their data stays fresh by default. */
+export const DEFAULT_CACHE_RULES: readonly CacheRule[] = [
+  { name: 'organizations', pattern: /^\/v2\/organizations$|^\/v2\/organization\/\d+(\/(locations|policies))?$/, ttlSeconds: 300 },
+  { name: 'policies', pattern: /^\/v2\/policies$/, ttlSeconds: 600 },
+  { name: 'groups', pattern: /^\/v2\/groups$|^\/v2\/group\/\d+\/device-ids$/, ttlSeconds: 300 },
+  { name: 'devices', pattern: /^\/v2\/devices(-detailed)?$/, ttlSeconds: 60 },
+  { name: 'ticketing', pattern: /^\/v2\/ticketing\/(statuses|ticket-form(\/\d+)?|attributes|trigger\/boards)$/, ttlSeconds: 600 }
+];
+
+export interface CacheOptions {
+  rules: readonly CacheRule[];
+  maxEntries: number;
+}
+
+export interface CacheRuleStats {
+  ttlSeconds: number;
+  entries: number;
+  hits: number;
+  misses: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  /** Hits divided by lookups, or null before the first lookup. */
+  hitRate: number | null;
+  evictions: number;
+  invalidations: number;
+  rules: Record<string, CacheRuleStats>;
+}
+
+interface CacheEntry {
+  rule: string;
+  resource: Resource;
+  value: unknown;
+  expiresAt: number;
+}
+
+/** The record family an endpoint belongs to, and the record ID if it names one. */
+interface Resource {
+  family: string;
+  id?: string;
+}
+
+/** Path prefixes whose second segment names the record family. */
+const NAMESPACES = new Set(['ticketing', 'user']);
+
+/**
+ * Record family of each list and record path prefix. Prefixes not listed
+ * are their own family.
+ */
+const FAMILIES: Readonly<Record<string, string>> = {
+  organization: 'organization',
+  organizations: 'organization',
+  'organizations-detailed': 'organization',
+  device: 'device',
+  devices: 'device',
+  'devices-detailed': 'device',
+  group: 'group',
+  groups: 'group',
+  policy: 'policy',
+  policies: 'policy',
+  alert: 'alert',
+  alerts: 'alert',
+  contact: 'contact',
+  contacts: 'contact'
+};
+
+/**
+ * `/v2/organization/5/locations` and `/v2/organizations` are both the
+ * "organization" family; only the first names organization 5.
+ */
+function resourceOf(endpoint: string): Resource {
+  const segments = (endpoint.split('?')[0] ?? '').split('/').slice(2);
+  const length = NAMESPACES.has(segments[0] ?? '') ? 2 : 1;
+  const prefix = segments.slice(0, length).join('/');
+  const family = FAMILIES[prefix] ?? prefix;
+  const id = segments[length];
+  return id && /^\d+$/.test(id) ? { family, id } : { family };
+}
+
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private readonly counters = new Map<string, { hits: number; misses: number }>();
+  private evictions = 0;
+  private invalidations = 0;
+
+  constructor(private readonly options: CacheOptions) {
+    for (const rule of options.rules) this.counters.set(rule.name, { hits: 0, misses: 0 });
+  }
+
+  /**
+   * Read NINJA_CACHE (`on` enables caching; off by default), NINJA_CACHE_MAX_ENTRIES
+   * (default 500) and NINJA_CACHE_TTL, a comma-separated list of
+   * `rule=seconds` overrides such as `devices=30,organizations=900`.
+   * A TTL of 0 turns a rule off. Returns undefined when caching is disabled.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ResponseCache | undefined {
+    const enabled = (env.NINJA_CACHE ?? '').trim().toLowerCase();
+    if (!['on', 'true', '1', 'yes'].includes(enabled)) return undefined;
+
+    const ttls = new Map(DEFAULT_CACHE_RULES.map((rule) => [rule.name, rule.ttlSeconds]));
+    for (const entry of (env.NINJA_CACHE_TTL ?? '').split(',').map((part) => part.trim()).filter(Boolean)) {
+      const [name = '', value = ''] = entry.split('=').map((part) => part.trim());
+      const seconds = Number(value);
+      if (!ttls.has(name) || value === '' || !Number.isInteger(seconds) || seconds < 0) {
+        throw new Error(
+          `NINJA_CACHE_TTL entries must be <rule>=<seconds> with rule one of ${[...ttls.keys()].join(', ')}, got "${entry}"`
+        );
+      }
+      ttls.set(name, seconds);
+    }
+
+    const maxEntries = parseInt(env.NINJA_CACHE_MAX_ENTRIES || '', 10);
+    return new ResponseCache({
+      rules: DEFAULT_CACHE_RULES
+        .map((rule) => ({ ...rule, ttlSeconds: ttls.get(rule.name) ?? rule.ttlSeconds }))
+        .filter((rule) => rule.ttlSeconds > 0),
+      maxEntries: Number.isFinite(maxEntries) && maxEntries >= 1 ? maxEntries : 500
+    });
+  }
+
+  /** The rule caching this endpoint, or undefined when it is not cached. */
+  ruleFor(endpoint: string): CacheRule | undefined {
+    const path = endpoint.split('?')[0] ?? endpoint;
+    return this.options.rules.find((rule) => rule.pattern.test(path));
+  }
+
+  /**
+   * The cached response, or undefined on a miss. `endpoint` is the full
+   * path including the query string.
+   */
+  get(endpoint: string): unknown {
+    const rule = this.ruleFor(endpoint);
+    if (!rule) return undefined;
+    const counter = this.counters.get(rule.name)!;
+    const entry = this.entries.get(endpoint);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(endpoint);
+      counter.misses++;
+      return undefined;
+    }
+    // Re-insert so iteration order stays least recently used first.
+    this.entries.delete(endpoint);
+    this.entries.set(endpoint, entry);
+    counter.hits++;
+    // Copies, so a caller changing a result cannot change what others get.
+    return structuredClone(entry.value);
+  }
+
+  set(endpoint: string, value: unknown): void {
+    const rule = this.ruleFor(endpoint);
+    if (!rule) return;
+    this.entries.delete(endpoint);
+    while (this.entries.size >= this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+    this.entries.set(endpoint, {
+      rule: rule.name,
+      resource: resourceOf(endpoint),
+      value: structuredClone(value),
+      expiresAt: Date.now() + rule.ttlSeconds * 1000
+    });
+  }
+
+  /**
+   * Drop what a mutating request may have changed: the lists of its record
+   * family and everything cached about the record it names.
+   */
+  invalidate(endpoint: string): void {
+    const changed = resourceOf(endpoint);
+    for (const [key, entry] of this.entries) {
+      if (entry.resource.family !== changed.family) continue;
+      if (changed.id === undefined || entry.resource.id === undefined || entry.resource.id === changed.id) {
+        this.entries.delete(key);
+        this.invalidations++;
+      }
+    }
+  }
+
+  clear(): void {
+    this.invalidations += this.entries.size;
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    const now = Date.now();
+    const rules: Record<string, CacheRuleStats> = {};
+    let hits = 0;
+    let misses = 0;
+    for (const rule of this.options.rules) {
+      const counter = this.counters.get(rule.name)!;
+      hits += counter.hits;
+      misses += counter.misses;
+      rules[rule.name] = { ttlSeconds: rule.ttlSeconds, entries: 0, ...counter };
+    }
+    let entries = 0;
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt <= now) continue;
+      entries++;
+      rules[entry.rule]!.entries++;
+    }
+    return {
+      entries,
+      maxEntries: this.options.maxEntries,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 1000) / 1000 : null,
+      evictions: this.evictions,
+      invalidations: this.invalidations,
+      rules
+    };
+  }
+
+  describe(): string {
+    return `${this.options.rules.map((rule) => `${rule.name} ${rule.ttlSeconds}s`).join(', ') || 'no rules'}; max ${this.options.maxEntries} entries`;
+  }
+}
@@ -0,0 +1,976 @@
+/**
+ * NinjaONE MCP Server Offline Test Suite
+ * Calls every tool end to end over an in-memory MCP transport against the
+ * mock NinjaOne API in src/testing, then checks paging and how the client
+ * handles rate limits, revoked tokens, upstream errors and timeouts.
+ * Needs no credentials or network access.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TOOLS, createMCPServer } from './index.js';
+import type { ServerSettings } from './index.js';
+import { NinjaOneAPI } from './ninja-api.js';
+import type { NinjaOneConnection } from './ninja-api.js';
+import { AuditLog } from './audit-log.js';
+import { ResponseCache } from './response-cache.js';
+import { RequestLimiter } from './request-limiter.js';
+import { DeviceIndex } from './device-index.js';
+import { ToolPolicy } from './tool-policy.js';
+import { InstanceScopes } from './org-scope.js';
+import type { AccessIdentity } from './access-control.js';
+import { Cassette } from './cassette.js';
+import { TokenStore } from './token-store.js';
+import { DEFAULT_INSTANCE, InstanceRegistry } from './instances.js';
+import type { NinjaInstance } from './instances.js';
+import { MOCK_CLIENT_ID, MOCK_CLIENT_SECRET, MockNinjaServer } from './testing/mock-ninja-server.js';
+import { createFixtures } from './testing/fixtures.js';
+import { ConfigError, formatEffectiveConfig, parseConfig } from './config.js';
+
+interface TestResult {
+  name: string;
+  success: boolean;
+  error?: string;
+  duration?: number;
+}
+
+interface ToolCase {
+  args: Record<string, unknown>;
+  /** Extra assertions on the result's structuredContent. */
+  check?: (result: Record<string, any>) => void;
+}
+
+interface Session {
+  client: Client;
+  api: NinjaOneAPI;
+  auditLog: AuditLog;
+  close: () => Promise<void>;
+}
+
+interface ConnectOptions {
+  cassette?: Cassette;
+  /** Named instances besides the default one, which reads the environment. */
+  profiles?: Record<string, NinjaOneConnection>;
+  /** Overrides of the deployment settings: policy, scope, confirmation. */
+  settings?: Partial<ServerSettings>;
+  /** API key identity of an HTTP session. */
+  identity?: AccessIdentity;
+}
+
+/** Attempts per request; the fault scenarios count on it. */
+const RETRY_ATTEMPTS = 3;
+
+function expect(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+/**
+ * Arguments for every tool, against the seeded fixtures. Mutations target
+ * records no other case reads, so the order of TOOLS does not matter.
+ */
+function toolCases(mock: MockNinjaServer): Record<string, ToolCase> {
+  const { devices, alerts, activities, tickets, scripts } = mock.fixtures;
+  const [device, deviceWithFinishedJob, server] = [devices[0]!, devices[1]!, devices[2]!];
+  const listOf = (minimum: number) => (result: Record<string, any>) =>
+    expect(Array.isArray(result.results) && result.results.length >= minimum, `expected at least ${minimum} result(s)`);
+
+  const cases: Record<string, ToolCase> = {
+    get_devices: { args: { pageSize: 5 }, check: listOf(5) },
+    get_devices_detailed: { args: { pageSize: 5 }, check: listOf(5) },
+    get_device_warranty: {
+      args: { id: device.id },
+      check: (result) => expect(['ACTIVE', 'EXPIRED'].includes(result.warranty?.status), `unexpected warranty ${JSON.stringify(result.warranty)}`)
+    },
+    list_regions: { args: {}, check: listOf(1) },
+    list_instances: {
+      args: {},
+      check: (result) => expect(result.defaultInstance === 'default' && result.instances.length === 1, `instances ${JSON.stringify(result)}`)
+    },
+    set_region: {
+      args: { baseUrl: mock.baseUrl },
+      check: (result) => expect(result.baseUrl === mock.baseUrl, `base URL is ${result.baseUrl}`)
+    },
+    get_device: { args: { id: device.id }, check: (result) => expect(result.id === device.id, 'wrong device') },
+    reboot_device: { args: { id: server.id, mode: 'NORMAL' } },
+    set_device_maintenance: { args: { id: device.id, mode: 'ON', duration: { value: 2, unit: 'HOURS' } } },
+    get_organizations: { args: {}, check: listOf(mock.fixtures.organizations.length) },
+    get_alerts: { args: {}, check: listOf(1) },
+    get_device_activities: { args: { id: deviceWithFinishedJob.id }, check: (result) => expect(result.activities?.length > 0, 'no activities') },
+    get_activities: { args: { pageSize: 10 } },
+    get_device_software: { args: { id: device.id } },
+    get_device_dashboard_url: { args: { id: device.id } },
+    search_devices_by_name: {
+      args: { name: device.systemName },
+      check: (result) => expect(result.devices?.[0]?.id === device.id, `top match is ${JSON.stringify(result.devices?.[0])}`)
+    },
+    find_devices: {
+      args: { ip: device.ipAddresses![0], source: 'index' },
+      check: (result) => expect(result.source === 'index' && result.devices?.[0]?.id === device.id, `found ${JSON.stringify(result.devices)}`)
+    },
+    find_windows11_devices: { args: { limit: 3 }, check: (result) => expect(result.totalFound === 3, `found ${result.totalFound}`) },
+    control_windows_service: { args: { id: server.id, serviceId: 'Spooler', action: 'RESTART' } },
+    configure_windows_service: { args: { id: server.id, serviceId: 'Spooler', startupType: 'AUTOMATIC' } },
+    get_automation_scripts: { args: {}, check: listOf(scripts.length) },
+    get_device_scripting_options: { args: { id: device.id }, check: (result) => expect(result.scripts?.length > 0, 'no scripts') },
+    run_device_script: {
+      args: { id: device.id, scriptId: scripts[0]!.id, runAs: 'SYSTEM' },
+      check: (result) => expect(result.script?.id === scripts[0]!.id, 'wrong script')
+    },
+    get_device_jobs: { args: { id: device.id }, check: listOf(1) },
+    get_jobs: { args: {}, check: listOf(1) },
+    get_scheduled_tasks: { args: {}, check: listOf(1) },
+    wait_for_job: {
+      args: { id: deviceWithFinishedJob.id, jobUid: activities[0]!.seriesUid, timeoutSeconds: 5 },
+      check: (result) => expect(result.status === 'COMPLETED' && result.results.length === 1, `job ${result.status}`)
+    },
+    scan_device_os_patches: {
+      args: { id: server.id, waitForJob: true, waitTimeoutSeconds: 10 },
+      check: (result) => expect(result.job?.status === 'COMPLETED', `job ${result.job?.status}`)
+    },
+    apply_device_os_patches: { args: { id: server.id } },
+    scan_device_software_patches: { args: { id: server.id } },
+    apply_device_software_patches: { args: { id: server.id, dryRun: true }, check: (result) => expect(result.dryRun === true, 'not a dry run') },
+    get_organization: { args: { id: 1 }, check: (result) => expect(result.id === 1, 'wrong organization') },
+    get_organization_locations: { args: { id: 1 }, check: listOf(2) },
+    get_organization_policies: { args: { id: 1 } },
+    generate_organization_installer: { args: { installerType: 'WINDOWS_MSI', organizationId: 1, locationId: 11 } },
+    create_organization: { args: { name: 'Offline Test Org', description: 'Created by the offline suite' } },
+    update_organization: { args: { id: 3, description: 'Updated by the offline suite' } },
+    create_location: { args: { organizationId: 2, name: 'Warehouse' } },
+    update_location: { args: { organizationId: 2, locationId: 22, description: 'Updated branch' } },
+    get_alert: { args: { uid: alerts[0]!.uid }, check: (result) => expect(result.uid === alerts[0]!.uid, 'wrong alert') },
+    reset_alert: { args: { uid: alerts[alerts.length - 1]!.uid } },
+    get_device_alerts: { args: { id: alerts[0]!.deviceId }, check: listOf(1) },
+    get_end_users: { args: {}, check: listOf(1) },
+    get_end_user: { args: { id: 201 }, check: (result) => expect(result.id === 201, 'wrong end user') },
+    create_end_user: { args: { firstName: 'Taylor', lastName: 'Reed', email: 'taylor@acme.example', organizationId: 1 } },
+    update_end_user: { args: { id: 202, phone: '+1 555 0199' } },
+    delete_end_user: { args: { id: 203 } },
+    get_technicians: { args: {}, check: listOf(1) },
+    get_technician: { args: { id: 301 } },
+    add_role_members: { args: { roleId: 1, userIds: [301] } },
+    remove_role_members: { args: { roleId: 1, userIds: [302] } },
+    get_contacts: { args: {}, check: listOf(1) },
+    get_contact: { args: { id: 401 }, check: (result) => expect(result.id === 401, 'wrong contact') },
+    create_contact: { args: { organizationId: 1, firstName: 'Jamie', lastName: 'Lee', email: 'jamie@acme.example' } },
+    update_contact: { args: { id: 402, jobTitle: 'IT Lead' } },
+    delete_contact: { args: { id: 403 } },
+    approve_devices: { args: { mode: 'APPROVE', deviceIds: [device.id] } },
+    get_device_policy_overrides: { args: { id: device.id } },
+    reset_device_policy_overrides: { args: { id: server.id } },
+    get_policies: { args: {}, check: listOf(1) },
+    get_groups: { args: {}, check: listOf(1) },
+    get_group_device_ids: { args: { id: 2 }, check: listOf(1) },
+    get_device_custom_fields: { args: { id: device.id } },
+    update_device_custom_fields: { args: { id: device.id, fields: { assetTag: 'A-1001' } } },
+    get_organization_custom_fields: { args: { id: 1 } },
+    update_organization_custom_fields: { args: { id: 1, fields: { contractTier: 'Gold' } } },
+    create_ticket: {
+      args: { ticketFormId: 1, alertUid: alerts[0]!.uid },
+      check: (result) => expect(result.clientId === devices.find((d) => d.id === alerts[0]!.deviceId)?.organizationId, 'ticket not linked to the alert')
+    },
+    get_ticket: { args: { ticketId: tickets[0]!.id }, check: (result) => expect(result.subject === tickets[0]!.subject, 'wrong ticket') },
+    update_ticket: { args: { ticketId: tickets[1]!.id, priority: 'HIGH' } },
+    add_ticket_comment: { args: { ticketId: tickets[1]!.id, body: 'Laptop imaged and ready.', public: false } },
+    get_ticket_log_entries: { args: { ticketId: tickets[0]!.id }, check: listOf(1) },
+    get_ticket_statuses: { args: {}, check: listOf(1) },
+    get_ticket_forms: { args: {} },
+    get_ticket_attributes: { args: {}, check: listOf(1) },
+    get_ticket_boards: { args: {}, check: listOf(1) },
+    get_board_tickets: { args: { boardId: 1, pageSize: 10 } },
+    get_audit_log: {
+      args: { limit: 1000 },
+      check: (result) => {
+        expect(result.count > 0, 'no audit entries');
+        // get_board_tickets runs a board with a POST, but it is a read.
+        expect(!result.entries.some((entry: any) => entry.tool === 'get_board_tickets'), 'board read audited as a change');
+      }
+    },
+    get_cache_stats: { args: {}, check: (result) => expect(result.enabled === true, 'cache disabled') }
+  };
+
+  for (const tool of TOOLS) {
+    if (tool.name.startsWith('query_') && !cases[tool.name]) {
+      cases[tool.name] = { args: { pageSize: 5 }, check: listOf(1) };
+    }
+  }
+  return cases;
+}
+
+class OfflineTestSuite {
+  private results: TestResult[] = [];
+  private readonly mock = new MockNinjaServer();
+  private readonly auditDir = mkdtempSync(join(tmpdir(), 'ninjaone-offline-'));
+  private readonly sessions: Session[] = [];
+
+  async runTests(): Promise<void> {
+    console.log('🚀 Starting NinjaONE MCP Server Offline Test Suite\n');
+    const baseUrl = await this.mock.start();
+    // The API client reads its configuration from the environment.
+    Object.assign(process.env, {
+      NINJA_BASE_URL: baseUrl,
+      NINJA_ALLOW_LOCAL_BASE_URL: 'true',
+      NINJA_CLIENT_ID: MOCK_CLIENT_ID,
+      NINJA_CLIENT_SECRET: MOCK_CLIENT_SECRET,
+      NINJA_RETRY_MAX_ATTEMPTS: String(RETRY_ATTEMPTS),
+      NINJA_RETRY_BASE_DELAY_MS: '10',
+      NINJA_RETRY_MAX_DELAY_MS: '50',
+      NINJA_REQUEST_TIMEOUT_MS: '1000'
+    });
+    console.log(`   🧪 Mock NinjaOne API at ${baseUrl}\n`);
+
+    try {
+      const session = await this.connect();
+      await this.testListTools(session);
+      const cases = toolCases(this.mock);
+      for (const tool of TOOLS) {
+        await this.testTool(session, tool.name, cases[tool.name]);
+      }
+
+      await this.testDevicePaging();
+      await this.testQueryCursorPaging();
+      await this.testQueryReportFilters();
+      await this.testDeviceFilter();
+      await this.testWaitForRunningJobs();
+      await this.testWaitForActionJob();
+      await this.testResources();
+      await this.testResponseCache();
+      await this.testConfirmation();
+      await this.testToolPolicy();
+      await this.testApiKeyIdentity();
+      await this.testArgumentValidation();
+      await this.testCancellation();
+      await this.testAuditRotation();
+      await this.testReadOnlyPosts();
+      await this.testRateLimitRetry();
+      await this.testTokenRefresh();
+      await this.testTransientErrorRetry();
+      await this.testPersistentUpstreamError();
+      await this.testNoRetryForPost();
+      await this.testRequestTimeout();
+      await this.testNotFound();
+      await this.testInvalidCredentials();
+      await this.testCassetteRecordReplay();
+      await this.testMultipleInstances();
+      await this.testTokenCache();
+      await this.testConfigFile();
+    } finally {
+      for (const session of this.sessions) await session.close();
+      await this.mock.stop();
+      rmSync(this.auditDir, { recursive: true, force: true });
+    }
+
+    this.reportResults();
+  }
+
+  /**
+   * Fresh API clients and an MCP server connected to a client over an
+   * in-memory transport, unrestricted unless the options say otherwise.
+   */
+  private async connect({ cassette, profiles = {}, settings: overrides, identity }: ConnectOptions = {}): Promise<Session> {
+    const auditLog = AuditLog.fromEnv({ NINJA_AUDIT_LOG: join(this.auditDir, `audit-${this.sessions.length}.jsonl`) })!;
+    const createInstance = (name: string, connection?: NinjaOneConnection): NinjaInstance => {
+      const api = new NinjaOneAPI({
+        ...(connection ? { connection, instance: name } : {}),
+        auditLog,
+        cache: ResponseCache.fromEnv({ NINJA_CACHE: 'on' })!,
+        limiter: RequestLimiter.fromEnv({}),
+        ...(cassette ? { cassette } : {})
+      });
+      return { name, api, deviceIndex: DeviceIndex.fromEnv(api, undefined, {})! };
+    };
+    const instances = new InstanceRegistry([
+      createInstance(DEFAULT_INSTANCE),
+      ...Object.entries(profiles).map(([name, connection]) => createInstance(name, connection))
+    ]);
+    const api = instances.default.api;
+    const settings: ServerSettings = { policy: ToolPolicy.fromEnv({}), confirmation: 'off', auditLog, ...overrides };
+    const server: Server = createMCPServer(instances, settings, identity);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    const client = new Client({ name: 'ninjaone-offline-tests', version: '1.0.0' });
+    await client.connect(clientTransport);
+    // The client validates structuredContent against the output schemas it has listed.
+    await client.listTools();
+    const session = {
+      client,
+      api,
+      auditLog,
+      close: async () => {
+        await client.close();
+        await server.close();
+      }
+    };
+    this.sessions.push(session);
+    return session;
+  }
+
+  private async call(session: Session, name: string, args: Record<string, unknown>): Promise<Record<string, any>> {
+    const result = await session.client.callTool({ name, arguments: args });
+    if (result.isError) {
+      throw new Error(`${name} returned an error result: ${JSON.stringify(result.content)}`);
+    }
+    expect(result.structuredContent && typeof result.structuredContent === 'object', `${name} returned no structuredContent`);
+    return result.structuredContent as Record<string, any>;
+  }
+
+  private async expectFailure(session: Session, name: string, args: Record<string, unknown>, pattern: RegExp): Promise<string> {
+    let message: string | undefined;
+    try {
+      await session.client.callTool({ name, arguments: args });
+    } catch (error) {
+      message = error instanceof Error ? error.message : String(error);
+    }
+    expect(message !== undefined, `${name} succeeded but should have failed`);
+    expect(pattern.test(message), `${name} failed with "${message}", expected ${pattern}`);
+    return message;
+  }
+
+  /** Call a tool that must fail with this MCP error code; returns the message. */
+  private async expectErrorCode(session: Session, name: string, args: Record<string, unknown>, code: ErrorCode): Promise<string> {
+    const error = await session.client.callTool({ name, arguments: args }).then(() => undefined, (error) => error);
+    expect(error !== undefined, `${name} succeeded but should have failed`);
+    expect(error.code === code, `${name} failed with code ${error.code} (${error.message}), expected ${code}`);
+    return error.message;
+  }
+
+  private async runTest(name: string, testFn: () => Promise<void>): Promise<void> {
+    const startTime = Date.now();
+    console.log(`🔍 Testing: ${name}`);
+
+    try {
+      await testFn();
+      const duration = Date.now() - startTime;
+      this.results.push({ name, success: true, duration });
+      console.log(`✅ ${name} - Passed (${duration}ms)\n`);
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.results.push({ name, success: false, error: errorMessage, duration });
+      console.log(`❌ ${name} - Failed (${duration}ms): ${errorMessage}\n`);
+    } finally {
+      this.mock.clearFaults();
+    }
+  }
+
+  private async testListTools(session: Session): Promise<void> {
+    await this.runTest('List Tools', async () => {
+      const { tools } = await session.client.listTools();
+      expect(tools.length === TOOLS.length, `listed ${tools.length} of ${TOOLS.length} tools`);
+      const missing = tools.filter((tool) => !tool.outputSchema || !tool.annotations).map((tool) => tool.name);
+      expect(missing.length === 0, `tools without outputSchema or annotations: ${missing.join(', ')}`);
+    });
+  }
+
+  private async testTool(session: Session, name: string, toolCase: ToolCase | undefined): Promise<void> {
+    await this.runTest(`Tool ${name}`, async () => {
+      expect(toolCase, `no offline test case for ${name}; add one to toolCases()`);
+      const result = await this.call(session, name, toolCase.args);
+      toolCase.check?.(result);
+    });
+  }
+
+  private async testDevicePaging(): Promise<void> {
+    await this.runTest('Device Paging (all)', async () => {
+      const session = await this.connect();
+      const total = this.mock.fixtures.devices.length;
+      const result = await this.call(session, 'get_devices', { all: true, pageSize: 10 });
+      expect(result.totalRecords === total, `collected ${result.totalRecords} of ${total} devices`);
+      expect(result.pages === Math.ceil(total / 10), `fetched ${result.pages} pages`);
+      const truncated = await this.call(session, 'get_devices_detailed', { maxRecords: 15, pageSize: 10 });
+      expect(truncated.totalRecords === 15 && truncated.truncated === true, 'maxRecords did not stop paging');
+      const exact = await this.call(session, 'get_devices', { maxRecords: total, pageSize: 10 });
+      expect(exact.totalRecords === total && exact.truncated === false, `a fleet of exactly maxRecords reported truncated=${exact.truncated}`);
+      const fullPage = await this.call(session, 'get_devices', { maxRecords: 10, pageSize: 10 });
+      expect(fullPage.totalRecords === 10 && fullPage.truncated === true, 'a full page with more devices left was not truncated');
+      console.log(`   📊 ${total} devices in ${result.pages} pages`);
+    });
+  }
+
+  private async testQueryCursorPaging(): Promise<void> {
+    await this.runTest('Query Cursor Paging (all)', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      const total = this.mock.fixtures.devices.length;
+      const result = await this.call(session, 'query_computer_systems', { all: true, pageSize: 10 });
+      expect(result.totalRecords === total, `collected ${result.totalRecords} of ${total} rows`);
+      const cursors = this.mock.requests.filter((request) => request.template === '/v2/queries/computer-systems' && request.query.cursor);
+      expect(cursors.length === result.pages - 1, `followed ${cursors.length} cursors for ${result.pages} pages`);
+    });
+  }
+
+  private async testQueryReportFilters(): Promise<void> {
+    await this.runTest('Query Report Filters', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      const filters = { status: 'FAILED', installedAfter: '2025-01-14' };
+      await this.call(session, 'query_os_patch_installs', filters);
+      await this.call(session, 'query_os_patch_installs', { ...filters, all: true });
+      const requests = this.mock.requests.filter((request) => request.template === '/v2/queries/os-patch-installs');
+      expect(requests.length === 2, `sent ${requests.length} report request(s)`);
+      for (const { query } of requests) {
+        expect(query.status === 'FAILED' && query.installedAfter === '2025-01-14', `report query ${JSON.stringify(query)}`);
+      }
+
+      // patch_tuesday_followup turns `since` into the report filter.
+      const prompt = await session.client.getPrompt({ name: 'patch_tuesday_followup', arguments: { since: '2025-01-14' } });
+      const text = prompt.messages[0]?.content.type === 'text' ? prompt.messages[0].content.text : '';
+      expect(text.includes('query_os_patch_installs with installedAfter "2025-01-14"'), 'prompt does not filter installs by since');
+    });
+  }
+
+  private async testDeviceFilter(): Promise<void> {
+    await this.runTest('Device Filter', async () => {
+      const session = await this.connect();
+      const result = await this.call(session, 'get_devices', { df: 'org = 2', pageSize: 100 });
+      const expected = this.mock.fixtures.devices.filter((device) => device.organizationId === 2).length;
+      expect(result.results.length === expected, `got ${result.results.length} devices, expected ${expected}`);
+      expect(result.results.every((device: any) => device.organizationId === 2), 'device outside organization 2');
+    });
+  }
+
+  private async testWaitForRunningJobs(): Promise<void> {
+    await this.runTest('Wait for Running Jobs', async () => {
+      const session = await this.connect();
+      const [busy, idle] = this.mock.fixtures.devices;
+      const none = await this.call(session, 'wait_for_job', { id: idle!.id, timeoutSeconds: 1 });
+      expect(none.status === 'NO_RUNNING_JOBS' && none.results.length === 0, `idle device returned ${none.status} with ${none.results.length} result(s)`);
+      const running = await this.call(session, 'wait_for_job', { id: busy!.id, timeoutSeconds: 1 });
+      expect(running.status === 'TIMEOUT' && running.runningJobs.length === 1, `busy device returned ${running.status}`);
+    });
+  }
+
+  private async testWaitForActionJob(): Promise<void> {
+    await this.runTest('Wait for Action Job', async () => {
+      const session = await this.connect();
+      const { devices, activities } = this.mock.fixtures;
+      const device = devices[devices.length - 1]!;
+      // Another job on the device finished just before the action.
+      const unrelated = '00000000-0000-4000-9000-0000000fffff';
+      activities.push({
+        id: Math.max(...activities.map((activity) => activity.id ?? 0)) + 1,
+        deviceId: device.id,
+        activityTime: Math.floor(Date.now() / 1000),
+        seriesUid: unrelated,
+        activityType: 'ACTION',
+        statusCode: 'COMPLETED',
+        status: 'Earlier job completed',
+        activityResult: 'SUCCESS'
+      });
+
+      const scan = await this.call(session, 'scan_device_os_patches', { id: device.id, waitForJob: true, waitTimeoutSeconds: 15 });
+      const series = scan.job?.results.map((activity: any) => activity.seriesUid) ?? [];
+      expect(scan.job?.status === 'COMPLETED' && series.length === 1, `job ${scan.job?.status} with ${series.length} result(s)`);
+      expect(!series.includes(unrelated), 'reported the unrelated job');
+      expect(scan.job.results[0].sourceName === 'OS patch scan', `reported ${scan.job.results[0].sourceName}`);
+
+      // An action whose job never shows up is not reported as finished.
+      this.mock.inject({ method: 'POST', path: `/v2/device/${device.id}/reboot/NORMAL`, status: 204 });
+      const reboot = await this.call(session, 'reboot_device', { id: device.id, mode: 'NORMAL', waitForJob: true, waitTimeoutSeconds: 1 });
+      expect(reboot.job?.status === 'TIMEOUT' && reboot.job.results.length === 0, `reboot job ${reboot.job?.status}`);
+    });
+  }
+
+  private async testResources(): Promise<void> {
+    await this.runTest('Resources', async () => {
+      const session = await this.connect();
+      const device = this.mock.fixtures.devices[0]!;
+      const read = await session.client.readResource({ uri: `ninjaone://device/${device.id}` });
+      const content = read.contents[0];
+      expect(content && 'text' in content && JSON.parse(content.text).id === device.id, 'device resource returned the wrong record');
+      const code = await session.client.readResource({ uri: 'ninjaone://alert/%E0%A4%A' }).then(() => undefined, (error) => error.code);
+      expect(code === ErrorCode.InvalidParams, `malformed URI failed with code ${code}`);
+
+      // Resources follow the policy of the tool they mirror, for the deployment and the API key role.
+      const denied = await this.connect({ settings: { policy: new ToolPolicy({ deny: ['get_device'] }) } });
+      const templates = await denied.client.listResourceTemplates();
+      expect(!templates.resourceTemplates.some((t) => t.name === 'device'), 'denied device template is listed');
+      const deniedCode = await denied.client.readResource({ uri: `ninjaone://device/${device.id}` }).then(() => undefined, (error) => error.code);
+      expect(deniedCode === ErrorCode.InvalidParams, `denied device resource failed with code ${deniedCode}`);
+      const keyed = await this.connect({ identity: { name: 'alerts-only', role: 'alerts', policy: new ToolPolicy({ allow: ['alerts'] }) } });
+      const listed = await keyed.client.listResources();
+      expect(listed.resources.length === 0, `role without get_organizations listed ${listed.resources.length} resources`);
+    });
+  }
+
+  private async testResponseCache(): Promise<void> {
+    await this.runTest('Response Cache', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      await this.call(session, 'get_organizations', {});
+      await this.call(session, 'get_organizations', {});
+      expect(this.mock.count('GET', '/v2/organizations') === 1, 'second call was not served from the cache');
+      await this.call(session, 'create_organization', { name: 'Cache Invalidation Org' });
+      const organizations = await this.call(session, 'get_organizations', {});
+      expect(organizations.results.some((o: any) => o.name === 'Cache Invalidation Org'), 'created organization missing after invalidation');
+
+      expect(ResponseCache.fromEnv({}) === undefined, 'caching is on without NINJA_CACHE');
+      const cache = ResponseCache.fromEnv({ NINJA_CACHE: 'on' })!;
+      cache.set('/v2/policies', []);
+      cache.invalidate('/v2/policy/3');
+      expect(cache.stats().entries === 0, 'a policy change kept the cached policy list');
+    });
+  }
+
+  private async testConfirmation(): Promise<void> {
+    await this.runTest('Confirmation Tokens and Dry Run', async () => {
+      const session = await this.connect({ settings: { confirmation: 'token' } });
+      const server = this.mock.fixtures.devices[2]!;
+      const reboot = { id: server.id, mode: 'FORCED', reason: 'Offline suite' };
+      const rebootCount = () => this.mock.count('POST', '/v2/device/{id}/reboot/{mode}');
+      this.mock.reset();
+
+      const dryRun = await this.call(session, 'reboot_device', { ...reboot, dryRun: true });
+      expect(dryRun.dryRun === true && rebootCount() === 0, 'dry run rebooted the device');
+
+      const held = await this.call(session, 'reboot_device', reboot);
+      expect(held.confirmationRequired === true && typeof held.confirmationToken === 'string', `first call returned ${JSON.stringify(held)}`);
+      expect(rebootCount() === 0, 'device rebooted before confirmation');
+
+      const token = held.confirmationToken;
+      await this.expectErrorCode(session, 'reboot_device', { ...reboot, reason: 'Other', confirmationToken: token }, ErrorCode.InvalidParams);
+      await this.call(session, 'reboot_device', { ...reboot, confirmationToken: token });
+      expect(rebootCount() === 1, `confirmed reboot sent ${rebootCount()} request(s)`);
+      await this.expectErrorCode(session, 'reboot_device', { ...reboot, confirmationToken: token }, ErrorCode.InvalidParams);
+
+      // A normal reboot is not destructive and runs without a token.
+      await this.call(session, 'reboot_device', { id: server.id, mode: 'NORMAL' });
+      expect(rebootCount() === 2, 'normal reboot was held for confirmation');
+    });
+  }
+
+  private async testToolPolicy(): Promise<void> {
+    await this.runTest('Tool Policy', async () => {
+      const session = await this.connect({ settings: { policy: new ToolPolicy({ readOnly: true, deny: ['tickets'] }) } });
+      const { tools } = await session.client.listTools();
+      const names = new Set(tools.map((tool) => tool.name));
+      expect(names.has('get_devices') && names.has('query_antivirus_status'), 'read-only tools are hidden');
+      for (const hidden of ['reboot_device', 'create_organization', 'get_ticket', 'get_ticket_boards']) {
+        expect(!names.has(hidden), `${hidden} is listed`);
+      }
+
+      this.mock.reset();
+      await this.expectErrorCode(session, 'reboot_device', { id: 101, mode: 'NORMAL' }, ErrorCode.MethodNotFound);
+      await this.expectErrorCode(session, 'get_ticket', { ticketId: this.mock.fixtures.tickets[0]!.id }, ErrorCode.MethodNotFound);
+      expect(this.mock.requests.length === 0, `denied calls sent ${this.mock.requests.length} request(s)`);
+      await this.call(session, 'get_device', { id: 101 });
+    });
+  }
+
+  private async testApiKeyIdentity(): Promise<void> {
+    await this.runTest('API Key Identity and Organization Scope', async () => {
+      const { devices } = this.mock.fixtures;
+      const session = await this.connect({
+        settings: { scopes: InstanceScopes.parse('1,2') },
+        identity: {
+          name: 'helpdesk-key',
+          role: 'helpdesk',
+          policy: new ToolPolicy({ allow: ['devices', 'organizations'] }),
+          organizations: InstanceScopes.fromDefinition([2, 3], 'helpdesk organizations')
+        }
+      });
+
+      const { tools } = await session.client.listTools();
+      expect(!tools.some((tool) => tool.name === 'get_alerts'), 'role lists a tool outside its categories');
+      await this.expectErrorCode(session, 'get_alerts', {}, ErrorCode.MethodNotFound);
+
+      // The key allows 2 and 3, the deployment 1 and 2: the session sees only 2.
+      const listed = await this.call(session, 'get_devices', { pageSize: 100 });
+      expect(listed.results.length > 0 && listed.results.every((d: any) => d.organizationId === 2), 'devices outside organization 2');
+      const organizations = await this.call(session, 'get_organizations', {});
+      expect(organizations.results.map((o: any) => o.id).join(',') === '2', `organizations ${organizations.results.map((o: any) => o.id)}`);
+
+      const outside = devices.find((device) => device.organizationId !== 2)!;
+      await this.expectErrorCode(session, 'get_device', { id: outside.id }, ErrorCode.InvalidRequest);
+      await this.expectErrorCode(session, 'get_organization', { id: 3 }, ErrorCode.InvalidRequest);
+      await this.expectErrorCode(session, 'get_devices', { df: 'org = 1 OR org = 2' }, ErrorCode.InvalidParams);
+      await this.expectErrorCode(session, 'generate_organization_installer', { installerType: 'WINDOWS_MSI' }, ErrorCode.InvalidParams);
+
+      const inside = devices.find((device) => device.organizationId === 2)!;
+      await this.call(session, 'set_device_maintenance', { id: inside.id, mode: 'ON', duration: { value: 1, unit: 'HOURS' } });
+      const entries = await session.auditLog.search();
+      expect(entries[0]?.identity === 'helpdesk-key' && entries[0]?.role === 'helpdesk', `audit entry ${JSON.stringify(entries[0])}`);
+    });
+  }
+
+  private async testReadOnlyPosts(): Promise<void> {
+    await this.runTest('Read-only POSTs', async () => {
+      // The endpoint, not the calling tool, decides whether a POST is audited.
+      const session = await this.connect();
+      await session.api.getBoardTickets(1, { pageSize: 5 });
+      expect((await session.auditLog.search()).length === 0, 'board run audited as a change');
+      await session.api.scanDeviceOSPatches(this.mock.fixtures.devices[0]!.id);
+      const entries = await session.auditLog.search();
+      expect(entries.length === 1 && entries[0]?.endpoint.endsWith('/patch/os/scan') === true, `audit entries ${JSON.stringify(entries)}`);
+    });
+  }
+
+  private async testArgumentValidation(): Promise<void> {
+    await this.runTest('Argument Validation', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      await this.expectErrorCode(session, 'get_device', {}, ErrorCode.InvalidParams);
+      const message = await this.expectErrorCode(session, 'reboot_device', { id: 'abc', mode: 'HARD' }, ErrorCode.InvalidParams);
+      expect(/\bid\b/.test(message) && /\bmode\b/.test(message), `not every problem reported: ${message}`);
+      expect(this.mock.requests.length === 0, `invalid calls sent ${this.mock.requests.length} request(s)`);
+      // Numeric strings are coerced rather than rejected.
+      const device = await this.call(session, 'get_device', { id: '101' });
+      expect(device.id === 101, 'numeric string ID was not coerced');
+    });
+  }
+
+  private async testCancellation(): Promise<void> {
+    await this.runTest('Cancellation', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      this.mock.inject({ method: 'GET', path: '/v2/device/{id}', timeout: true, times: Infinity });
+      const controller = new AbortController();
+      const call = session.client.callTool({ name: 'get_device', arguments: { id: 101 } }, undefined, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 100);
+      const rejected = await call.then(() => false, () => true);
+      expect(rejected, 'cancelled call returned a result');
+      // Without cancellation the request would time out after 1s and be retried.
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+      expect(this.mock.count('GET', '/v2/device/{id}') === 1, `cancelled call sent ${this.mock.count('GET', '/v2/device/{id}')} request(s)`);
+    });
+  }
+
+  private async testAuditRotation(): Promise<void> {
+    await this.runTest('Audit Log Rotation', async () => {
+      const path = join(this.auditDir, 'rotation.jsonl');
+      const auditLog = new AuditLog({ path, maxBytes: 1024, maxFiles: 2 });
+      const entry = (n: number) => ({
+        time: new Date(Date.UTC(2026, 0, 1, 0, 0, n)).toISOString(),
+        tool: 'reboot_device',
+        method: 'POST',
+        endpoint: `/v2/device/${n}/reboot/NORMAL`,
+        target: `device ${n}`,
+        outcome: 'success' as const,
+        durationMs: 1
+      });
+      for (let n = 1; n <= 40; n++) await auditLog.record(entry(n));
+
+      expect(existsSync(`${path}.2`) && !existsSync(`${path}.3`), 'rotation did not keep exactly maxFiles rotated files');
+      for (const suffix of ['', '.1', '.2']) {
+        const size = readFileSync(`${path}${suffix}`).length;
+        expect(size <= 1024, `${path}${suffix} is ${size} bytes`);
+      }
+
+      const entries = await auditLog.search({ limit: 1000 });
+      expect(entries[0]?.target === 'device 40', `newest entry is ${entries[0]?.target}`);
+      expect(entries.length < 40 && entries.length > 10, `searched ${entries.length} entries across the files`);
+      const older = await auditLog.search({ until: entry(30).time, target: 'device 3' });
+      expect(older.length > 0 && older.every((e) => e.target!.startsWith('device 3')), 'filtered search across rotated files failed');
+    });
+  }
+
+  private async testRateLimitRetry(): Promise<void> {
+    await this.runTest('Rate Limit Retry (429)', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      this.mock.inject({ method: 'GET', path: '/v2/device/{id}', status: 429, retryAfterSeconds: 0 });
+      await this.call(session, 'get_device', { id: 101 });
+      const requests = this.mock.requests.filter((request) => request.template === '/v2/device/{id}');
+      expect(requests.length === 2 && requests[0]!.status === 429, `saw ${requests.map((r) => r.status).join(', ')}`);
+    });
+  }
+
+  private async testTokenRefresh(): Promise<void> {
+    await this.runTest('Token Refresh (401)', async () => {
+      const session = await this.connect();
+      await this.call(session, 'get_device', { id: 101 });
+      this.mock.reset();
+      this.mock.revokeTokens();
+      await this.call(session, 'get_device', { id: 102 });
+      expect(this.mock.count('POST', '/ws/oauth/token') === 1, 'token was not refreshed once');
+      const statuses = this.mock.requests.filter((r) => r.template === '/v2/device/{id}').map((r) => r.status);
+      expect(statuses.join(',') === '401,200', `device requests returned ${statuses.join(', ')}`);
+    });
+  }
+
+  private async testTransientErrorRetry(): Promise<void> {
+    await this.runTest('Transient Error Retry (500)', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      this.mock.inject({ method: 'GET', path: '/v2/device/{id}', status: 500 });
+      await this.call(session, 'get_device', { id: 101 });
+      expect(this.mock.count('GET', '/v2/device/{id}') === 2, 'request was not retried');
+    });
+  }
+
+  private async testPersistentUpstreamError(): Promise<void> {
+    await this.runTest('Persistent Upstream Error (503)', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      this.mock.inject({ method: 'GET', path: '/v2/device/{id}', status: 503, times: Infinity });
+      await this.expectFailure(session, 'get_device', { id: 101 }, /upstream outage/);
+      expect(this.mock.count('GET', '/v2/device/{id}') === RETRY_ATTEMPTS, 'retry budget not used');
+    });
+  }
+
+  private async testNoRetryForPost(): Promise<void> {
+    await this.runTest('No Retry for Non-Idempotent POST (500)', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      this.mock.inject({ method: 'POST', path: '/v2/device/{id}/patch/os/scan', status: 500, times: Infinity });
+      await this.expectFailure(session, 'scan_device_os_patches', { id: 103 }, /upstream outage/);
+      expect(this.mock.count('POST', '/v2/device/{id}/patch/os/scan') === 1, 'POST was retried');
+    });
+  }
+
+  private async testRequestTimeout(): Promise<void> {
+    await this.runTest('Request Timeout', async () => {
+      const session = await this.connect();
+      this.mock.reset();
+      this.mock.inject({ method: 'GET', path: '/v2/device/{id}', timeout: true, times: Infinity });
+      await this.expectFailure(session, 'get_device', { id: 101 }, /did not respond in time/);
+      expect(this.mock.count('GET', '/v2/device/{id}') === RETRY_ATTEMPTS, 'timed out request was not retried');
+    });
+  }
+
+  private async testNotFound(): Promise<void> {
+    await this.runTest('Not Found (404)', async () => {
+      const session = await this.connect();
+      await this.expectFailure(session, 'get_device', { id: 99999 }, /Not found/);
+      await this.expectFailure(session, 'get_ticket', { ticketId: 99999 }, /Not found/);
+    });
+  }
+
+  private async testInvalidCredentials(): Promise<void> {
+    await this.runTest('Invalid Credentials', async () => {
+      process.env.NINJA_CLIENT_SECRET = 'wrong-secret';
+      try {
+        const session = await this.connect();
+        await this.expectFailure(session, 'get_devices', {}, /authentication failed/);
+      } finally {
+        process.env.NINJA_CLIENT_SECRET = MOCK_CLIENT_SECRET;
+      }
+    });
+  }
+
+  private async testCassetteRecordReplay(): Promise<void> {
+    await this.runTest('Cassette Record and Replay', async () => {
+      const env = { NINJA_CASSETTE_PATH: join(this.auditDir, 'cassette.jsonl') };
+      const device = this.mock.fixtures.devices.find((d) => d.id === 101)!;
+      const ticket = this.mock.fixtures.tickets[0]!;
+      const calls: [string, Record<string, unknown>][] = [
+        ['get_end_user', { id: 201 }],
+        ['get_device', { id: 101 }],
+        ['create_contact', { organizationId: 1, firstName: 'Casey', lastName: 'Stone', email: 'casey@acme.example' }],
+        ['search_devices_by_name', { name: 'Zanzibar-Kiosk', source: 'api' }],
+        ['search_devices_by_name', { name: device.systemName, source: 'api' }],
+        ['get_ticket', { ticketId: ticket.id }]
+      ];
+
+      const recorder = await this.connect({ cassette: Cassette.fromEnv({ ...env, NINJA_CASSETTE: 'record' })! });
+      const recorded = [];
+      for (const [name, args] of calls) recorded.push(await this.call(recorder, name, args));
+      const cassette = readFileSync(env.NINJA_CASSETTE_PATH, 'utf8');
+      for (const secret of [MOCK_CLIENT_SECRET, 'mock-', 'casey@acme.example', recorded[0]!.email, 'Zanzibar', ticket.subject!]) {
+        expect(!cassette.includes(secret), `cassette contains ${secret}`);
+      }
+      // The background index build also records query reports, whose generic `name` column is kept.
+      const deviceRecord = cassette.split('\n').find((line) => line.includes('"path":"/v2/device/101"'));
+      for (const name of [device.systemName, device.displayName]) {
+        expect(deviceRecord && !deviceRecord.includes(name), `recorded device contains ${name}`);
+      }
+
+      this.mock.reset();
+      const replayer = await this.connect({ cassette: Cassette.fromEnv({ ...env, NINJA_CASSETTE: 'replay' })! });
+      for (const [index, [name, args]] of calls.entries()) {
+        const replayed = await this.call(replayer, name, args);
+        expect(replayed.id === recorded[index]!.id, `${name} replayed a different record`);
+        // Searches differ only in their redacted term, and each gets its own response.
+        const ids = (result: Record<string, any>) => JSON.stringify(result.devices?.map((d: any) => d.id));
+        expect(ids(replayed) === ids(recorded[index]!), `${name} replayed devices ${ids(replayed)}`);
+      }
+      expect(this.mock.requests.length === 0, `replay sent ${this.mock.requests.length} request(s) to the API`);
+      await this.expectFailure(replayer, 'get_device', { id: 102 }, /No recorded response/);
+      // Only job polling repeats the last response once the recorded ones are used up.
+      await this.expectFailure(replayer, 'get_device', { id: 101 }, /No recorded response/);
+    });
+  }
+
+  private async testMultipleInstances(): Promise<void> {
+    await this.runTest('Multiple Instances', async () => {
+      const eu = new MockNinjaServer({ clientId: 'eu-client-id', clientSecret: 'eu-client-secret', fixtures: createFixtures({ organizations: 2 }) });
+      const euUrl = await eu.start();
+      try {
+        const session = await this.connect({
+          profiles: { eu: { clientId: 'eu-client-id', clientSecret: 'eu-client-secret', baseUrl: euUrl } }
+        });
+        const listed = await this.call(session, 'list_instances', {});
+        expect(listed.instances.map((i: any) => i.name).join(',') === 'default,eu', `listed ${JSON.stringify(listed.instances)}`);
+
+        const euOrganizations = await this.call(session, 'get_organizations', { instance: 'eu' });
+        expect(euOrganizations.results.length === 2, `eu has ${euOrganizations.results.length} organizations`);
+        expect(eu.count('POST', '/ws/oauth/token') === 1, 'eu instance did not use its own credentials');
+
+        const merged = await this.call(session, 'get_organizations', { allInstances: true });
+        const counts = merged.instances.map((i: any) => `${i.instance}=${i.records}`).join(',');
+        expect(counts === `default=${this.mock.fixtures.organizations.length},eu=2`, `fan-out counts ${counts}`);
+        expect(merged.results.filter((o: any) => o.instance === 'eu').length === 2, 'records not tagged with their instance');
+
+        eu.inject({ method: 'GET', path: '/v2/devices', status: 503, times: Infinity });
+        const partial = await this.call(session, 'get_devices', { allInstances: true, pageSize: 5 });
+        const failed = partial.instances.find((i: any) => i.instance === 'eu');
+        expect(failed?.error && partial.results.length === 5, `partial fan-out ${JSON.stringify(partial.instances)}`);
+
+        const paged = await this.call(session, 'get_devices', { allInstances: true, maxRecords: 5, pageSize: 5 });
+        const summary = paged.instances.find((i: any) => i.instance === 'default');
+        expect(summary?.truncated === true && summary.pages === 1 && summary.totalRecords === 5, `paging summary ${JSON.stringify(paged.instances)}`);
+
+        await this.expectFailure(session, 'get_device', { id: 101, instance: 'apac' }, /Unknown instance "apac"/);
+        await this.expectFailure(session, 'get_devices', { instance: 'eu', allInstances: true }, /either instance or allInstances/);
+        await this.expectErrorCode(session, 'get_device', { id: 101, allInstances: true }, ErrorCode.InvalidParams);
+
+        // Organization IDs are per instance: a key for eu organization 1 reaches neither default's organization 1 nor default.
+        const keyed = await this.connect({
+          profiles: { eu: { clientId: 'eu-client-id', clientSecret: 'eu-client-secret', baseUrl: euUrl } },
+          identity: { name: 'eu-key', role: 'eu', policy: new ToolPolicy(), organizations: InstanceScopes.fromDefinition({ eu: [1] }, 'eu organizations') }
+        });
+        await this.expectErrorCode(keyed, 'get_organizations', {}, ErrorCode.InvalidRequest);
+        const scoped = await this.call(keyed, 'get_organizations', { allInstances: true });
+        expect(scoped.instances.length === 1 && scoped.results.every((o: any) => o.instance === 'eu' && o.id === 1), `scoped fan-out ${JSON.stringify(scoped.instances)}`);
+        const visible = await this.call(keyed, 'list_instances', {});
+        expect(visible.instances.map((i: any) => i.name).join(',') === 'eu', `listed ${JSON.stringify(visible.instances)}`);
+
+        // Resources pick their instance with ?instance= and follow the same scope.
+        const readCount = eu.count('GET', '/v2/organization/{id}');
+        const euResource = await session.client.readResource({ uri: 'ninjaone://organization/2?instance=eu' });
+        expect(euResource.contents.length === 1 && eu.count('GET', '/v2/organization/{id}') === readCount + 1, 'resource did not read the eu instance');
+        const unknownCode = await session.client.readResource({ uri: 'ninjaone://organization/2?instance=apac' }).then(() => undefined, (error) => error.code);
+        expect(unknownCode === ErrorCode.InvalidParams, `unknown instance failed with code ${unknownCode}`);
+        const firstPage = await session.client.listResources();
+        const secondPage = await session.client.listResources({ cursor: firstPage.nextCursor! });
+        expect(firstPage.nextCursor === 'eu:' && secondPage.resources.length === 2 && !secondPage.nextCursor, `resource pages ended at ${firstPage.nextCursor}`);
+        const resources = await keyed.client.listResources();
+        const uris = resources.resources.map((resource) => resource.uri).join(',');
+        expect(uris === 'ninjaone://organization/1?instance=eu' && !resources.nextCursor, `scoped resources ${uris}`);
+        const outsideCode = await keyed.client.readResource({ uri: 'ninjaone://organization/1' }).then(() => undefined, (error) => error.code);
+        expect(outsideCode === ErrorCode.InvalidRequest, `default instance resource failed with code ${outsideCode}`);
+
+        let problem = '';
+        try {
+          InstanceScopes.parse('1,2').validate(['default', 'eu'], 'NINJA_ORGANIZATION_SCOPE');
+        } catch (error) {
+          problem = error instanceof Error ? error.message : String(error);
+        }
+        expect(/name the instance/.test(problem), 'IDs without an instance were accepted with several instances');
+      } finally {
+        await eu.stop();
+      }
+    });
+  }
+
+  private async testTokenCache(): Promise<void> {
+    await this.runTest('Token Cache and Background Refresh', async () => {
+      const mock = new MockNinjaServer({ tokenTtlSeconds: 4 });
+      const baseUrl = await mock.start();
+      const env = { NINJA_TOKEN_CACHE: join(this.auditDir, 'token.json') };
+      const clients: NinjaOneAPI[] = [];
+      try {
+        const first = new NinjaOneAPI({ connection: { clientId: MOCK_CLIENT_ID, clientSecret: MOCK_CLIENT_SECRET, baseUrl }, tokenStore: TokenStore.fromEnv(env)! });
+        clients.push(first);
+        await Promise.all([first.getDevice(101), first.getDevice(102), first.getOrganizations()]);
+        expect(mock.count('POST', '/ws/oauth/token') === 1, `concurrent calls requested ${mock.count('POST', '/ws/oauth/token')} tokens`);
+        expect(!readFileSync(env.NINJA_TOKEN_CACHE, 'utf8').includes('mock-'), 'token cache is not encrypted');
+
+        // A restart without a region reuses the stored token and region.
+        const restarted = new NinjaOneAPI({ connection: { clientId: MOCK_CLIENT_ID, clientSecret: MOCK_CLIENT_SECRET }, tokenStore: TokenStore.fromEnv(env)! });
+        clients.push(restarted);
+        await restarted.getDevice(101);
+        expect(restarted.getBaseUrl() === baseUrl, `restarted client uses ${restarted.getBaseUrl()}`);
+        expect(mock.count('POST', '/ws/oauth/token') === 1, 'restarted client requested a new token');
+
+        // Other credentials cannot decrypt the file and request their own token.
+        const other = new NinjaOneAPI({ connection: { clientId: MOCK_CLIENT_ID, clientSecret: 'other-secret', baseUrl }, tokenStore: TokenStore.fromEnv(env)! });
+        clients.push(other);
+        const rejected = await other.getDevice(101).then(() => false, () => true);
+        expect(rejected && mock.count('POST', '/ws/oauth/token') === 2, 'other credentials reused the stored token');
+
+        // Tokens are replaced halfway through their 4s lifetime, without a request waiting for it.
+        await new Promise((resolve) => setTimeout(resolve, 2500));
+        expect(mock.count('POST', '/ws/oauth/token') > 2, 'token was not refreshed in the background');
+      } finally {
+        for (const client of clients) client.close();
+        await mock.stop();
+      }
+    });
+  }
+
+  private async testConfigFile(): Promise<void> {
+    await this.runTest('Config File', async () => {
+      const secretFile = join(this.auditDir, 'client_secret');
+      writeFileSync(secretFile, 'file-secret\n');
+      const document = {
+        profile: 'eu',
+        ninja: { clientId: '${CONFIG_CLIENT_ID}', clientSecretFile: secretFile, region: 'us' },
+        limits: { requestsPerMinute: 120 },
+        tools: { readOnly: true, deny: ['run_script', 'tickets'] },
+        cache: { ttl: { devices: 30 } },
+        profiles: { eu: { ninja: { region: 'EU' }, audit: { log: '${AUDIT_DIR:-/var/log}/audit.jsonl' } } }
+      };
+      const loaded = parseConfig(document, 'config.yaml', {}, { CONFIG_CLIENT_ID: 'id-from-env' });
+      const expected: Record<string, string> = {
+        NINJA_CLIENT_ID: 'id-from-env',
+        NINJA_CLIENT_SECRET: 'file-secret',
+        NINJA_REGION: 'eu',
+        NINJA_REQUESTS_PER_MINUTE: '120',
+        NINJA_READ_ONLY: 'true',
+        NINJA_TOOLS_DENY: 'run_script,tickets',
+        NINJA_CACHE_TTL: 'devices=30',
+        NINJA_AUDIT_LOG: '/var/log/audit.jsonl'
+      };
+      expect(JSON.stringify(loaded.env) === JSON.stringify(expected), `parsed ${JSON.stringify(loaded.env)}`);
+
+      const printed = formatEffectiveConfig(loaded, { ...loaded.env, NINJA_REGION: 'ca' });
+      expect(!printed.includes('file-secret') && !printed.includes('id-from-env'), 'printed config contains a secret');
+      expect(printed.includes('From the environment: NINJA_REGION'), 'environment override not reported');
+
+      let problems: string[] = [];
+      try {
+        parseConfig({ server: { httpPort: 'http', mode: 'tcp' }, ninja: { token: 'x' }, extra: {} }, 'bad.yaml', {}, {});
+      } catch (error) {
+        if (error instanceof ConfigError) problems = error.problems;
+      }
+      expect(problems.length === 4, `expected 4 problems, got ${JSON.stringify(problems)}`);
+    });
+  }
+
+  private reportResults(): void {
+    const passed = this.results.filter(r => r.success).length;
+    const failed = this.results.filter(r => !r.success).length;
+    const totalTime = this.results.reduce((sum, r) => sum + (r.duration || 0), 0);
+
+    console.log('\n📋 Test Results Summary');
+    console.log('========================');
+    console.log(`✅ Passed: ${passed}`);
+    console.log(`❌ Failed: ${failed}`);
+    console.log(`⏱️  Total Time: ${totalTime}ms`);
+    console.log(`📊 Success Rate: ${((passed / this.results.length) * 100).toFixed(1)}%`);
+
+    if (failed > 0) {
+      console.log('\n❌ Failed Tests:');
+      this.results.filter(r => !r.success).forEach(result => {
+        console.log(`   • ${result.name}: ${result.error}`);
+      });
+    }
+
+    console.log('\n🎯 Offline Test Suite Complete');
+
+    // Exit explicitly: the device index keeps refresh timers for its process.
+    process.exit(failed > 0 ? 1 : 0);
+  }
+}
+
+const testSuite = new OfflineTestSuite();
+testSuite.runTests().catch((error) => {
+  console.error('Offline test suite failed:', error);
+  process.exit(1);
+});
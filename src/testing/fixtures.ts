@@ -0,0 +1,393 @@
+/**
+ * Seeded NinjaOne tenant for the mock server.
+ * Everything is derived from the record index, so two runs with the same
+ * options produce the same tenant: organizations with locations, a device
+ * fleet spread across them, and the users, alerts, jobs, tickets and query
+ * report rows that refer to those devices. Tests assert against these
+ * records, e.g. `fixtures.devices.length` after paging with `all`.
+ */
+
+import type {
+  Alert,
+  AutomationScript,
+  Contact,
+  DeviceActivity,
+  DeviceDetails,
+  DeviceJob,
+  EndUser,
+  Group,
+  Location,
+  Organization,
+  Policy,
+  ScheduledTask,
+  Technician,
+  Ticket,
+  TicketAttribute,
+  TicketBoard,
+  TicketForm,
+  TicketLogEntry,
+  TicketStatus
+} from '../types/models.js';
+
+export interface FixtureOptions {
+  organizations?: number;
+  devicesPerOrganization?: number;
+}
+
+export type MockDevice = DeviceDetails & { id: number; organizationId: number; locationId: number; systemName: string; displayName: string };
+export type MockOrganization = Organization & { id: number; name: string; locations: (Location & { id: number; name: string })[] };
+export type MockGroup = Group & { id: number; deviceIds: number[] };
+export type MockTicket = Ticket & { id: number; logEntries: TicketLogEntry[] };
+/** A job started through the mock carries the activity recorded when it finishes. */
+export type MockDeviceJob = DeviceJob & { completion?: DeviceActivity };
+
+export interface MockNinjaFixtures {
+  organizations: MockOrganization[];
+  devices: MockDevice[];
+  alerts: Alert[];
+  policies: Policy[];
+  groups: MockGroup[];
+  endUsers: EndUser[];
+  technicians: Technician[];
+  contacts: Contact[];
+  scripts: AutomationScript[];
+  deviceJobs: MockDeviceJob[];
+  activities: DeviceActivity[];
+  scheduledTasks: ScheduledTask[];
+  tickets: MockTicket[];
+  ticketStatuses: TicketStatus[];
+  ticketForms: TicketForm[];
+  ticketAttributes: TicketAttribute[];
+  ticketBoards: TicketBoard[];
+  /** Rows of /v2/queries/* reports; reports not listed are generated from the spec. */
+  queries: Record<string, Record<string, unknown>[]>;
+}
+
+/** Fixed clock for fixture timestamps (2025-01-01T00:00:00Z), in epoch seconds. */
+export const FIXTURE_EPOCH = 1_735_689_600;
+
+const DAY = 24 * 60 * 60;
+
+const NODE_CLASSES = ['WINDOWS_WORKSTATION', 'WINDOWS_WORKSTATION', 'WINDOWS_SERVER', 'MAC', 'LINUX_SERVER'] as const;
+
+const OPERATING_SYSTEMS: Record<(typeof NODE_CLASSES)[number], { name: string; buildNumber: string; releaseId?: string; manufacturer: string }> = {
+  WINDOWS_WORKSTATION: { name: 'Windows 11 Pro', buildNumber: '22631', releaseId: '23H2', manufacturer: 'Microsoft Corporation' },
+  WINDOWS_SERVER: { name: 'Windows Server 2022 Standard', buildNumber: '20348', releaseId: '21H2', manufacturer: 'Microsoft Corporation' },
+  MAC: { name: 'macOS Sonoma', buildNumber: '23G93', manufacturer: 'Apple Inc.' },
+  LINUX_SERVER: { name: 'Ubuntu 22.04.4 LTS', buildNumber: '5.15.0', manufacturer: 'Canonical' }
+};
+
+const HARDWARE = [
+  { manufacturer: 'Dell Inc.', model: 'Latitude 7440' },
+  { manufacturer: 'HP', model: 'EliteBook 840 G10' },
+  { manufacturer: 'LENOVO', model: 'ThinkPad T14 Gen 4' }
+];
+
+const ORGANIZATION_NAMES = ['Acme Corp', 'Globex', 'Initech', 'Umbrella Health', 'Stark Logistics'];
+const DEPARTMENTS = ['ACCOUNTING', 'SALES', 'ENG', 'HR', 'OPS'];
+const FIRST_NAMES = ['Alex', 'Sam', 'Jordan', 'Casey', 'Riley', 'Morgan'];
+const LAST_NAMES = ['Smith', 'Nguyen', 'Garcia', 'Okafor', 'Kowalski', 'Tanaka'];
+
+function uid(kind: number, n: number): string {
+  return `00000000-0000-4000-8000-${kind.toString(16).padStart(4, '0')}${n.toString(16).padStart(8, '0')}`;
+}
+
+function pick<T>(values: readonly T[], n: number): T {
+  return values[n % values.length]!;
+}
+
+function buildDevices(organizations: MockOrganization[], perOrganization: number): MockDevice[] {
+  const devices: MockDevice[] = [];
+  for (const organization of organizations) {
+    for (let i = 0; i < perOrganization; i++) {
+      const n = devices.length;
+      const id = 101 + n;
+      const nodeClass = pick(NODE_CLASSES, n);
+      const os = OPERATING_SYSTEMS[nodeClass];
+      const hardware = pick(HARDWARE, n);
+      const prefix = organization.name.split(' ')[0]!.toUpperCase().slice(0, 4);
+      const systemName = nodeClass === 'WINDOWS_SERVER' || nodeClass === 'LINUX_SERVER'
+        ? `${prefix}-SRV-${String(i + 1).padStart(2, '0')}`
+        : `${prefix}-${pick(DEPARTMENTS, i)}-${String(i + 1).padStart(2, '0')}`;
+      const location = pick(organization.locations, i);
+      const warrantyEnd = FIXTURE_EPOCH + (n % 3 === 0 ? -90 : 400) * DAY;
+      devices.push({
+        id,
+        uid: uid(1, id),
+        organizationId: organization.id,
+        locationId: location.id,
+        nodeClass,
+        approvalStatus: 'APPROVED',
+        offline: n % 4 === 3,
+        displayName: `${pick(FIRST_NAMES, n)}'s ${nodeClass === 'MAC' ? 'MacBook' : hardware.model}`,
+        systemName,
+        dnsName: `${systemName.toLowerCase()}.${prefix.toLowerCase()}.local`,
+        netbiosName: systemName,
+        created: FIXTURE_EPOCH - 365 * DAY + n * DAY,
+        lastContact: FIXTURE_EPOCH - (n % 4 === 3 ? 10 * DAY : 60),
+        lastUpdate: FIXTURE_EPOCH - 60,
+        tags: [],
+        ipAddresses: [`10.${organization.id}.0.${10 + i}`],
+        macAddresses: [`00:1A:2B:${organization.id.toString(16).padStart(2, '0')}:00:${(10 + i).toString(16).padStart(2, '0')}`.toUpperCase()],
+        publicIP: `203.0.113.${organization.id}`,
+        references: {
+          organization: { id: organization.id, name: organization.name },
+          location: { id: location.id, name: location.name },
+          warranty: {
+            startDate: warrantyEnd - 3 * 365 * DAY,
+            endDate: warrantyEnd,
+            manufacturerFulfillmentDate: warrantyEnd - 3 * 365 * DAY - 7 * DAY
+          }
+        },
+        os: {
+          name: os.name,
+          manufacturer: os.manufacturer,
+          architecture: '64-bit',
+          buildNumber: os.buildNumber,
+          ...(os.releaseId ? { releaseId: os.releaseId } : {}),
+          lastBootTime: FIXTURE_EPOCH - 3 * DAY,
+          needsReboot: n % 5 === 0
+        },
+        system: {
+          name: systemName,
+          manufacturer: nodeClass === 'MAC' ? 'Apple Inc.' : hardware.manufacturer,
+          model: nodeClass === 'MAC' ? 'MacBook Pro' : hardware.model,
+          serialNumber: `SN${(1_000_000 + id * 7919).toString(36).toUpperCase()}`,
+          biosSerialNumber: `SN${(1_000_000 + id * 7919).toString(36).toUpperCase()}`,
+          totalPhysicalMemory: 17_179_869_184,
+          virtualMachine: false
+        }
+      });
+    }
+  }
+  return devices;
+}
+
+/** Query report rows the device index and tests rely on; the rest come from the spec. */
+function buildQueries(devices: MockDevice[], organizations: MockOrganization[]): Record<string, Record<string, unknown>[]> {
+  const domainOf = (device: MockDevice) =>
+    (organizations.find((organization) => organization.id === device.organizationId)?.name ?? 'CORP').split(' ')[0]!.toUpperCase();
+  return {
+    '/v2/queries/computer-systems': devices.map((device) => ({
+      deviceId: device.id,
+      name: device.systemName,
+      manufacturer: device.system?.manufacturer,
+      model: device.system?.model,
+      serialNumber: device.system?.serialNumber,
+      biosSerialNumber: device.system?.biosSerialNumber,
+      domain: `${domainOf(device).toLowerCase()}.local`,
+      totalPhysicalMemory: device.system?.totalPhysicalMemory,
+      virtualMachine: false,
+      timestamp: FIXTURE_EPOCH
+    })),
+    '/v2/queries/operating-systems': devices.map((device) => ({
+      deviceId: device.id,
+      ...device.os,
+      timestamp: FIXTURE_EPOCH
+    })),
+    '/v2/queries/logged-on-users': devices
+      .filter((device) => !device.offline && device.nodeClass !== 'LINUX_SERVER')
+      .map((device, n) => ({
+        deviceId: device.id,
+        userName: `${domainOf(device)}\\${pick(FIRST_NAMES, n).toLowerCase()}.${pick(LAST_NAMES, n).toLowerCase()}`,
+        logonTime: FIXTURE_EPOCH - 2 * 60 * 60
+      })),
+    '/v2/queries/network-interfaces': devices.map((device) => ({
+      deviceId: device.id,
+      interfaceName: 'Ethernet',
+      adapterName: 'Intel(R) Ethernet Connection',
+      ipAddress: device.ipAddresses,
+      macAddress: device.macAddresses,
+      linkSpeed: 1_000_000_000,
+      timestamp: FIXTURE_EPOCH
+    }))
+  };
+}
+
+export function createFixtures(options: FixtureOptions = {}): MockNinjaFixtures {
+  const organizationCount = Math.min(options.organizations ?? 3, ORGANIZATION_NAMES.length);
+  const organizations: MockOrganization[] = ORGANIZATION_NAMES.slice(0, organizationCount).map((name, n) => ({
+    id: n + 1,
+    name,
+    description: `${name} (fixture tenant)`,
+    nodeApprovalMode: 'AUTOMATIC',
+    tags: [],
+    locations: [
+      { id: (n + 1) * 10 + 1, name: 'Headquarters', address: `${100 + n} Main Street`, description: 'Main office', tags: [] },
+      { id: (n + 1) * 10 + 2, name: 'Branch Office', address: `${200 + n} Side Street`, description: 'Branch', tags: [] }
+    ]
+  }));
+  const devices = buildDevices(organizations, options.devicesPerOrganization ?? 12);
+
+  const alerts: Alert[] = devices.filter((_device, n) => n % 5 === 1).map((device, n) => ({
+    uid: uid(2, n + 1),
+    deviceId: device.id,
+    message: n % 2 === 0 ? 'Disk C: is 92% full' : 'CPU utilization above 90% for 15 minutes',
+    subject: n % 2 === 0 ? 'Low disk space' : 'High CPU',
+    sourceType: n % 2 === 0 ? 'CONDITION_AGENT_DISK_FREE_SPACE' : 'CONDITION_AGENT_CPU',
+    createTime: FIXTURE_EPOCH - (n + 1) * 60 * 60,
+    updateTime: FIXTURE_EPOCH - (n + 1) * 60 * 60,
+    severity: n % 2 === 0 ? 'MAJOR' : 'MODERATE',
+    priority: 'HIGH',
+    device: { id: device.id, organizationId: device.organizationId, systemName: device.systemName, displayName: device.displayName }
+  }));
+
+  const policies: Policy[] = [
+    { id: 1, name: 'Windows Workstation Baseline', nodeClass: 'WINDOWS_WORKSTATION', nodeClassDefault: true, description: 'Default workstation policy' },
+    { id: 2, name: 'Windows Server Baseline', nodeClass: 'WINDOWS_SERVER', nodeClassDefault: true, description: 'Default server policy' },
+    { id: 3, name: 'Mac Baseline', nodeClass: 'MAC', nodeClassDefault: true, description: 'Default Mac policy' },
+    { id: 4, name: 'Kiosk Lockdown', parentPolicyId: 1, nodeClass: 'WINDOWS_WORKSTATION', nodeClassDefault: false, description: 'Template for kiosks' }
+  ];
+
+  const offline = devices.filter((device) => device.offline).map((device) => device.id);
+  const servers = devices.filter((device) => device.nodeClass === 'WINDOWS_SERVER').map((device) => device.id);
+  const groups: MockGroup[] = [
+    { id: 1, name: 'Offline devices', description: 'Devices not seen for 7 days', shared: true, deviceCount: offline.length, deviceIds: offline },
+    { id: 2, name: 'Windows servers', description: 'All Windows servers', shared: true, deviceCount: servers.length, deviceIds: servers }
+  ];
+
+  const endUsers: EndUser[] = organizations.map((organization, n) => ({
+    id: 201 + n,
+    uid: uid(3, 201 + n),
+    enabled: true,
+    firstName: pick(FIRST_NAMES, n),
+    lastName: pick(LAST_NAMES, n),
+    email: `${pick(FIRST_NAMES, n).toLowerCase()}@${organization.name.split(' ')[0]!.toLowerCase()}.example`,
+    organizationId: organization.id,
+    fullPortalAccess: false,
+    invitationStatus: 'REGISTERED'
+  }));
+
+  const technicians: Technician[] = [0, 1].map((n) => ({
+    id: 301 + n,
+    uid: uid(4, 301 + n),
+    enabled: true,
+    firstName: pick(FIRST_NAMES, n + 3),
+    lastName: pick(LAST_NAMES, n + 3),
+    email: `tech${n + 1}@msp.example`,
+    userType: 'TECHNICIAN',
+    administrator: n === 0,
+    invitationStatus: 'REGISTERED'
+  }));
+
+  const contacts: Contact[] = organizations.map((organization, n) => ({
+    id: 401 + n,
+    uid: uid(5, 401 + n),
+    organizationId: organization.id,
+    firstName: pick(FIRST_NAMES, n + 2),
+    lastName: pick(LAST_NAMES, n + 2),
+    email: `contact${n + 1}@${organization.name.split(' ')[0]!.toLowerCase()}.example`,
+    phone: `+1 555 010${n}`,
+    jobTitle: 'Office Manager'
+  }));
+
+  const scripts: AutomationScript[] = [
+    { id: 1, name: 'Clear Temp Files', description: 'Removes temporary files', active: true, language: 'powershell', operatingSystems: ['WINDOWS'], architecture: ['64'] },
+    { id: 2, name: 'Restart Print Spooler', description: 'Restarts the spooler service', active: true, language: 'powershell', operatingSystems: ['WINDOWS'], architecture: ['64'] },
+    { id: 3, name: 'Flush DNS Cache', description: 'Flushes the resolver cache', active: true, language: 'shell', operatingSystems: ['MAC', 'LINUX'], architecture: ['64'] }
+  ];
+
+  // One running job on the first device and a finished one whose result is in the activities.
+  const [first, second] = devices;
+  const deviceJobs: MockDeviceJob[] = first ? [{
+    uid: uid(6, 1),
+    deviceId: first.id,
+    message: 'Running script Clear Temp Files',
+    createTime: FIXTURE_EPOCH - 120,
+    updateTime: FIXTURE_EPOCH - 60,
+    sourceName: 'Clear Temp Files',
+    jobStatus: 'IN_PROCESS',
+    jobType: 'SCRIPTING'
+  }] : [];
+  const activities: DeviceActivity[] = second ? [
+    {
+      id: 9001,
+      deviceId: second.id,
+      activityTime: FIXTURE_EPOCH - 600,
+      seriesUid: uid(6, 2),
+      activityType: 'ACTION',
+      statusCode: 'START_REQUESTED',
+      status: 'Script Restart Print Spooler requested',
+      sourceName: 'Restart Print Spooler'
+    },
+    {
+      id: 9002,
+      deviceId: second.id,
+      activityTime: FIXTURE_EPOCH - 540,
+      seriesUid: uid(6, 2),
+      activityType: 'ACTION',
+      statusCode: 'COMPLETED',
+      status: 'Script Restart Print Spooler completed',
+      activityResult: 'SUCCESS',
+      sourceName: 'Restart Print Spooler',
+      message: 'Service restarted'
+    }
+  ] : [];
+
+  const scheduledTasks: ScheduledTask[] = [
+    { id: 1, name: 'Nightly cleanup', description: 'Runs Clear Temp Files on all workstations', enabled: true, created: FIXTURE_EPOCH - 30 * DAY, lastRun: FIXTURE_EPOCH - DAY, runCount: 30 }
+  ];
+
+  const ticketStatuses: TicketStatus[] = [
+    { name: 'NEW', displayName: 'New', statusId: 1000 },
+    { name: 'OPEN', displayName: 'Open', statusId: 2000 },
+    { name: 'WAITING', displayName: 'Waiting', statusId: 3000 },
+    { name: 'CLOSED', displayName: 'Closed', statusId: 6000 }
+  ];
+  const ticketAttributes: TicketAttribute[] = [
+    { id: 11, name: 'Callback number', attributeType: 'TEXT', active: true, system: false }
+  ];
+  const ticketForms: TicketForm[] = [
+    { id: 1, name: 'Default', description: 'Default ticket form', active: true, default: true, fields: [{ id: 11, name: 'Callback number', attributeType: 'TEXT', active: true, system: false }] }
+  ];
+  const ticketBoards: TicketBoard[] = [
+    { id: 1, uid: uid(7, 1), name: 'All open tickets', system: true, columns: ['id', 'subject', 'status', 'priority'], ticketCount: 2 }
+  ];
+  const tickets: MockTicket[] = devices.slice(0, 2).map((device, n) => ({
+    id: 1001 + n,
+    version: 1,
+    nodeId: device.id,
+    clientId: device.organizationId,
+    locationId: device.locationId,
+    subject: n === 0 ? 'Printer not working' : 'New laptop setup',
+    status: ticketStatuses[n]!,
+    type: n === 0 ? 'PROBLEM' : 'SERVICE_REQUEST',
+    priority: 'MEDIUM',
+    severity: 'MINOR',
+    ticketFormId: 1,
+    source: 'TECHNICIAN',
+    tags: [],
+    createTime: FIXTURE_EPOCH - (n + 1) * DAY,
+    deleted: false,
+    attributeValues: [],
+    logEntries: [{
+      id: 5001 + n,
+      type: 'DESCRIPTION',
+      body: n === 0 ? 'The office printer shows an offline error.' : 'Please prepare a laptop for the new hire.',
+      publicEntry: true,
+      system: false,
+      createTime: FIXTURE_EPOCH - (n + 1) * DAY
+    }]
+  }));
+
+  return {
+    organizations,
+    devices,
+    alerts,
+    policies,
+    groups,
+    endUsers,
+    technicians,
+    contacts,
+    scripts,
+    deviceJobs,
+    activities,
+    scheduledTasks,
+    tickets,
+    ticketStatuses,
+    ticketForms,
+    ticketAttributes,
+    ticketBoards,
+    queries: buildQueries(devices, organizations)
+  };
+}
@@ -0,0 +1,333 @@
+/**
+ * Local NinjaOne API for offline testing.
+ * Serves the OAuth client-credentials endpoint and every route in the
+ * bundled OpenAPI spec from seeded fixtures (see mock-routes.ts), with
+ * NinjaOne's paging. Faults can be injected per route to reproduce rate
+ * limiting (429 with Retry-After), revoked tokens (401), upstream errors
+ * (5xx) and requests that never answer.
+ *
+ * Run it on its own with `npm run mock:ninja` and point the server at it:
+ *   NINJA_BASE_URL=http://127.0.0.1:8787 NINJA_ALLOW_LOCAL_BASE_URL=true
+ *   NINJA_CLIENT_ID=mock-client-id NINJA_CLIENT_SECRET=mock-client-secret
+ * A separate process can inject faults through the /__mock endpoints.
+ */
+
+import express, { Request, Response } from 'express';
+import type { Server as HttpServer } from 'http';
+import type { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { createFixtures } from './fixtures.js';
+import type { FixtureOptions, MockNinjaFixtures } from './fixtures.js';
+import { MockSpec } from './mock-spec.js';
+import { MockHttpError, NO_CONTENT, UNDOCUMENTED_ROUTES, assertRecordExists, handlerFor } from './mock-routes.js';
+import type { MockRequest } from './mock-routes.js';
+
+export interface MockFault {
+  /** Only requests with this method; any method when omitted. */
+  method?: string;
+  /**
+   * A spec template (`/v2/device/{id}`), a concrete path (`/v2/device/101`)
+   * or a pattern tested against the concrete path. `/ws/oauth/token` targets
+   * the token endpoint.
+   */
+  path: string | RegExp;
+  /** Answer with this status instead of the route's response. */
+  status?: number;
+  /** Seconds sent as Retry-After with the status. */
+  retryAfterSeconds?: number;
+  /** Delay the response (the normal one, or `status`). */
+  delayMs?: number;
+  /** Never answer; the client's request timeout has to fire. */
+  timeout?: boolean;
+  /** Requests the fault applies to before it is used up (default 1, Infinity for all). */
+  times?: number;
+}
+
+export interface MockNinjaServerOptions {
+  clientId?: string;
+  clientSecret?: string;
+  /** Seeded records, or options for generating them. */
+  fixtures?: MockNinjaFixtures | FixtureOptions;
+  specPath?: string;
+  tokenTtlSeconds?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  /** Spec template the path matched; undefined for unknown paths. */
+  template?: string;
+  query: Record<string, string>;
+  status: number;
+  /** True when an injected fault produced the response. */
+  faulted: boolean;
+}
+
+interface ActiveFault extends MockFault {
+  remaining: number;
+}
+
+export const MOCK_CLIENT_ID = 'mock-client-id';
+export const MOCK_CLIENT_SECRET = 'mock-client-secret';
+
+const TOKEN_PATH = '/ws/oauth/token';
+const ADMIN_PREFIX = '/__mock';
+
+export class MockNinjaServer {
+  readonly fixtures: MockNinjaFixtures;
+  readonly requests: RecordedRequest[] = [];
+  private readonly spec: MockSpec;
+  private readonly clientId: string;
+  private readonly clientSecret: string;
+  private readonly tokenTtlSeconds: number;
+  private readonly tokens = new Set<string>();
+  private faults: ActiveFault[] = [];
+  private server: HttpServer | undefined;
+  private url: string | undefined;
+
+  constructor(options: MockNinjaServerOptions = {}) {
+    const fixtures = options.fixtures;
+    this.fixtures = fixtures && 'devices' in fixtures ? fixtures : createFixtures(fixtures);
+    this.spec = MockSpec.load(options.specPath);
+    for (const route of UNDOCUMENTED_ROUTES) this.spec.addRoute(route);
+    this.clientId = options.clientId ?? MOCK_CLIENT_ID;
+    this.clientSecret = options.clientSecret ?? MOCK_CLIENT_SECRET;
+    this.tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+  }
+
+  /** Base URL of the running server, e.g. http://127.0.0.1:8787. */
+  get baseUrl(): string {
+    if (!this.url) throw new Error('Mock NinjaOne server is not running');
+    return this.url;
+  }
+
+  /** Listen on 127.0.0.1; port 0 picks a free port. Resolves to the base URL. */
+  start(port = 0): Promise<string> {
+    const app = express();
+    app.use(express.json({ limit: '10mb' }));
+    app.use(express.urlencoded({ extended: false }));
+    app.use(express.raw({ type: 'multipart/form-data', limit: '10mb' }));
+    app.get(`${ADMIN_PREFIX}/requests`, (_req, res) => {
+      res.json(this.requests);
+    });
+    app.post(`${ADMIN_PREFIX}/faults`, (req, res) => {
+      this.inject(req.body as MockFault);
+      res.status(204).end();
+    });
+    app.delete(`${ADMIN_PREFIX}/faults`, (_req, res) => {
+      this.clearFaults();
+      res.status(204).end();
+    });
+    app.post(`${ADMIN_PREFIX}/revoke-tokens`, (_req, res) => {
+      this.revokeTokens();
+      res.status(204).end();
+    });
+    app.use((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('Mock NinjaOne server error:', error);
+        if (!res.headersSent) res.status(500).json({ resultCode: 'FAILURE', errorMessage: 'Mock server error' });
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      const server = app.listen(port, '127.0.0.1', () => {
+        const { port: bound } = server.address() as AddressInfo;
+        this.url = `http://127.0.0.1:${bound}`;
+        resolve(this.url);
+      });
+      server.once('error', reject);
+      this.server = server;
+    });
+  }
+
+  /** Stop listening and drop open connections, including requests held by a timeout fault. */
+  stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    this.url = undefined;
+    if (!server) return Promise.resolve();
+    return new Promise((resolve) => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+  }
+
+  inject(fault: MockFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /** Invalidate every issued access token, as if they had expired. */
+  revokeTokens(): void {
+    this.tokens.clear();
+  }
+
+  /** Requests received for a route, e.g. count('GET', '/v2/devices'). */
+  count(method: string, template: string): number {
+    return this.requests.filter((request) => request.method === method && request.template === template).length;
+  }
+
+  /** Forget recorded requests and pending faults; fixtures keep their changes. */
+  reset(): void {
+    this.requests.length = 0;
+    this.clearFaults();
+  }
+
+  private async handle(req: Request, res: Response): Promise<void> {
+    const method = req.method.toUpperCase();
+    const url = new URL(req.originalUrl, 'http://mock');
+    const match = url.pathname === TOKEN_PATH ? undefined : this.spec.match(method, url.pathname);
+    const template = url.pathname === TOKEN_PATH ? TOKEN_PATH : match?.route?.template;
+    const record: RecordedRequest = {
+      method,
+      path: url.pathname,
+      ...(template ? { template } : {}),
+      query: Object.fromEntries(url.searchParams),
+      status: 0,
+      faulted: false
+    };
+    this.requests.push(record);
+    const send = (status: number, body?: unknown, headers: Record<string, string> = {}) => {
+      record.status = status;
+      res.status(status).set(headers);
+      if (body === undefined) res.end();
+      else res.json(body);
+    };
+
+    const fault = this.takeFault(method, url.pathname, template);
+    if (fault) {
+      if (fault.delayMs) await new Promise((resolve) => setTimeout(resolve, fault.delayMs));
+      if (fault.timeout) {
+        record.faulted = true;
+        return;
+      }
+      if (fault.status !== undefined) {
+        record.faulted = true;
+        send(
+          fault.status,
+          { resultCode: 'FAILURE', errorMessage: `Injected ${fault.status}`, incidentId: randomUUID() },
+          fault.retryAfterSeconds !== undefined ? { 'Retry-After': String(fault.retryAfterSeconds) } : {}
+        );
+        return;
+      }
+    }
+
+    if (url.pathname === TOKEN_PATH) {
+      this.issueToken(method, req.body, send);
+      return;
+    }
+
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '') ?? '';
+    if (!this.tokens.has(token)) {
+      send(401, { error: 'invalid_token', error_description: 'Access token is missing, expired or revoked' });
+      return;
+    }
+
+    if (!match?.route) {
+      const allowed = match?.allowedMethods ?? [];
+      send(allowed.length > 0 ? 405 : 404, {
+        resultCode: 'FAILURE',
+        errorMessage: allowed.length > 0
+          ? `${method} is not allowed on ${url.pathname}; the spec declares ${allowed.join(', ')}`
+          : `${url.pathname} is not in the NinjaOne API spec`
+      });
+      return;
+    }
+
+    const request: MockRequest = {
+      method,
+      path: url.pathname,
+      template: match.route.template,
+      params: match.params,
+      query: url.searchParams,
+      body: await this.parseBody(req)
+    };
+    try {
+      assertRecordExists(request, this.fixtures);
+      const handler = handlerFor(method, request.template);
+      const body = handler ? handler(request, { fixtures: this.fixtures, spec: this.spec, route: match.route }) : undefined;
+      if (body === NO_CONTENT) {
+        send(204);
+      } else if (body !== undefined) {
+        send(200, body);
+      } else {
+        const schema = this.spec.responseSchema(match.route);
+        if (schema) send(200, this.spec.sample(schema));
+        else send(204);
+      }
+    } catch (error) {
+      if (!(error instanceof MockHttpError)) throw error;
+      send(error.status, { resultCode: 'FAILURE', errorMessage: error.message, incidentId: randomUUID() });
+    }
+  }
+
+  private issueToken(method: string, body: any, send: (status: number, body?: unknown) => void): void {
+    if (method !== 'POST') {
+      send(405, { error: 'invalid_request' });
+      return;
+    }
+    if (body?.grant_type !== 'client_credentials') {
+      send(400, { error: 'unsupported_grant_type' });
+      return;
+    }
+    if (body.client_id !== this.clientId || body.client_secret !== this.clientSecret) {
+      send(401, { error: 'invalid_client' });
+      return;
+    }
+    const accessToken = `mock-${randomUUID()}`;
+    this.tokens.add(accessToken);
+    send(200, {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.tokenTtlSeconds,
+      scope: body.scope ?? 'monitoring management control'
+    });
+  }
+
+  /** JSON and form bodies arrive parsed; multipart parts holding JSON are parsed too. */
+  private async parseBody(req: Request): Promise<unknown> {
+    if (!Buffer.isBuffer(req.body)) return req.body;
+    const form = await new globalThis.Response(new Uint8Array(req.body), {
+      headers: { 'content-type': req.headers['content-type'] ?? '' }
+    }).formData();
+    const entries: [string, FormDataEntryValue][] = [];
+    form.forEach((value, name) => entries.push([name, value]));
+    const parts: Record<string, unknown> = {};
+    for (const [name, value] of entries) {
+      const text = typeof value === 'string' ? value : await value.text();
+      try {
+        parts[name] = JSON.parse(text);
+      } catch {
+        parts[name] = text;
+      }
+    }
+    return parts;
+  }
+
+  private takeFault(method: string, path: string, template: string | undefined): ActiveFault | undefined {
+    const fault = this.faults.find((candidate) =>
+      (!candidate.method || candidate.method.toUpperCase() === method)
+      && (candidate.path instanceof RegExp ? candidate.path.test(path) : candidate.path === path || candidate.path === template)
+    );
+    if (!fault) return undefined;
+    if (--fault.remaining <= 0) this.faults = this.faults.filter((candidate) => candidate !== fault);
+    return fault;
+  }
+}
+
+// Run standalone: MOCK_NINJA_PORT (default 8787).
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const mock = new MockNinjaServer();
+  const port = parseInt(process.env.MOCK_NINJA_PORT || '8787', 10);
+  mock.start(port).then((url) => {
+    console.error(`Mock NinjaOne API listening at ${url}`);
+    console.error(`  ${mock.fixtures.organizations.length} organizations, ${mock.fixtures.devices.length} devices`);
+    console.error(`  NINJA_BASE_URL=${url} NINJA_ALLOW_LOCAL_BASE_URL=true NINJA_CLIENT_ID=${MOCK_CLIENT_ID} NINJA_CLIENT_SECRET=${MOCK_CLIENT_SECRET}`);
+  }).catch((error) => {
+    console.error('Mock NinjaOne server failed to start:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,443 @@
+/**
+ * Fixture-backed handlers for the mock NinjaOne server.
+ * Handlers are keyed by method and spec path template. They serve the seeded
+ * records with NinjaOne's paging (`after` ids for lists, named cursors for
+ * /v2/queries/*) and device filters, and keep the effect of mutations so a
+ * test can create a record and read it back. Routes without a handler answer
+ * with a sample from the spec.
+ */
+
+import type { MockDevice, MockDeviceJob, MockNinjaFixtures, MockTicket } from './fixtures.js';
+import type { MockSpec, SpecRoute } from './mock-spec.js';
+
+export interface MockRequest {
+  method: string;
+  /** Concrete path without the query string, e.g. /v2/device/101/jobs. */
+  path: string;
+  template: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export interface MockRouteContext {
+  fixtures: MockNinjaFixtures;
+  spec: MockSpec;
+  route: SpecRoute;
+}
+
+/** Returns the JSON body, NO_CONTENT for a 204, or undefined for the spec sample. */
+export type MockHandler = (request: MockRequest, context: MockRouteContext) => unknown;
+
+export const NO_CONTENT = Symbol('no content');
+
+/** An error response with NinjaOne's error body. */
+export class MockHttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'MockHttpError';
+  }
+}
+
+/** Endpoints NinjaOne serves without documenting them (see UndocumentedPaths in types/models.ts). */
+export const UNDOCUMENTED_ROUTES: SpecRoute[] = [
+  { method: 'GET', template: '/v2/alert/{uid}' },
+  { method: 'GET', template: '/v2/organization/{id}/policies' }
+];
+
+/** The built-in action every device offers in its scripting options. */
+export const BUILT_IN_ACTION_UID = '00000000-0000-4000-a000-000000000001';
+
+/** Query page size when the request does not set one. */
+const DEFAULT_QUERY_PAGE_SIZE = 1000;
+
+function numberParam(request: MockRequest, name: string): number {
+  return Number(request.params[name]);
+}
+
+function findOr404<T>(records: T[], match: (record: T) => boolean, what: string): T {
+  const record = records.find(match);
+  if (!record) throw new MockHttpError(404, `${what} not found`);
+  return record;
+}
+
+function bodyOf(request: MockRequest): Record<string, any> {
+  return request.body && typeof request.body === 'object' && !Array.isArray(request.body)
+    ? request.body as Record<string, any>
+    : {};
+}
+
+function nextId(records: { id?: number }[]): number {
+  return records.reduce((max, record) => Math.max(max, record.id ?? 0), 0) + 1;
+}
+
+/**
+ * Path prefixes whose parameter names a record. A request for an unknown
+ * record is a 404 even on routes that answer with the spec sample.
+ */
+const RECORD_OWNERS: { prefix: string; param: string; exists: (fixtures: MockNinjaFixtures, value: string) => boolean }[] = [
+  { prefix: '/v2/device/{id}', param: 'id', exists: (f, v) => f.devices.some((d) => d.id === Number(v)) },
+  { prefix: '/v2/organization/{id}', param: 'id', exists: (f, v) => f.organizations.some((o) => o.id === Number(v)) },
+  { prefix: '/v2/contact/{id}', param: 'id', exists: (f, v) => f.contacts.some((c) => c.id === Number(v)) },
+  { prefix: '/v2/user/end-user/{id}', param: 'id', exists: (f, v) => f.endUsers.some((u) => u.id === Number(v)) },
+  { prefix: '/v2/user/technician/{id}', param: 'id', exists: (f, v) => f.technicians.some((t) => t.id === Number(v)) },
+  { prefix: '/v2/alert/{uid}', param: 'uid', exists: (f, v) => f.alerts.some((a) => a.uid === v) },
+  { prefix: '/v2/group/{id}', param: 'id', exists: (f, v) => f.groups.some((g) => g.id === Number(v)) },
+  { prefix: '/v2/ticketing/ticket/{ticketId}', param: 'ticketId', exists: (f, v) => f.tickets.some((t) => t.id === Number(v)) },
+  { prefix: '/v2/ticketing/ticket-form/{id}', param: 'id', exists: (f, v) => f.ticketForms.some((t) => t.id === Number(v)) },
+  { prefix: '/v2/ticketing/trigger/board/{boardId}', param: 'boardId', exists: (f, v) => f.ticketBoards.some((b) => b.id === Number(v)) }
+];
+
+export function assertRecordExists(request: MockRequest, fixtures: MockNinjaFixtures): void {
+  for (const owner of RECORD_OWNERS) {
+    if (request.template !== owner.prefix && !request.template.startsWith(`${owner.prefix}/`)) continue;
+    const value = request.params[owner.param] ?? '';
+    if (!owner.exists(fixtures, value)) {
+      throw new MockHttpError(404, `No record ${value} for ${owner.prefix}`);
+    }
+  }
+}
+
+/**
+ * Evaluate the device filter (`df`) subset the server and tests use:
+ * `org`, `loc`, `id` and `class` with `=` or `in (...)`, `online`,
+ * `offline`, joined by AND. Other conditions are ignored.
+ */
+export function matchesDeviceFilter(df: string | null, device: MockDevice): boolean {
+  if (!df?.trim()) return true;
+  return df.split(/\s+AND\s+/i).every((condition) => {
+    const clause = condition.trim();
+    if (/^online$/i.test(clause)) return !device.offline;
+    if (/^offline$/i.test(clause)) return device.offline === true;
+    const found = /^(\w+)\s*(=|in)\s*\(?([^)]*)\)?$/i.exec(clause);
+    if (!found) return true;
+    const values = found[3]!.split(',').map((value) => value.trim().replace(/^'|'$/g, ''));
+    const field: Record<string, unknown> = {
+      org: device.organizationId,
+      organization: device.organizationId,
+      loc: device.locationId,
+      location: device.locationId,
+      id: device.id,
+      class: device.nodeClass
+    };
+    const key = found[1]!.toLowerCase();
+    return key in field ? values.includes(String(field[key])) : true;
+  });
+}
+
+function filteredDevices(request: MockRequest, fixtures: MockNinjaFixtures): MockDevice[] {
+  return fixtures.devices.filter((device) => matchesDeviceFilter(request.query.get('df'), device));
+}
+
+/** A list page: records with an id above `after`, at most `pageSize` of them. */
+function pageById<T extends { id?: number }>(records: T[], query: URLSearchParams): T[] {
+  const after = Number(query.get('after') ?? Number.NEGATIVE_INFINITY);
+  const pageSize = Number(query.get('pageSize') ?? records.length);
+  return [...records]
+    .sort((a, b) => (a.id ?? 0) - (b.id ?? 0))
+    .filter((record) => (record.id ?? 0) > after)
+    .slice(0, Math.max(0, pageSize));
+}
+
+/** A /v2/queries/* page; the cursor name encodes the offset of the next page. */
+function pageByCursor(records: unknown[], query: URLSearchParams) {
+  const cursor = query.get('cursor');
+  const offset = cursor ? Number(Buffer.from(cursor, 'base64url').toString()) || 0 : 0;
+  const pageSize = Number(query.get('pageSize') ?? DEFAULT_QUERY_PAGE_SIZE);
+  const results = records.slice(offset, offset + pageSize);
+  return {
+    cursor: {
+      name: Buffer.from(String(offset + results.length)).toString('base64url'),
+      offset,
+      count: results.length,
+      expires: Math.floor(Date.now() / 1000) + 300
+    },
+    results
+  };
+}
+
+/** The /v2/devices view of a device: no os, system or address blocks. */
+function basicDevice(device: MockDevice) {
+  const { os, system, references, ipAddresses, macAddresses, publicIP, ...basic } = device;
+  return basic;
+}
+
+/**
+ * Rows of a query report, filtered by the device filter. Reports without
+ * fixture rows get one spec sample per device, generated once.
+ */
+const queryReport: MockHandler = (request, { fixtures, spec, route }) => {
+  let rows = fixtures.queries[request.template];
+  if (!rows) {
+    const sample = spec.sample(spec.itemSchema(route, 'results')) as Record<string, unknown>;
+    rows = fixtures.devices.map((device) => ({ ...sample, deviceId: device.id }));
+    fixtures.queries[request.template] = rows;
+  }
+  const devices = new Set(filteredDevices(request, fixtures).map((device) => device.id));
+  return pageByCursor(rows.filter((row) => devices.has(row.deviceId as number)), request.query);
+};
+
+/**
+ * Device actions start a job that is listed as running on the next read of
+ * the device's jobs and finished after it: the activities record its start
+ * and then its result, so waitForJob sees it run and finish.
+ */
+function startJob(fixtures: MockNinjaFixtures, deviceId: number, name: string): typeof NO_CONTENT {
+  const now = Math.floor(Date.now() / 1000);
+  const seriesUid = `00000000-0000-4000-9000-${(fixtures.activities.length + 1).toString(16).padStart(12, '0')}`;
+  fixtures.activities.push(
+    { id: nextId(fixtures.activities), deviceId, activityTime: now, seriesUid, activityType: 'ACTION', statusCode: 'START_REQUESTED', status: `${name} requested`, sourceName: name }
+  );
+  fixtures.deviceJobs.push({
+    uid: seriesUid,
+    deviceId,
+    message: `${name} in progress`,
+    createTime: now,
+    updateTime: now,
+    sourceName: name,
+    jobStatus: 'IN_PROCESS',
+    jobType: 'ACTION',
+    completion: { deviceId, activityTime: now, seriesUid, activityType: 'ACTION', statusCode: 'COMPLETED', status: `${name} completed`, activityResult: 'SUCCESS', sourceName: name }
+  });
+  return NO_CONTENT;
+}
+
+/** A device's jobs; jobs started by actions finish once they have been listed. */
+function listDeviceJobs(fixtures: MockNinjaFixtures, deviceId: number): MockDeviceJob[] {
+  const listed = fixtures.deviceJobs.filter((job) => job.deviceId === deviceId);
+  for (const job of listed) {
+    if (!job.completion) continue;
+    fixtures.activities.push({ ...job.completion, id: nextId(fixtures.activities) });
+    fixtures.deviceJobs.splice(fixtures.deviceJobs.indexOf(job), 1);
+  }
+  return listed.map(({ completion, ...job }) => job);
+}
+
+function ticketOr404(request: MockRequest, fixtures: MockNinjaFixtures): MockTicket {
+  return findOr404(fixtures.tickets, (ticket) => ticket.id === numberParam(request, 'ticketId'), 'Ticket');
+}
+
+function publicTicket({ logEntries, ...ticket }: MockTicket) {
+  return ticket;
+}
+
+export const MOCK_HANDLERS: Record<string, MockHandler> = {
+  // Devices
+  'GET /v2/devices': (request, { fixtures }) => pageById(filteredDevices(request, fixtures), request.query).map(basicDevice),
+  'GET /v2/devices-detailed': (request, { fixtures }) => pageById(filteredDevices(request, fixtures), request.query),
+  'GET /v2/devices/search': (request, { fixtures }) => {
+    const q = (request.query.get('q') ?? '').toLowerCase();
+    const limit = Number(request.query.get('limit') ?? 100);
+    const devices = fixtures.devices.flatMap((device) => {
+      const attributes: [string, string | undefined][] = [
+        ['systemName', device.systemName],
+        ['displayName', device.displayName],
+        ['dnsName', device.dnsName],
+        ...(device.ipAddresses ?? []).map((ip): [string, string] => ['ipAddress', ip])
+      ];
+      const match = q ? attributes.find(([, value]) => value?.toLowerCase().includes(q)) : undefined;
+      if (!match) return [];
+      return [{ ...basicDevice(device), matchAttr: match[0], matchAttrValue: match[1], score: match[1]?.toLowerCase() === q ? 100 : 50 }];
+    });
+    return { query: request.query.get('q') ?? '', devices: devices.slice(0, limit) };
+  },
+  'GET /v2/device/{id}': (request, { fixtures }) =>
+    findOr404(fixtures.devices, (device) => device.id === numberParam(request, 'id'), 'Device'),
+  'GET /v2/device/{id}/jobs': (request, { fixtures }) => listDeviceJobs(fixtures, numberParam(request, 'id')),
+  'GET /v2/device/{id}/activities': (request, { fixtures }) => {
+    const seriesUid = request.query.get('seriesUid');
+    const activities = fixtures.activities
+      .filter((activity) => activity.deviceId === numberParam(request, 'id') && (!seriesUid || activity.seriesUid === seriesUid))
+      .sort((a, b) => (b.id ?? 0) - (a.id ?? 0))
+      .slice(0, Number(request.query.get('pageSize') ?? 200));
+    return { lastActivityId: activities[0]?.id ?? 0, activities };
+  },
+  'GET /v2/device/{id}/alerts': (request, { fixtures }) =>
+    fixtures.alerts.filter((alert) => alert.deviceId === numberParam(request, 'id')),
+  'GET /v2/device/{id}/scripting/options': (_request, { fixtures }) => ({
+    categories: [{ id: 1, name: 'Maintenance', internal: false }],
+    scripts: [
+      ...fixtures.scripts.map((script) => ({
+        type: 'SCRIPT',
+        id: script.id,
+        name: script.name,
+        language: script.language,
+        description: script.description,
+        categoryId: 1
+      })),
+      { type: 'ACTION', uid: BUILT_IN_ACTION_UID, name: 'Restart Windows Update service', categoryId: 1 }
+    ],
+    credentials: { roles: ['SYSTEM', 'LOGGED_ON_USER'], credentials: [{ id: 1, name: 'Domain admin', type: 'BASIC' }] }
+  }),
+  'POST /v2/device/{id}/reboot/{mode}': (request, { fixtures }) => startJob(fixtures, numberParam(request, 'id'), `Reboot (${request.params.mode})`),
+  'POST /v2/device/{id}/script/run': (request, { fixtures }) => startJob(fixtures, numberParam(request, 'id'), 'Script'),
+  'POST /v2/device/{id}/windows-service/{serviceId}/control': (request, { fixtures }) =>
+    startJob(fixtures, numberParam(request, 'id'), `Service ${request.params.serviceId} ${bodyOf(request).action}`),
+  'POST /v2/device/{id}/windows-service/{serviceId}/configure': (request, { fixtures }) =>
+    startJob(fixtures, numberParam(request, 'id'), `Configure service ${request.params.serviceId}`),
+  'POST /v2/device/{id}/patch/os/scan': (request, { fixtures }) => startJob(fixtures, numberParam(request, 'id'), 'OS patch scan'),
+  'POST /v2/device/{id}/patch/os/apply': (request, { fixtures }) => startJob(fixtures, numberParam(request, 'id'), 'OS patch install'),
+  'POST /v2/device/{id}/patch/software/scan': (request, { fixtures }) => startJob(fixtures, numberParam(request, 'id'), 'Software patch scan'),
+  'POST /v2/device/{id}/patch/software/apply': (request, { fixtures }) => startJob(fixtures, numberParam(request, 'id'), 'Software patch install'),
+  'GET /v2/jobs': (request, { fixtures }) => {
+    const devices = new Set(filteredDevices(request, fixtures).map((device) => device.id));
+    return fixtures.deviceJobs.filter((job) => devices.has(job.deviceId ?? -1)).map(({ completion, ...job }) => job);
+  },
+  'GET /v2/tasks': (_request, { fixtures }) => fixtures.scheduledTasks,
+  'GET /v2/automation/scripts': (_request, { fixtures }) => fixtures.scripts,
+
+  // Organizations and locations
+  'GET /v2/organizations': (request, { fixtures }) =>
+    pageById(fixtures.organizations, request.query).map(({ locations, ...organization }) => organization),
+  'GET /v2/organization/{id}': (request, { fixtures }) =>
+    findOr404(fixtures.organizations, (organization) => organization.id === numberParam(request, 'id'), 'Organization'),
+  'GET /v2/organization/{id}/locations': (request, { fixtures }) =>
+    fixtures.organizations.find((organization) => organization.id === numberParam(request, 'id'))?.locations ?? [],
+  'GET /v2/organization/{id}/policies': (_request, { fixtures }) =>
+    fixtures.policies.filter((policy) => policy.nodeClassDefault).map((policy) => ({ nodeRoleId: policy.id, policyId: policy.id })),
+  'POST /v2/organizations': (request, { fixtures }) => {
+    const body = bodyOf(request);
+    if (!body.name) throw new MockHttpError(400, 'name is required');
+    const organization = { ...body, id: nextId(fixtures.organizations), name: String(body.name), locations: [] };
+    fixtures.organizations.push(organization);
+    return organization;
+  },
+  'PATCH /v2/organization/{id}': (request, { fixtures }) => {
+    const organization = findOr404(fixtures.organizations, (o) => o.id === numberParam(request, 'id'), 'Organization');
+    Object.assign(organization, bodyOf(request), { id: organization.id });
+    return NO_CONTENT;
+  },
+  'POST /v2/organization/{id}/locations': (request, { fixtures }) => {
+    const organization = findOr404(fixtures.organizations, (o) => o.id === numberParam(request, 'id'), 'Organization');
+    const location = { ...bodyOf(request), id: nextId(fixtures.organizations.flatMap((o) => o.locations)), name: String(bodyOf(request).name ?? '') };
+    organization.locations.push(location);
+    return location;
+  },
+  'PATCH /v2/organization/{id}/locations/{locationId}': (request, { fixtures }) => {
+    const organization = findOr404(fixtures.organizations, (o) => o.id === numberParam(request, 'id'), 'Organization');
+    const location = findOr404(organization.locations, (l) => l.id === numberParam(request, 'locationId'), 'Location');
+    Object.assign(location, bodyOf(request), { id: location.id });
+    return NO_CONTENT;
+  },
+
+  // Alerts
+  'GET /v2/alerts': (request, { fixtures }) => {
+    const devices = new Set(filteredDevices(request, fixtures).map((device) => device.id));
+    return fixtures.alerts.filter((alert) => devices.has(alert.deviceId ?? -1));
+  },
+  'GET /v2/alert/{uid}': (request, { fixtures }) => findOr404(fixtures.alerts, (alert) => alert.uid === request.params.uid, 'Alert'),
+  'DELETE /v2/alert/{uid}': (request, { fixtures }) => {
+    fixtures.alerts = fixtures.alerts.filter((alert) => alert.uid !== request.params.uid);
+    return NO_CONTENT;
+  },
+
+  // Users and contacts
+  'GET /v2/user/end-users': (_request, { fixtures }) => fixtures.endUsers,
+  'GET /v2/user/end-user/{id}': (request, { fixtures }) => findOr404(fixtures.endUsers, (user) => user.id === numberParam(request, 'id'), 'End user'),
+  'POST /v2/user/end-users': (request, { fixtures }) => {
+    const user = { ...bodyOf(request), id: nextId(fixtures.endUsers), enabled: true };
+    fixtures.endUsers.push(user);
+    return user;
+  },
+  'PATCH /v2/user/end-user/{id}': (request, { fixtures }) => {
+    const user = findOr404(fixtures.endUsers, (u) => u.id === numberParam(request, 'id'), 'End user');
+    Object.assign(user, bodyOf(request), { id: user.id });
+    return user;
+  },
+  'DELETE /v2/user/end-user/{id}': (request, { fixtures }) => {
+    fixtures.endUsers = fixtures.endUsers.filter((user) => user.id !== numberParam(request, 'id'));
+    return NO_CONTENT;
+  },
+  'GET /v2/user/technicians': (_request, { fixtures }) => fixtures.technicians,
+  'GET /v2/user/technician/{id}': (request, { fixtures }) =>
+    findOr404(fixtures.technicians, (technician) => technician.id === numberParam(request, 'id'), 'Technician'),
+  'GET /v2/contacts': (_request, { fixtures }) => fixtures.contacts,
+  'GET /v2/contact/{id}': (request, { fixtures }) => findOr404(fixtures.contacts, (contact) => contact.id === numberParam(request, 'id'), 'Contact'),
+  'POST /v2/contacts': (request, { fixtures }) => {
+    const contact = { ...bodyOf(request), id: nextId(fixtures.contacts) };
+    fixtures.contacts.push(contact);
+    return contact;
+  },
+  'PATCH /v2/contact/{id}': (request, { fixtures }) => {
+    const contact = findOr404(fixtures.contacts, (c) => c.id === numberParam(request, 'id'), 'Contact');
+    Object.assign(contact, bodyOf(request), { id: contact.id });
+    return contact;
+  },
+  'DELETE /v2/contact/{id}': (request, { fixtures }) => {
+    fixtures.contacts = fixtures.contacts.filter((contact) => contact.id !== numberParam(request, 'id'));
+    return NO_CONTENT;
+  },
+
+  // Policies and groups
+  'GET /v2/policies': (request, { fixtures }) =>
+    request.query.get('templateOnly') === 'true' ? fixtures.policies.filter((policy) => !policy.nodeClassDefault) : fixtures.policies,
+  'GET /v2/groups': (_request, { fixtures }) => fixtures.groups.map(({ deviceIds, ...group }) => group),
+  'GET /v2/group/{id}/device-ids': (request, { fixtures }) =>
+    fixtures.groups.find((group) => group.id === numberParam(request, 'id'))?.deviceIds ?? [],
+
+  // Ticketing
+  'GET /v2/ticketing/ticket/{ticketId}': (request, { fixtures }) => publicTicket(ticketOr404(request, fixtures)),
+  'POST /v2/ticketing/ticket': (request, { fixtures }) => {
+    const body = bodyOf(request);
+    if (body.ticketFormId === undefined) throw new MockHttpError(400, 'ticketFormId is required');
+    const status = fixtures.ticketStatuses.find((s) => String(s.statusId) === String(body.status)) ?? fixtures.ticketStatuses[0];
+    const ticket: MockTicket = {
+      ...body,
+      id: nextId(fixtures.tickets),
+      version: 1,
+      ...(status ? { status } : {}),
+      createTime: Math.floor(Date.now() / 1000),
+      deleted: false,
+      logEntries: []
+    };
+    fixtures.tickets.push(ticket);
+    return publicTicket(ticket);
+  },
+  'PUT /v2/ticketing/ticket/{ticketId}': (request, { fixtures }) => {
+    const ticket = ticketOr404(request, fixtures);
+    const { status, ...changes } = bodyOf(request);
+    const newStatus = fixtures.ticketStatuses.find((s) => String(s.statusId) === String(status));
+    Object.assign(ticket, changes, newStatus ? { status: newStatus } : {}, { id: ticket.id, version: (ticket.version ?? 0) + 1 });
+    return publicTicket(ticket);
+  },
+  'POST /v2/ticketing/ticket/{ticketId}/comment': (request, { fixtures }) => {
+    const ticket = ticketOr404(request, fixtures);
+    // Multipart body: the comment is JSON in the `comment` part.
+    const comment = bodyOf(request).comment ?? {};
+    ticket.logEntries.push({
+      id: nextId(fixtures.tickets.flatMap((t) => t.logEntries)),
+      type: 'COMMENT',
+      body: comment.body,
+      htmlBody: comment.htmlBody,
+      publicEntry: comment.public ?? true,
+      system: false,
+      createTime: Math.floor(Date.now() / 1000)
+    });
+    return NO_CONTENT;
+  },
+  'GET /v2/ticketing/ticket/{ticketId}/log-entry': (request, { fixtures }) => {
+    const type = request.query.get('type');
+    return ticketOr404(request, fixtures).logEntries.filter((entry) => !type || entry.type === type);
+  },
+  'GET /v2/ticketing/statuses': (_request, { fixtures }) => fixtures.ticketStatuses,
+  'GET /v2/ticketing/ticket-form': (_request, { fixtures }) => fixtures.ticketForms,
+  'GET /v2/ticketing/ticket-form/{id}': (request, { fixtures }) =>
+    findOr404(fixtures.ticketForms, (form) => form.id === numberParam(request, 'id'), 'Ticket form'),
+  'GET /v2/ticketing/attributes': (_request, { fixtures }) => fixtures.ticketAttributes,
+  'GET /v2/ticketing/trigger/boards': (_request, { fixtures }) => fixtures.ticketBoards,
+  'POST /v2/ticketing/trigger/board/{boardId}/run': (request, { fixtures }) => {
+    const body = bodyOf(request);
+    const after = Number(body.lastCursorId ?? 0);
+    const rows = fixtures.tickets
+      .filter((ticket) => ticket.id > after)
+      .slice(0, Number(body.pageSize ?? 50))
+      .map((ticket) => ({ id: ticket.id, subject: ticket.subject, status: ticket.status, priority: ticket.priority, clientId: ticket.clientId }));
+    return { data: rows, metadata: { lastCursorId: rows[rows.length - 1]?.id ?? after } };
+  }
+};
+
+export function handlerFor(method: string, template: string): MockHandler | undefined {
+  const handler = MOCK_HANDLERS[`${method} ${template}`];
+  if (handler) return handler;
+  return method === 'GET' && template.startsWith('/v2/queries/') ? queryReport : undefined;
+}
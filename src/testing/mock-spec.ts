@@ -0,0 +1,189 @@
+/**
+ * Route table and sample responses from the bundled NinjaOne OpenAPI spec.
+ * The mock server answers every path + method the spec declares: routes
+ * with a fixture handler return seeded records, the rest return a sample
+ * built from the operation's response schema.
+ */
+
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+export interface SchemaObject {
+  $ref?: string;
+  type?: string;
+  format?: string;
+  enum?: unknown[];
+  example?: unknown;
+  properties?: Record<string, SchemaObject>;
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+}
+
+interface SpecOperation {
+  parameters?: { name: string; in: string }[];
+  responses?: Record<string, { content?: Record<string, { schema?: SchemaObject }> }>;
+}
+
+interface OpenApiDocument {
+  paths: Record<string, Record<string, SpecOperation>>;
+  components?: { schemas?: Record<string, SchemaObject> };
+}
+
+export interface SpecRoute {
+  method: string;
+  /** Path template as written in the spec, e.g. /v2/device/{id}/jobs. */
+  template: string;
+  operation?: SpecOperation;
+}
+
+export type RouteMatch =
+  | { route: SpecRoute; params: Record<string, string> }
+  | { route: undefined; allowedMethods: string[] };
+
+/** The spec shipped in docs/, relative to both src/testing and dist/testing. */
+export const DEFAULT_SPEC_PATH = fileURLToPath(new URL('../../docs/NinjaRMM-API-v2.json', import.meta.url));
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+/** Nesting depth after which samples stop expanding objects. */
+const MAX_SAMPLE_DEPTH = 6;
+
+interface CompiledTemplate {
+  template: string;
+  pattern: RegExp;
+  paramNames: string[];
+  methods: Map<string, SpecRoute>;
+}
+
+function compileTemplate(template: string): CompiledTemplate {
+  const paramNames: string[] = [];
+  const source = template
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const param = /^\{(\w+)\}$/.exec(part);
+      if (!param) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      paramNames.push(param[1]!);
+      return '([^/]+)';
+    })
+    .join('');
+  return { template, pattern: new RegExp(`^${source}$`), paramNames, methods: new Map() };
+}
+
+export class MockSpec {
+  private readonly templates: CompiledTemplate[] = [];
+
+  constructor(private readonly document: OpenApiDocument) {
+    for (const [template, operations] of Object.entries(document.paths)) {
+      for (const method of HTTP_METHODS) {
+        const operation = operations[method];
+        if (operation) this.addRoute({ method: method.toUpperCase(), template, operation });
+      }
+    }
+  }
+
+  static load(path = DEFAULT_SPEC_PATH): MockSpec {
+    return new MockSpec(JSON.parse(readFileSync(path, 'utf8')) as OpenApiDocument);
+  }
+
+  /** Serve a path the spec does not document, e.g. one NinjaOne answers anyway. */
+  addRoute(route: SpecRoute): void {
+    let compiled = this.templates.find((entry) => entry.template === route.template);
+    if (!compiled) {
+      compiled = compileTemplate(route.template);
+      this.templates.push(compiled);
+      // Literal segments win over parameters: /v2/organization/generate-installer before /v2/organization/{id}.
+      this.templates.sort((a, b) => a.paramNames.length - b.paramNames.length || b.template.length - a.template.length);
+    }
+    if (!compiled.methods.has(route.method)) compiled.methods.set(route.method, route);
+  }
+
+  /** The route for a request, or the methods the path allows (none when it is unknown). */
+  match(method: string, path: string): RouteMatch {
+    const allowedMethods: string[] = [];
+    for (const compiled of this.templates) {
+      const found = compiled.pattern.exec(path);
+      if (!found) continue;
+      const route = compiled.methods.get(method);
+      if (!route) {
+        allowedMethods.push(...compiled.methods.keys());
+        continue;
+      }
+      const params: Record<string, string> = {};
+      compiled.paramNames.forEach((name, index) => {
+        params[name] = decodeURIComponent(found[index + 1]!);
+      });
+      return { route, params };
+    }
+    return { route: undefined, allowedMethods };
+  }
+
+  /** JSON schema of the operation's success response, if it declares one. */
+  responseSchema(route: SpecRoute): SchemaObject | undefined {
+    const responses = route.operation?.responses ?? {};
+    const response = responses['200'] ?? responses['201'] ?? responses.default;
+    const content = response?.content;
+    if (!content) return undefined;
+    return (content['application/json'] ?? Object.values(content)[0])?.schema;
+  }
+
+  /** Schema of one element of an array response, e.g. one row of a query report. */
+  itemSchema(route: SpecRoute, property?: string): SchemaObject | undefined {
+    let schema = this.resolve(this.responseSchema(route));
+    if (property) schema = this.resolve(schema?.properties?.[property]);
+    return schema?.type === 'array' ? this.resolve(schema.items) : undefined;
+  }
+
+  /**
+   * A value matching the schema: declared examples and the first enum value
+   * where given, otherwise a placeholder of the right type. Arrays get one
+   * element so callers see the record shape.
+   */
+  sample(schema: SchemaObject | undefined, depth = 0): unknown {
+    const resolved = this.resolve(schema);
+    if (!resolved) return {};
+    if (resolved.example !== undefined) return resolved.example;
+    if (resolved.enum && resolved.enum.length > 0) return resolved.enum[0];
+    const variants = resolved.allOf ?? resolved.oneOf ?? resolved.anyOf;
+    if (variants) {
+      const parts = (resolved.allOf ? variants : variants.slice(0, 1)).map((variant) => this.sample(variant, depth));
+      return parts.every((part) => part && typeof part === 'object' && !Array.isArray(part))
+        ? Object.assign({}, ...parts)
+        : parts[0];
+    }
+
+    switch (resolved.type) {
+      case 'array':
+        return depth >= MAX_SAMPLE_DEPTH ? [] : [this.sample(resolved.items, depth + 1)];
+      case 'integer':
+      case 'number':
+        return 1;
+      case 'boolean':
+        return false;
+      case 'string':
+        if (resolved.format === 'date-time') return '2025-01-01T00:00:00Z';
+        if (resolved.format === 'date') return '2025-01-01';
+        if (resolved.format === 'uuid') return '00000000-0000-4000-8000-000000000000';
+        return 'string';
+      default: {
+        const result: Record<string, unknown> = {};
+        if (depth >= MAX_SAMPLE_DEPTH) return result;
+        for (const [name, property] of Object.entries(resolved.properties ?? {})) {
+          result[name] = this.sample(property, depth + 1);
+        }
+        return result;
+      }
+    }
+  }
+
+  private resolve(schema: SchemaObject | undefined): SchemaObject | undefined {
+    let current = schema;
+    // $refs only point into components.schemas in this spec.
+    for (let hops = 0; current?.$ref && hops < 10; hops++) {
+      current = this.document.components?.schemas?.[current.$ref.split('/').pop() ?? ''];
+    }
+    return current;
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Encrypted on-disk cache of the OAuth token and discovered region.
+ * NINJA_TOKEN_CACHE names a file that NinjaOneAPI reads before asking
+ * NinjaOne for a token and writes after every new one, so a restarted
+ * container, or another replica sharing the file, reuses a live token and
+ * skips region auto-detection. The file is AES-256-GCM encrypted with a key
+ * derived from NINJA_TOKEN_CACHE_KEY, or from the client secret when no key
+ * is set; a file that does not decrypt is ignored and later overwritten.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { instanceFilePath } from './instances.js';
+
+export interface StoredToken {
+  /** Region the token was issued by. */
+  baseUrl: string;
+  accessToken: string;
+  /** Epoch milliseconds. */
+  expiresAt: number;
+  /** When to request the next token, before expiresAt. */
+  refreshAt: number;
+}
+
+export interface TokenStoreOptions {
+  path: string;
+  /** Encryption passphrase; defaults to the client secret. */
+  key?: string;
+}
+
+interface TokenFile {
+  version: number;
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface TokenPayload extends StoredToken {
+  /** Tokens of other credentials sharing the file are not reused. */
+  clientId: string;
+}
+
+const FILE_VERSION = 1;
+const CIPHER = 'aes-256-gcm';
+
+export class TokenStore {
+  /** Derived keys by salt; scrypt is deliberately slow. */
+  private keys = new Map<string, Buffer>();
+  private salt: Buffer | undefined;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: TokenStoreOptions) {}
+
+  /**
+   * Read NINJA_TOKEN_CACHE (file path) and NINJA_TOKEN_CACHE_KEY. Returns
+   * undefined when no path is set. With several instances each gets its own
+   * file: `token.json` becomes `token.eu.json` for instance "eu".
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env, instance?: string): TokenStore | undefined {
+    const path = env.NINJA_TOKEN_CACHE?.trim();
+    if (!path) return undefined;
+    const key = env.NINJA_TOKEN_CACHE_KEY?.trim();
+    return new TokenStore({ path: instanceFilePath(path, instance), ...(key ? { key } : {}) });
+  }
+
+  get path(): string {
+    return this.options.path;
+  }
+
+  /**
+   * The stored token of these credentials, or undefined when there is none
+   * or the file cannot be read or decrypted.
+   */
+  async load(clientId: string, clientSecret: string): Promise<StoredToken | undefined> {
+    let file: TokenFile;
+    try {
+      file = JSON.parse(await readFile(this.options.path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Ignoring token cache ${this.options.path}:`, error instanceof Error ? error.message : String(error));
+      }
+      return undefined;
+    }
+    if (file.version !== FILE_VERSION) return undefined;
+    try {
+      const salt = Buffer.from(file.salt, 'base64');
+      const decipher = createDecipheriv(CIPHER, this.key(salt, clientSecret), Buffer.from(file.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+      const text = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]).toString('utf8');
+      const { clientId: owner, ...token }: TokenPayload = JSON.parse(text);
+      this.salt = salt;
+      return owner === clientId ? token : undefined;
+    } catch {
+      console.error(`Ignoring token cache ${this.options.path}: it does not decrypt with the configured key`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Replace the file. The write goes to a temporary file first so another
+   * process never reads half of it; a failed write is logged, never thrown.
+   */
+  save(clientId: string, clientSecret: string, token: StoredToken): Promise<void> {
+    this.writes = this.writes
+      .then(async () => {
+        const salt = (this.salt ??= randomBytes(16));
+        const iv = randomBytes(12);
+        const cipher = createCipheriv(CIPHER, this.key(salt, clientSecret), iv);
+        const payload: TokenPayload = { clientId, ...token };
+        const data = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+        const file: TokenFile = {
+          version: FILE_VERSION,
+          salt: salt.toString('base64'),
+          iv: iv.toString('base64'),
+          tag: cipher.getAuthTag().toString('base64'),
+          data: data.toString('base64')
+        };
+        const temporary = `${this.options.path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+        await writeFile(temporary, JSON.stringify(file), { mode: 0o600 });
+        await rename(temporary, this.options.path);
+      })
+      .catch((error) => {
+        console.error(`Failed to write token cache ${this.options.path}:`, error instanceof Error ? error.message : String(error));
+      });
+    return this.writes;
+  }
+
+  private key(salt: Buffer, clientSecret: string): Buffer {
+    const id = salt.toString('base64');
+    let key = this.keys.get(id);
+    if (!key) {
+      key = scryptSync(this.options.key ?? clientSecret, salt, 32);
+      this.keys.set(id, key);
+    }
+    return key;
+  }
+}
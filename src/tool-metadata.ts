@@ -0,0 +1,257 @@
+/**
+ * MCP tool annotations and output schemas.
+ * Annotations are hints for clients deciding what to auto-approve; they are
+ * derived from tool names like the read-only rule in tool-policy.ts, with
+ * explicit lists for the exceptions. Every tool also declares an output
+ * schema describing the `structuredContent` of its results.
+ */
+
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { isReadOnlyTool } from './tool-policy.js';
+
+/** Mutating tools that can disrupt users or remove data. */
+const DESTRUCTIVE_TOOLS = new Set([
+  'reboot_device',
+  'control_windows_service',
+  'configure_windows_service',
+  'run_device_script',
+  'apply_device_os_patches',
+  'apply_device_software_patches',
+  'delete_end_user',
+  'delete_contact',
+  'remove_role_members',
+  'approve_devices',
+  'reset_device_policy_overrides'
+]);
+
+/** Mutating tools that are safe to repeat with the same arguments. */
+const IDEMPOTENT_PREFIXES = ['update_', 'set_', 'delete_', 'reset_'];
+const IDEMPOTENT_TOOLS = new Set(['configure_windows_service', 'approve_devices', 'add_role_members', 'remove_role_members']);
+
+/** Tools answered by the server itself without calling NinjaONE. */
+const LOCAL_TOOLS = new Set(['list_regions', 'list_instances', 'set_region', 'get_audit_log', 'get_cache_stats']);
+
+export function toolAnnotations(name: string): ToolAnnotations {
+  const readOnly = isReadOnlyTool(name);
+  return {
+    readOnlyHint: readOnly,
+    destructiveHint: !readOnly && DESTRUCTIVE_TOOLS.has(name),
+    idempotentHint: readOnly || IDEMPOTENT_TOOLS.has(name) || IDEMPOTENT_PREFIXES.some((prefix) => name.startsWith(prefix)),
+    openWorldHint: !LOCAL_TOOLS.has(name)
+  };
+}
+
+type OutputSchema = { type: 'object'; [key: string]: unknown };
+
+/**
+ * Lists and query results: `results`, plus the paging summary when the tool
+ * was called with `all` / `maxRecords`, or the cursor of a query page.
+ */
+const LIST_OUTPUT_SCHEMA: OutputSchema = {
+  type: 'object',
+  properties: {
+    results: { type: 'array', description: 'Records returned by NinjaONE' },
+    cursor: { description: 'Query cursor for the next page' },
+    pages: { type: 'number', description: 'Pages fetched (all / maxRecords only)' },
+    totalRecords: { type: 'number', description: 'Records collected (all / maxRecords only)' },
+    truncated: { type: 'boolean', description: 'True when maxRecords stopped paging early' },
+    instances: {
+      type: 'array',
+      description: 'Per-instance record counts, paging summaries and errors (allInstances only)',
+      items: {
+        type: 'object',
+        properties: {
+          instance: { type: 'string' },
+          records: { type: 'number' },
+          cursor: { description: 'Query cursor for the instance\'s next page' },
+          pages: { type: 'number' },
+          totalRecords: { type: 'number' },
+          truncated: { type: 'boolean', description: 'True when maxRecords stopped paging this instance early' },
+          error: { type: 'string' }
+        }
+      }
+    }
+  }
+};
+
+/** A single NinjaONE record or action result. */
+const RECORD_OUTPUT_SCHEMA: OutputSchema = { type: 'object' };
+
+/** Tools whose NinjaONE endpoint returns a JSON array. */
+const LIST_TOOLS = new Set([
+  'get_devices', 'get_devices_detailed', 'get_organizations', 'get_organization_locations', 'get_alerts',
+  'get_device_alerts', 'get_end_users', 'get_technicians', 'get_contacts', 'get_policies', 'get_groups',
+  'get_group_device_ids', 'get_automation_scripts', 'get_device_jobs', 'get_jobs', 'get_scheduled_tasks',
+  'get_ticket_log_entries', 'get_ticket_statuses', 'get_ticket_attributes', 'get_ticket_boards', 'list_regions'
+]);
+
+const DEVICE_MATCHES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'number' },
+      systemName: { type: ['string', 'null'] },
+      displayName: { type: ['string', 'null'] }
+    }
+  }
+};
+
+const RANKED_DEVICE_MATCHES_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'number' },
+      systemName: { type: ['string', 'null'] },
+      displayName: { type: ['string', 'null'] },
+      organizationId: { type: ['number', 'null'] },
+      score: { type: 'number' },
+      matchedOn: { type: 'object', description: 'Attribute that matched each search criterion' }
+    }
+  }
+};
+
+const DEVICE_SEARCH_RESULT_PROPERTIES = {
+  source: { type: 'string', enum: ['index', 'api'] },
+  totalDevices: { type: ['number', 'null'], description: 'Devices in the index; null for NinjaONE device search' },
+  totalFound: { type: 'number' },
+  devices: RANKED_DEVICE_MATCHES_SCHEMA,
+  index: {
+    type: 'object',
+    properties: {
+      ready: { type: 'boolean' },
+      building: { type: 'boolean' },
+      devices: { type: 'number' },
+      builtAt: { type: ['string', 'null'] },
+      lastError: { type: ['string', 'null'] }
+    }
+  }
+};
+
+/** Results assembled by the server rather than passed through from NinjaONE. */
+const COMPOSED_OUTPUT_SCHEMAS: Record<string, OutputSchema> = {
+  get_device_warranty: {
+    type: 'object',
+    properties: {
+      deviceId: { type: 'number' },
+      systemName: { type: ['string', 'null'] },
+      displayName: { type: ['string', 'null'] },
+      nodeClass: { type: ['string', 'null'] },
+      warranty: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: ['ACTIVE', 'EXPIRED', 'UNKNOWN'] },
+          startDate: { type: ['string', 'null'] },
+          endDate: { type: ['string', 'null'] },
+          manufacturerFulfillmentDate: { type: ['string', 'null'] },
+          startDateEpoch: { type: ['number', 'null'] },
+          endDateEpoch: { type: ['number', 'null'] }
+        }
+      }
+    },
+    required: ['deviceId', 'warranty']
+  },
+  search_devices_by_name: {
+    type: 'object',
+    properties: {
+      searchTerm: { type: 'string' },
+      ...DEVICE_SEARCH_RESULT_PROPERTIES
+    },
+    required: ['source', 'totalFound', 'devices']
+  },
+  find_devices: {
+    type: 'object',
+    properties: DEVICE_SEARCH_RESULT_PROPERTIES,
+    required: ['source', 'totalFound', 'devices']
+  },
+  find_windows11_devices: {
+    type: 'object',
+    properties: {
+      totalDevices: { type: 'number' },
+      totalFound: { type: 'number' },
+      devices: DEVICE_MATCHES_SCHEMA,
+      truncated: { type: 'boolean', description: 'True when only the first 10,000 devices were checked' }
+    },
+    required: ['totalFound', 'devices']
+  },
+  wait_for_job: {
+    type: 'object',
+    properties: {
+      deviceId: { type: 'number' },
+      status: { type: 'string', enum: ['COMPLETED', 'TIMEOUT', 'NO_RUNNING_JOBS'] },
+      waitedMs: { type: 'number' },
+      runningJobs: { type: 'array', items: { type: 'object' } },
+      results: { type: 'array', items: { type: 'object' } }
+    },
+    required: ['deviceId', 'status', 'runningJobs', 'results']
+  },
+  list_instances: {
+    type: 'object',
+    properties: {
+      defaultInstance: { type: 'string' },
+      instances: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            description: { type: ['string', 'null'] },
+            baseUrl: { type: ['string', 'null'], description: 'null until the region is auto-detected' },
+            default: { type: 'boolean' }
+          }
+        }
+      }
+    },
+    required: ['defaultInstance', 'instances']
+  },
+  get_audit_log: {
+    type: 'object',
+    properties: {
+      count: { type: 'number' },
+      entries: { type: 'array', items: { type: 'object' } }
+    },
+    required: ['count', 'entries']
+  },
+  get_cache_stats: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean' },
+      entries: { type: 'number' },
+      maxEntries: { type: 'number' },
+      hits: { type: 'number' },
+      misses: { type: 'number' },
+      hitRate: { type: ['number', 'null'] },
+      evictions: { type: 'number' },
+      invalidations: { type: 'number' },
+      rules: { type: 'object' }
+    },
+    required: ['enabled']
+  }
+};
+
+/** Tools whose results are a list of NinjaONE records. */
+function isListTool(name: string): boolean {
+  return LIST_TOOLS.has(name) || name.startsWith('query_');
+}
+
+/** Read-only list tools served by NinjaONE, which can run on every instance at once. */
+export function canFanOut(name: string): boolean {
+  return isListTool(name) && !LOCAL_TOOLS.has(name);
+}
+
+export function toolOutputSchema(name: string): OutputSchema {
+  if (COMPOSED_OUTPUT_SCHEMAS[name]) return COMPOSED_OUTPUT_SCHEMAS[name];
+  if (isListTool(name)) return LIST_OUTPUT_SCHEMA;
+  return RECORD_OUTPUT_SCHEMA;
+}
+
+/**
+ * structuredContent must be an object: arrays become `{ results }` to match
+ * LIST_OUTPUT_SCHEMA, and other values become `{ result }`.
+ */
+export function toStructuredContent(data: unknown): Record<string, unknown> {
+  if (Array.isArray(data)) return { results: data };
+  if (data && typeof data === 'object') return data as Record<string, unknown>;
+  return { result: data ?? null };
+}
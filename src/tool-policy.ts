@@ -0,0 +1,122 @@
+/**
+ * Which tools a deployment exposes.
+ * A ToolPolicy combines read-only mode with allow and deny lists of tool
+ * names or categories. The same policy filters ListTools and guards every
+ * tool call, so a hidden tool cannot be invoked by name either.
+ */
+
+/** Tools grouped by area; `query_*` tools fall into `queries` by prefix. */
+export const TOOL_CATEGORIES: Record<string, readonly string[]> = {
+  devices: [
+    'get_devices', 'get_devices_detailed', 'get_device', 'get_device_warranty', 'get_device_dashboard_url',
+    'get_device_software', 'search_devices_by_name', 'find_devices', 'find_windows11_devices', 'reboot_device',
+    'set_device_maintenance', 'approve_devices'
+  ],
+  services: ['control_windows_service', 'configure_windows_service'],
+  scripting: ['get_automation_scripts', 'get_device_scripting_options', 'run_device_script'],
+  jobs: ['get_device_jobs', 'get_jobs', 'get_scheduled_tasks', 'wait_for_job'],
+  patching: [
+    'scan_device_os_patches', 'apply_device_os_patches', 'scan_device_software_patches', 'apply_device_software_patches'
+  ],
+  organizations: [
+    'get_organizations', 'get_organization', 'get_organization_locations', 'generate_organization_installer',
+    'create_organization', 'update_organization', 'create_location', 'update_location'
+  ],
+  alerts: ['get_alerts', 'get_alert', 'reset_alert', 'get_device_alerts'],
+  activities: ['get_device_activities', 'get_activities'],
+  users: [
+    'get_end_users', 'get_end_user', 'create_end_user', 'update_end_user', 'delete_end_user',
+    'get_technicians', 'get_technician', 'add_role_members', 'remove_role_members'
+  ],
+  contacts: ['get_contacts', 'get_contact', 'create_contact', 'update_contact', 'delete_contact'],
+  policies: ['get_policies', 'get_organization_policies', 'get_device_policy_overrides', 'reset_device_policy_overrides'],
+  'custom-fields': [
+    'get_device_custom_fields', 'update_device_custom_fields',
+    'get_organization_custom_fields', 'update_organization_custom_fields'
+  ],
+  groups: ['get_groups', 'get_group_device_ids'],
+  tickets: [
+    'create_ticket', 'get_ticket', 'update_ticket', 'add_ticket_comment', 'get_ticket_log_entries',
+    'get_ticket_statuses', 'get_ticket_forms', 'get_ticket_attributes', 'get_ticket_boards', 'get_board_tickets'
+  ],
+  regions: ['list_regions', 'set_region'],
+  instances: ['list_instances'],
+  audit: ['get_audit_log'],
+  cache: ['get_cache_stats'],
+  queries: []
+};
+
+/**
+ * Tools that only read. Anything else (create_, update_, delete_, reboot_,
+ * apply_, set_region, ...) is treated as mutating, so a new tool is hidden
+ * in read-only mode until its name says otherwise.
+ */
+const READ_ONLY_PREFIXES = ['get_', 'query_', 'list_', 'search_', 'find_', 'wait_for_'];
+
+const CATEGORY_BY_TOOL = new Map<string, string>(
+  Object.entries(TOOL_CATEGORIES).flatMap(([category, tools]) => tools.map((tool) => [tool, category] as const))
+);
+
+export function toolCategory(name: string): string {
+  return CATEGORY_BY_TOOL.get(name) ?? (name.startsWith('query_') ? 'queries' : 'other');
+}
+
+export function isReadOnlyTool(name: string): boolean {
+  return READ_ONLY_PREFIXES.some((prefix) => name.startsWith(prefix));
+}
+
+export interface ToolPolicyOptions {
+  readOnly?: boolean;
+  /** Tool names or categories; when non-empty, only these are exposed. */
+  allow?: readonly string[];
+  /** Tool names or categories that are never exposed. Wins over allow. */
+  deny?: readonly string[];
+}
+
+export class ToolPolicy {
+  readonly readOnly: boolean;
+  private readonly allow: ReadonlySet<string>;
+  private readonly deny: ReadonlySet<string>;
+
+  constructor(options: ToolPolicyOptions = {}) {
+    this.readOnly = options.readOnly ?? false;
+    this.allow = new Set(options.allow ?? []);
+    this.deny = new Set(options.deny ?? []);
+  }
+
+  /**
+   * Read NINJA_READ_ONLY, NINJA_TOOLS_ALLOW and NINJA_TOOLS_DENY
+   * (comma-separated tool names or categories).
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): ToolPolicy {
+    const list = (value: string | undefined) =>
+      (value ?? '').split(',').map((entry) => entry.trim()).filter(Boolean);
+    return new ToolPolicy({
+      readOnly: ['1', 'true', 'yes'].includes((env.NINJA_READ_ONLY ?? '').trim().toLowerCase()),
+      allow: list(env.NINJA_TOOLS_ALLOW),
+      deny: list(env.NINJA_TOOLS_DENY)
+    });
+  }
+
+  isAllowed(name: string): boolean {
+    if (this.readOnly && !isReadOnlyTool(name)) return false;
+    const category = toolCategory(name);
+    if (this.deny.has(name) || this.deny.has(category)) return false;
+    return this.allow.size === 0 || this.allow.has(name) || this.allow.has(category);
+  }
+
+  /**
+   * Allow/deny entries that match no known tool or category, for startup warnings.
+   */
+  unknownEntries(toolNames: readonly string[]): string[] {
+    const known = new Set([...toolNames, ...Object.keys(TOOL_CATEGORIES), 'other']);
+    return [...this.allow, ...this.deny].filter((entry) => !known.has(entry));
+  }
+
+  describe(): string {
+    const parts = [this.readOnly ? 'read-only' : 'read-write'];
+    if (this.allow.size > 0) parts.push(`allow: ${[...this.allow].join(', ')}`);
+    if (this.deny.size > 0) parts.push(`deny: ${[...this.deny].join(', ')}`);
+    return parts.join('; ');
+  }
+}
@@ -10,35 +10,62 @@ import { randomUUID, timingSafeEqual } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { SHARED_TOKEN_IDENTITY } from '../access-control.js';
+import type { AccessIdentity, ApiKeyStore } from '../access-control.js';
 
 /**
  * Token authentication middleware.
- * When MCP_AUTH_TOKEN is set, all requests (except /health) must include
- * a matching ?token= query parameter. Skipped entirely when unset.
+ * Requests (except /health) must present a token as ?token= or an
+ * `Authorization: Bearer` header. The shared MCP_AUTH_TOKEN grants full
+ * access; keys from MCP_API_KEYS_FILE resolve to their role's identity.
+ * The identity is left on `res.locals.identity`. Skipped entirely when
+ * neither is configured.
  */
-function tokenAuth(req: Request, res: Response, next: NextFunction): void {
-  const expected = process.env.MCP_AUTH_TOKEN?.trim();
-  if (!expected) return next();
-  if (req.path === '/health') return next();
-
-  const provided = typeof req.query.token === 'string' ? req.query.token : '';
-  if (
-    provided.length === expected.length &&
-    timingSafeEqual(Buffer.from(provided), Buffer.from(expected))
-  ) {
-    return next();
-  }
-
-  res.status(401).json({ error: 'Unauthorized', message: 'Invalid or missing token' });
+function tokenAuth(apiKeys?: ApiKeyStore) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const expected = process.env.MCP_AUTH_TOKEN?.trim();
+    if (!expected && !apiKeys) return next();
+    if (req.path === '/health') return next();
+
+    const header = req.headers.authorization;
+    const provided = typeof req.query.token === 'string'
+      ? req.query.token
+      : header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+
+    if (
+      expected &&
+      provided.length === expected.length &&
+      timingSafeEqual(Buffer.from(provided), Buffer.from(expected))
+    ) {
+      res.locals.identity = SHARED_TOKEN_IDENTITY;
+      return next();
+    }
+    const identity = provided ? apiKeys?.authenticate(provided) : undefined;
+    if (identity) {
+      res.locals.identity = identity;
+      return next();
+    }
+
+    res.status(401).json({ error: 'Unauthorized', message: 'Invalid or missing token' });
+  };
+}
+
+/** An open MCP session and the identity that initialized it. */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  identity?: AccessIdentity;
 }
 
 /**
  * HTTP Transport Server using MCP Streamable HTTP protocol.
- * Each session gets a fresh MCP Server instance via the factory.
+ * Each session gets a fresh MCP Server instance via the factory, built for
+ * the identity that authenticated the initialize request.
  */
 export async function createHttpServer(
-  serverFactory: () => Server,
-  port: number
+  serverFactory: (identity?: AccessIdentity) => Server,
+  port: number,
+  apiKeys?: ApiKeyStore,
+  healthDetails?: () => Record<string, unknown>
 ): Promise<void> {
   const app = express();
 
@@ -52,20 +79,48 @@ export async function createHttpServer(
 
   app.use(express.json({ limit: '10mb' }));
   app.use(express.text({ type: '*/*', limit: '10mb' }));
-  app.use(tokenAuth);
-
-  // Track active transports by session ID
-  const transports = new Map<string, StreamableHTTPServerTransport>();
+  app.use(tokenAuth(apiKeys));
+
+  // Track active sessions by session ID
+  const sessions = new Map<string, Session>();
+
+  /**
+   * The session a request belongs to. A session only accepts requests from
+   * the identity that opened it; anything else gets an error response.
+   */
+  const resolveSession = (sessionId: string | undefined, res: Response): Session | undefined => {
+    const session = sessionId ? sessions.get(sessionId) : undefined;
+    if (!session) {
+      res.status(400).json({ error: 'Bad Request', message: 'Invalid or missing session ID' });
+      return undefined;
+    }
+    const identity: AccessIdentity | undefined = res.locals.identity;
+    if (session.identity?.name !== identity?.name) {
+      res.status(403).json({ error: 'Forbidden', message: 'Session belongs to a different API key' });
+      return undefined;
+    }
+    return session;
+  };
+
+  const health = () => ({
+    status: 'healthy',
+    service: 'ninjaone-mcp-server',
+    version: '1.3.0',
+    timestamp: new Date().toISOString(),
+    transport: 'streamable-http'
+  });
 
   // Health check endpoint (exempt from token auth)
   app.get('/health', (_req: Request, res: Response) => {
+    res.json(health());
+  });
+
+  // Request queue, cache and device index details (requires a token)
+  app.get('/health/details', (_req: Request, res: Response) => {
     res.json({
-      status: 'healthy',
-      service: 'ninjaone-mcp-server',
-      version: '1.3.0',
-      timestamp: new Date().toISOString(),
-      transport: 'streamable-http',
-      activeSessions: transports.size
+      ...health(),
+      activeSessions: sessions.size,
+      ...healthDetails?.()
     });
   });
 
@@ -93,48 +148,47 @@ export async function createHttpServer(
 
         transport.onclose = () => {
           const sid = transport.sessionId;
-          if (sid) transports.delete(sid);
+          if (sid) sessions.delete(sid);
         };
 
-        const mcpServer = serverFactory();
+        const identity: AccessIdentity | undefined = res.locals.identity;
+        const mcpServer = serverFactory(identity);
         await mcpServer.connect(transport as Parameters<typeof mcpServer.connect>[0]);
         await transport.handleRequest(req, res, body);
 
         if (transport.sessionId) {
-          transports.set(transport.sessionId, transport);
+          sessions.set(transport.sessionId, { transport, ...(identity ? { identity } : {}) });
+          if (identity) {
+            console.error(`[MCP] Session ${transport.sessionId} opened by ${identity.name} (role ${identity.role})`);
+          }
         }
         return;
       }
 
       // Existing session
-      if (!sessionId || !transports.has(sessionId)) {
-        console.error(`[MCP] POST non-init without valid session. sessionId: ${sessionId || 'none'}, method: ${body?.method}, active sessions: ${transports.size}`);
-        res.status(400).json({ error: 'Bad Request', message: 'Invalid or missing session ID' });
-        return;
+      if (!sessionId || !sessions.has(sessionId)) {
+        console.error(`[MCP] POST non-init without valid session. sessionId: ${sessionId || 'none'}, method: ${body?.method}, active sessions: ${sessions.size}`);
       }
-      await transports.get(sessionId)!.handleRequest(req, res, body);
+      const session = resolveSession(sessionId, res);
+      if (!session) return;
+      await session.transport.handleRequest(req, res, body);
       return;
     }
 
     if (req.method === 'GET') {
       // SSE stream for server-initiated messages
-      if (!sessionId || !transports.has(sessionId)) {
-        res.status(400).json({ error: 'Bad Request', message: 'Invalid or missing session ID' });
-        return;
-      }
-      await transports.get(sessionId)!.handleRequest(req, res);
+      const session = resolveSession(sessionId, res);
+      if (!session) return;
+      await session.transport.handleRequest(req, res);
       return;
     }
 
     if (req.method === 'DELETE') {
       // Session teardown
-      if (!sessionId || !transports.has(sessionId)) {
-        res.status(400).json({ error: 'Bad Request', message: 'Invalid or missing session ID' });
-        return;
-      }
-      const transport = transports.get(sessionId)!;
-      await transport.handleRequest(req, res);
-      transports.delete(sessionId);
+      const session = resolveSession(sessionId, res);
+      if (!session) return;
+      await session.transport.handleRequest(req, res);
+      sessions.delete(sessionId!);
       return;
     }
 
@@ -158,8 +212,10 @@ export async function createHttpServer(
  * SSE Transport — delegates to the Streamable HTTP transport.
  */
 export async function createSseServer(
-  serverFactory: () => Server,
-  port: number
+  serverFactory: (identity?: AccessIdentity) => Server,
+  port: number,
+  apiKeys?: ApiKeyStore,
+  healthDetails?: () => Record<string, unknown>
 ): Promise<void> {
-  return createHttpServer(serverFactory, port);
+  return createHttpServer(serverFactory, port, apiKeys, healthDetails);
 }
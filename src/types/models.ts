@@ -0,0 +1,120 @@
+/**
+ * Typed request/response models for the NinjaOne public API.
+ * Derived from the generated OpenAPI types in ./ninja-openapi.ts
+ * (regenerate with `npm run generate:types`).
+ */
+
+import type { components, paths } from './ninja-openapi.js';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+type Schemas = components['schemas'];
+type Operation<P extends keyof paths, M extends HttpMethod> = NonNullable<paths[P][Lowercase<M>]>;
+
+/**
+ * Endpoints NinjaOne serves but omits from the published spec.
+ * Keep this list short: every entry is a spec drift we have accepted on purpose.
+ */
+interface UndocumentedPaths {
+  '/v2/alert/{uid}': 'GET';
+  '/v2/organization/{id}/policies': 'GET';
+}
+
+/** Spec paths that declare the given HTTP method. */
+export type SpecPath<M extends HttpMethod> = {
+  [P in keyof paths]: [NonNullable<paths[P][Lowercase<M>]>] extends [never] ? never : P;
+}[keyof paths];
+
+/** Every path the client is allowed to call with the given method. */
+export type ApiPath<M extends HttpMethod> =
+  | SpecPath<M>
+  | { [P in keyof UndocumentedPaths]: M extends UndocumentedPaths[P] ? P : never }[keyof UndocumentedPaths];
+
+/** Path parameters named in a template such as `/v2/device/{id}/jobs`. */
+export type PathParams<P extends string> =
+  P extends `${string}{${infer K}}${infer Rest}`
+    ? { [Key in K]: string | number } & PathParams<Rest>
+    : {};
+
+type JsonContent<T> = T extends { content: { 'application/json': infer Body } } ? Body : unknown;
+
+/** JSON request body declared by the spec for a path + method. */
+export type RequestBody<P extends string, M extends HttpMethod> =
+  P extends SpecPath<M>
+    ? Operation<P, M> extends { requestBody?: infer Body } ? JsonContent<NonNullable<Body>> : never
+    : unknown;
+
+/** JSON response body declared by the spec for a path + method. */
+export type ResponseBody<P extends string, M extends HttpMethod> =
+  P extends SpecPath<M>
+    ? Operation<P, M> extends { responses: infer R }
+      ? R extends { 200: infer Ok } ? JsonContent<Ok>
+        : R extends { default: infer Default } ? JsonContent<Default>
+        : unknown
+      : unknown
+    : unknown;
+
+type ItemOf<T> = T extends (infer Item)[] ? Item : never;
+
+// Devices
+export type Device = ItemOf<ResponseBody<'/v2/devices', 'GET'>>;
+// The live endpoint also returns the os and system blocks; the spec omits them.
+export type DeviceDetails = ResponseBody<'/v2/device/{id}', 'GET'> & {
+  os?: Schemas['OperatingSystem'];
+  system?: Schemas['ComputerSystem'];
+};
+export type DeviceDetailedListItem = ItemOf<ResponseBody<'/v2/devices-detailed', 'GET'>>;
+export type DeviceSearchResults = ResponseBody<'/v2/devices/search', 'GET'>;
+export type DeviceSearchMatch = Schemas['DeviceSearchMatch'];
+export type WarrantyDates = Schemas['WarrantyDates'];
+export type DeviceSoftware = ResponseBody<'/v2/device/{id}/software', 'GET'>;
+export type DeviceActivities = ResponseBody<'/v2/device/{id}/activities', 'GET'>;
+export type DeviceActivity = NonNullable<DeviceActivities['activities']>[number];
+export type DevicePolicyOverrides = ResponseBody<'/v2/device/{id}/policy/overrides', 'GET'>;
+export type CustomFieldValues = Record<string, unknown>;
+
+// Scripting and jobs
+export type ScriptingOptions = ResponseBody<'/v2/device/{id}/scripting/options', 'GET'>;
+export type AutomationScript = ItemOf<ResponseBody<'/v2/automation/scripts', 'GET'>>;
+export type ScriptRunRequest = RequestBody<'/v2/device/{id}/script/run', 'POST'>;
+export type DeviceJob = ItemOf<ResponseBody<'/v2/device/{id}/jobs', 'GET'>>;
+export type Job = ItemOf<ResponseBody<'/v2/jobs', 'GET'>>;
+export type JobStatus = NonNullable<Job['jobStatus']>;
+export type ScheduledTask = ItemOf<ResponseBody<'/v2/tasks', 'GET'>>;
+
+// Organizations and locations
+export type Organization = ItemOf<ResponseBody<'/v2/organizations', 'GET'>>;
+export type OrganizationDetailed = ResponseBody<'/v2/organization/{id}', 'GET'>;
+export type Location = ItemOf<ResponseBody<'/v2/organization/{id}/locations', 'GET'>>;
+
+// Alerts and activities
+export type Alert = ItemOf<ResponseBody<'/v2/alerts', 'GET'>>;
+export type ActivitiesResponse = ResponseBody<'/v2/activities', 'GET'>;
+
+// Users, contacts, policies, groups
+export type EndUser = ItemOf<ResponseBody<'/v2/user/end-users', 'GET'>>;
+export type Technician = ItemOf<ResponseBody<'/v2/user/technicians', 'GET'>>;
+export type Contact = ItemOf<ResponseBody<'/v2/contacts', 'GET'>>;
+export type Policy = ItemOf<ResponseBody<'/v2/policies', 'GET'>>;
+export type Group = ItemOf<ResponseBody<'/v2/groups', 'GET'>>;
+
+// Ticketing
+export type Ticket = ResponseBody<'/v2/ticketing/ticket/{ticketId}', 'GET'>;
+export type NewTicket = RequestBody<'/v2/ticketing/ticket', 'POST'>;
+export type UpdateTicket = RequestBody<'/v2/ticketing/ticket/{ticketId}', 'PUT'>;
+export type TicketComment = NonNullable<NewTicket['description']>;
+export type TicketAttributeValue = NonNullable<NonNullable<NewTicket['attributes']>[number]>;
+export type TicketLogEntry = ItemOf<ResponseBody<'/v2/ticketing/ticket/{ticketId}/log-entry', 'GET'>>;
+export type TicketLogEntryType = NonNullable<TicketLogEntry['type']>;
+export type TicketStatus = ItemOf<ResponseBody<'/v2/ticketing/statuses', 'GET'>>;
+export type TicketForm = ResponseBody<'/v2/ticketing/ticket-form/{id}', 'GET'>;
+export type TicketAttribute = ItemOf<ResponseBody<'/v2/ticketing/attributes', 'GET'>>;
+export type TicketBoard = ItemOf<ResponseBody<'/v2/ticketing/trigger/boards', 'GET'>>;
+export type TicketBoardQuery = RequestBody<'/v2/ticketing/trigger/board/{boardId}/run', 'POST'>;
+export type TicketBoardResult = ResponseBody<'/v2/ticketing/trigger/board/{boardId}/run', 'POST'>;
+
+// Queries: every /v2/queries/* endpoint returns { cursor, results }
+export type QueryCursor = Schemas['Cursor'];
+export type QueryPath = Extract<SpecPath<'GET'>, `/v2/queries/${string}`>;
+export type QueryResponse<P extends QueryPath> = ResponseBody<P, 'GET'>;
+export type QueryRecord<P extends QueryPath> = NonNullable<ResponseBody<P, 'GET'>['results']>[number];
@@ -0,0 +1,165 @@
+/**
+ * Tool argument validation against each tool's inputSchema.
+ * Only the JSON Schema keywords the tool definitions use are checked:
+ * type, enum, properties, required and items. Values a model commonly sends
+ * in the wrong form are coerced when the meaning is unambiguous, e.g. "123"
+ * for a number, "true" for a boolean or a lower-case enum value.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export interface InputSchema {
+  type?: string | readonly string[];
+  enum?: readonly unknown[];
+  properties?: Record<string, InputSchema>;
+  required?: readonly string[];
+  items?: InputSchema;
+  description?: string;
+}
+
+export interface ArgumentError {
+  /** Path of the offending argument, e.g. "duration.unit" or "deviceIds[1]". */
+  field: string;
+  message: string;
+}
+
+const NUMERIC_STRING = /^-?\d+(\.\d+)?$/;
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value)}`;
+  return `${typeof value} ${String(value)}`;
+}
+
+function parseJson(value: string, open: string): unknown {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith(open)) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * The value as the given type, or undefined when it cannot be converted safely.
+ */
+function coerce(value: unknown, type: string): unknown {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && NUMERIC_STRING.test(value.trim()) ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return undefined;
+      return type === 'integer' && !Number.isInteger(number) ? undefined : number;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      if (typeof value === 'string' && /^(true|false)$/i.test(value.trim())) return value.trim().toLowerCase() === 'true';
+      return undefined;
+    case 'string':
+      if (typeof value === 'string') return value;
+      if ((typeof value === 'number' && Number.isFinite(value)) || typeof value === 'boolean') return String(value);
+      return undefined;
+    case 'array': {
+      if (Array.isArray(value)) return value;
+      const parsed = typeof value === 'string' ? parseJson(value, '[') : undefined;
+      if (Array.isArray(parsed)) return parsed;
+      // A single ID or tag where a list is expected.
+      return value !== null && typeof value !== 'object' ? [value] : undefined;
+    }
+    case 'object': {
+      if (value && typeof value === 'object' && !Array.isArray(value)) return value;
+      const parsed = typeof value === 'string' ? parseJson(value, '{') : undefined;
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+    }
+    case 'null':
+      return value === null ? null : undefined;
+    default:
+      return value;
+  }
+}
+
+function validateValue(value: unknown, schema: InputSchema, field: string, errors: ArgumentError[]): unknown {
+  let result = value;
+
+  if (schema.type !== undefined) {
+    const types = typeof schema.type === 'string' ? [schema.type] : schema.type;
+    const candidates = types.map((type) => coerce(value, type));
+    // Prefer a type the value already has over converting it to another.
+    if (!candidates.includes(value)) {
+      const converted = candidates.find((candidate) => candidate !== undefined);
+      if (converted === undefined) {
+        errors.push({ field, message: `expected ${types.join(' or ')}, got ${describeValue(value)}` });
+        return value;
+      }
+      result = converted;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(result)) {
+    const text = typeof result === 'string' ? result.trim().toLowerCase() : undefined;
+    const match = schema.enum.find((option) => typeof option === 'string' && option.toLowerCase() === text);
+    if (match === undefined) {
+      errors.push({ field, message: `must be one of ${schema.enum.join(', ')}, got ${describeValue(result)}` });
+      return result;
+    }
+    result = match;
+  }
+
+  if (Array.isArray(result) && schema.items) {
+    const items = schema.items;
+    result = result.map((item, index) => validateValue(item, items, `${field}[${index}]`, errors));
+  } else if (result && typeof result === 'object' && !Array.isArray(result) && (schema.properties || schema.required)) {
+    result = validateObject(result as Record<string, unknown>, schema, field, errors);
+  }
+
+  return result;
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: InputSchema,
+  path: string,
+  errors: ArgumentError[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const properties = schema.properties ?? {};
+  const required = new Set(schema.required ?? []);
+  const fieldName = (key: string) => (path ? `${path}.${key}` : key);
+
+  for (const [key, entry] of Object.entries(value)) {
+    const property = properties[key];
+    // Null stands for "not set"; missing required arguments are reported below.
+    if (entry === null || entry === undefined) continue;
+    // Arguments the schema does not declare are passed through unchanged.
+    result[key] = property ? validateValue(entry, property, fieldName(key), errors) : entry;
+  }
+  for (const key of required) {
+    if (result[key] === undefined || result[key] === null) {
+      errors.push({ field: fieldName(key), message: 'is required' });
+    }
+  }
+  return result;
+}
+
+/**
+ * Check tool arguments against the tool's inputSchema and return them with
+ * safe coercions applied. Throws InvalidParams listing every problem found.
+ */
+export function validateArguments(toolName: string, schema: InputSchema, args: unknown): Record<string, unknown> {
+  const errors: ArgumentError[] = [];
+  const value = args ?? {};
+  let result: Record<string, unknown> = {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    errors.push({ field: '(arguments)', message: `expected an object, got ${describeValue(value)}` });
+  } else {
+    result = validateObject(value as Record<string, unknown>, schema, '', errors);
+  }
+  if (errors.length > 0) {
+    const details = errors.map((error) => `- ${error.field}: ${error.message}`).join('\n');
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${toolName}:\n${details}`, { errors });
+  }
+  return result;
+}